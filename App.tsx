@@ -2,11 +2,13 @@ import React, { useState, useEffect, useCallback } from 'react';
 import ProjectList from './components/ProjectList';
 import ProjectEditor from './components/ProjectEditor';
 import ProjectPreview from './components/ProjectPreview';
+import JsonBlobViewer from './components/JsonBlobViewer';
 
 type AppRoute = 
   | { name: 'list' }
   | { name: 'editor', projectId: string }
-  | { name: 'preview', projectId: string };
+  | { name: 'preview', projectId: string }
+  | { name: 'share', shareId: string };
 
 const App: React.FC = () => {
   const [route, setRoute] = useState<AppRoute>({ name: 'list' });
@@ -20,6 +22,8 @@ const App: React.FC = () => {
         setRoute({ name: 'editor', projectId: parts[1] });
       } else if (parts[0] === 'preview' && parts[1]) {
         setRoute({ name: 'preview', projectId: parts[1] });
+      } else if (parts[0] === 'share' && parts[1]) {
+        setRoute({ name: 'share', shareId: decodeURIComponent(parts[1]) });
       } else {
         setRoute({ name: 'list' });
       }
@@ -45,6 +49,8 @@ const App: React.FC = () => {
     switch(route.name) {
       case 'preview':
         return <ProjectPreview projectId={route.projectId} />;
+      case 'share':
+        return <JsonBlobViewer key={route.shareId} blobId={route.shareId} />;
       case 'editor':
         return <ProjectEditor projectId={route.projectId} onBack={handleBackToList} />;
       case 'list':
@@ -0,0 +1,109 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { ProjectFile } from '../types';
+import { formatFileSize, getFileSize, getMimeType } from '../utils/fileUtils';
+import { DownloadIcon, MaximizeIcon, MinimizeIcon } from './Icons';
+
+interface AssetPreviewProps {
+    file: ProjectFile;
+    isFullScreen: boolean;
+    onToggleFullScreen: () => void;
+}
+
+
+const FontSample: React.FC<{ url: string }> = ({ url }) => {
+    const [family, setFamily] = useState<string | null>(null);
+    const [failed, setFailed] = useState(false);
+
+    useEffect(() => {
+        const name = `preview-font-${Math.random().toString(36).slice(2)}`;
+        const face = new FontFace(name, `url(${url})`);
+        let isCancelled = false;
+        face.load()
+            .then(loaded => {
+                if (isCancelled) return;
+                document.fonts.add(loaded);
+                setFamily(name);
+            })
+            .catch(() => !isCancelled && setFailed(true));
+        return () => {
+            isCancelled = true;
+            document.fonts.delete(face);
+        };
+    }, [url]);
+
+    if (failed) return <p className="text-red-400 text-sm">Font could not be loaded.</p>;
+    if (!family) return <p className="text-slate-400 text-sm">Loading font...</p>;
+    return (
+        <div style={{ fontFamily: family }} className="text-slate-100 space-y-4 text-center">
+            <p className="text-5xl">Aa Bb Cc</p>
+            <p className="text-2xl">The quick brown fox jumps over the lazy dog</p>
+            <p className="text-lg">0123456789 !?&amp;@#</p>
+        </div>
+    );
+};
+
+/**
+ * Read-only view for binary project files (images, fonts, media), shown in place of the code editor.
+ */
+const AssetPreview: React.FC<AssetPreviewProps> = ({ file, isFullScreen, onToggleFullScreen }) => {
+    const mimeType = file.mimeType || getMimeType(file.path);
+    const dataUrl = useMemo(() => `data:${mimeType};base64,${file.content}`, [mimeType, file.content]);
+    const [dimensions, setDimensions] = useState<string | null>(null);
+
+    useEffect(() => setDimensions(null), [dataUrl]);
+
+    let body: React.ReactNode;
+    if (mimeType.startsWith('image/')) {
+        body = (
+            <img
+                src={dataUrl}
+                alt={file.path}
+                onLoad={(e) => setDimensions(`${e.currentTarget.naturalWidth} × ${e.currentTarget.naturalHeight}`)}
+                className="max-w-full max-h-full object-contain"
+                style={{ backgroundImage: 'repeating-conic-gradient(#334155 0% 25%, #1e293b 0% 50%)', backgroundSize: '16px 16px' }}
+            />
+        );
+    } else if (mimeType.startsWith('font/')) {
+        body = <FontSample url={dataUrl} />;
+    } else if (mimeType.startsWith('audio/')) {
+        body = <audio src={dataUrl} controls />;
+    } else if (mimeType.startsWith('video/')) {
+        body = <video src={dataUrl} controls className="max-w-full max-h-full" />;
+    } else {
+        body = <p className="text-slate-400 text-sm">File biner ini tidak dapat ditampilkan atau diedit.</p>;
+    }
+
+    return (
+        <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl h-full flex flex-col overflow-hidden">
+            <div className="flex justify-between items-center p-3 border-b border-slate-700 flex-shrink-0 bg-slate-800/80">
+                <h4 className="font-mono text-sm text-slate-300 truncate">
+                    {file.path}
+                    <span className="ml-3 text-xs text-slate-500">{mimeType} · {formatFileSize(getFileSize(file))}{dimensions && ` · ${dimensions}`}</span>
+                </h4>
+                <div className="flex items-center gap-2">
+                    <a
+                        href={dataUrl}
+                        download={file.path.split('/').pop()}
+                        className="flex items-center gap-2 px-3 py-1 bg-slate-700 hover:bg-indigo-600 text-slate-200 hover:text-white text-sm font-semibold rounded-md transition-colors"
+                        title="Download file"
+                    >
+                        <DownloadIcon className="w-4 h-4" />
+                        Download
+                    </a>
+                    <button
+                        onClick={onToggleFullScreen}
+                        className="p-2 bg-slate-700 hover:bg-indigo-600 rounded-lg text-slate-300 hover:text-white transition-colors"
+                        title={isFullScreen ? "Exit Fullscreen" : "Enter Fullscreen"}
+                    >
+                        {isFullScreen ? <MinimizeIcon className="w-4 h-4" /> : <MaximizeIcon className="w-4 h-4" />}
+                    </button>
+                </div>
+            </div>
+            <div className="flex-1 min-h-0 flex justify-center items-center p-6 bg-[#282c34] overflow-auto">
+                {body}
+            </div>
+        </div>
+    );
+};
+
+export default AssetPreview;
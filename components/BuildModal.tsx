@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import type { ProjectFile } from '../types';
+import { buildProject, BuildOptions, BuildResult, BuildSettings } from '../utils/productionBuild';
+import { formatFileSize } from '../utils/fileUtils';
+import { XIcon, DownloadIcon, SpinnerIcon, AlertTriangleIcon } from './Icons';
+
+interface BuildModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  files: ProjectFile[];
+  /** Where the project is published, if it is; needed for sitemap.xml. */
+  siteUrl?: string;
+  lastModified: number;
+  settings: BuildSettings;
+  onSettingsChange: (settings: BuildSettings) => void;
+  /** Downloads the given files as a ZIP; `isBuild` tells the source files from the built output. */
+  onDownload: (files: ProjectFile[], isBuild: boolean) => void;
+}
+
+const OPTION_LABELS: { id: keyof BuildOptions; label: string; desc: string }[] = [
+  { id: 'minify', label: 'Minify', desc: 'Hapus komentar dan spasi dari HTML, CSS dan JS.' },
+  { id: 'hashAssets', label: 'Hashed asset names', desc: 'Nama aset diberi hash isi (style.3fa9c2d1.css) agar cache browser selalu segar.' },
+  { id: 'singleFile', label: 'Single-file HTML', desc: 'Setiap halaman menjadi satu file HTML dengan CSS, JS dan gambar disisipkan.' },
+  { id: 'seoFiles', label: 'sitemap.xml & robots.txt', desc: 'Dibuat otomatis jika proyek belum punya.' },
+];
+
+const formatChange = (sourceSize: number, size: number) => {
+  if (sourceSize === 0) return 'new';
+  const change = Math.round((size - sourceSize) / sourceSize * 100);
+  return change === 0 ? '±0%' : `${change > 0 ? '+' : ''}${change}%`;
+};
+
+/** Builds the project for deployment, shows a size report and downloads the source or the build. */
+const BuildModal: React.FC<BuildModalProps> = ({ isOpen, onClose, files, siteUrl, lastModified, settings, onSettingsChange, onDownload }) => {
+  const [result, setResult] = useState<BuildResult | null>(null);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { options } = settings;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let isCancelled = false;
+    setIsBuilding(true);
+    setError(null);
+    buildProject(files, options, siteUrl, lastModified)
+      .then(built => { if (!isCancelled) setResult(built); })
+      .catch(e => { if (!isCancelled) setError(e instanceof Error ? e.message : String(e)); })
+      .finally(() => { if (!isCancelled) setIsBuilding(false); });
+    return () => { isCancelled = true; };
+  }, [isOpen, files, options, siteUrl, lastModified]);
+
+  if (!isOpen) return null;
+
+  const setOption = (id: keyof BuildOptions, value: boolean) => onSettingsChange({ ...settings, options: { ...options, [id]: value } });
+  const totalSource = result?.report.reduce((sum, r) => sum + r.sourceSize, 0) ?? 0;
+  const totalSize = result?.report.reduce((sum, r) => sum + r.size, 0) ?? 0;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center backdrop-blur-sm transition-opacity duration-300"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-slate-800 rounded-xl shadow-2xl p-6 w-full max-w-2xl m-4 ring-1 ring-slate-700 flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-slate-100">Download &amp; Build</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-700" aria-label="Close">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+          {OPTION_LABELS.map(option => (
+            <label key={option.id} className={`flex items-start gap-3 p-3 rounded-lg border border-slate-700 bg-slate-900/40 ${option.id === 'hashAssets' && options.singleFile ? 'opacity-50' : 'cursor-pointer'}`}>
+              <input
+                type="checkbox"
+                checked={options[option.id]}
+                disabled={option.id === 'hashAssets' && options.singleFile}
+                onChange={(e) => setOption(option.id, e.target.checked)}
+                className="mt-1 accent-indigo-500"
+              />
+              <span>
+                <span className="block text-sm font-semibold text-slate-200">{option.label}</span>
+                <span className="block text-xs text-slate-400">{option.desc}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto border border-slate-700 rounded-lg">
+          {error ? (
+            <p className="p-4 text-sm text-red-300">Build gagal: {error}</p>
+          ) : !result ? (
+            <div className="p-6 flex justify-center"><SpinnerIcon className="w-6 h-6 text-indigo-400" /></div>
+          ) : (
+            <table className={`w-full text-xs ${isBuilding ? 'opacity-50' : ''}`}>
+              <thead className="sticky top-0 bg-slate-800 text-slate-400">
+                <tr>
+                  <th className="text-left font-medium px-3 py-2">File</th>
+                  <th className="text-right font-medium px-3 py-2">Source</th>
+                  <th className="text-right font-medium px-3 py-2">Build</th>
+                  <th className="text-right font-medium px-3 py-2">Change</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono text-slate-300">
+                {result.report.map(entry => (
+                  <tr key={entry.path} className="border-t border-slate-700/60">
+                    <td className="px-3 py-1.5 break-all" title={entry.sourcePath && entry.sourcePath !== entry.path ? `from ${entry.sourcePath}` : undefined}>{entry.path}</td>
+                    <td className="px-3 py-1.5 text-right text-slate-500 whitespace-nowrap">{entry.sourcePath ? formatFileSize(entry.sourceSize) : '—'}</td>
+                    <td className="px-3 py-1.5 text-right whitespace-nowrap">{formatFileSize(entry.size)}</td>
+                    <td className={`px-3 py-1.5 text-right whitespace-nowrap ${entry.size < entry.sourceSize ? 'text-green-400' : 'text-slate-500'}`}>{formatChange(entry.sourceSize, entry.size)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="sticky bottom-0 bg-slate-800 text-slate-200 font-semibold">
+                <tr className="border-t border-slate-600">
+                  <td className="px-3 py-2">Total ({result.report.length} files)</td>
+                  <td className="px-3 py-2 text-right text-slate-400 whitespace-nowrap">{formatFileSize(totalSource)}</td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">{formatFileSize(totalSize)}</td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">{formatChange(totalSource, totalSize)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          )}
+        </div>
+
+        {result && result.warnings.length > 0 && (
+          <ul className="mt-3 space-y-1 text-xs text-amber-200">
+            {result.warnings.map(warning => (
+              <li key={warning} className="flex items-start gap-2"><AlertTriangleIcon className="w-4 h-4 flex-shrink-0" /> {warning}</li>
+            ))}
+          </ul>
+        )}
+
+        <label className="flex items-center gap-2 mt-4 text-sm text-slate-300 cursor-pointer">
+          <input type="checkbox" checked={settings.useForPublish} onChange={(e) => onSettingsChange({ ...settings, useForPublish: e.target.checked })} className="accent-indigo-500" />
+          Use this build when publishing
+        </label>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={() => onDownload(files, false)}
+            className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-lg transition-colors text-sm"
+          >
+            Download Source
+          </button>
+          <button
+            onClick={() => result && onDownload(result.files, true)}
+            disabled={!result || isBuilding || !!error}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white font-semibold rounded-lg transition-colors text-sm disabled:bg-slate-500 disabled:cursor-not-allowed"
+          >
+            {isBuilding ? <SpinnerIcon className="w-4 h-4" /> : <DownloadIcon className="w-4 h-4" />} Download Build
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BuildModal;
@@ -1,7 +1,14 @@
-import React, { useRef, useMemo, useEffect } from 'react';
-import { SaveIcon, MaximizeIcon, MinimizeIcon } from './Icons';
+import React, { useRef, useMemo, useEffect, useLayoutEffect, useState, useCallback } from 'react';
+import { SaveIcon, MaximizeIcon, MinimizeIcon, SearchIcon, ChevronRightIcon, ChevronDownIcon, ArrowUpIcon, ArrowDownIcon, XIcon } from './Icons';
+import { getEditorLanguage, highlightLines, escapeHtml } from '../utils/syntaxHighlighter';
+import {
+    TextRange, INDENT, getLineStarts, lineAt, getFoldRanges, buildFoldedView, applyFoldedEdit,
+    findMatchingBracket, getEnterInsertion, buildSearchPattern, findMatches, getReplacement, replaceAllMatches,
+} from '../utils/editorText';
 
 interface CodeEditorProps {
+    /** Scopes the remembered undo history and view state, so files with the same path in other projects do not share them. */
+    projectId: string;
     filePath: string;
     content: string;
     onChange: (newContent: string) => void;
@@ -11,53 +18,643 @@ interface CodeEditorProps {
     onToggleFullScreen: () => void;
 }
 
-const CodeEditor: React.FC<CodeEditorProps> = ({ filePath, content, onChange, onSave, isDirty, isFullScreen, onToggleFullScreen }) => {
+interface HistoryEntry {
+    content: string;
+    selection: TextRange;
+}
+
+interface FileHistory {
+    content: string;
+    undo: HistoryEntry[];
+    redo: HistoryEntry[];
+    lastEditAt: number; // when the last mergeable edit (typing) happened, 0 otherwise
+}
+
+/** An edit of the visible text at one cursor; `caret` is the cursor offset inside `text` afterwards. */
+interface CursorEdit {
+    start: number;
+    end: number;
+    text: string;
+    caret: number;
+}
+
+const LINE_HEIGHT = 21;
+const PADDING = 16;
+const MAX_HISTORY = 200;
+// Typing within this interval is undone as one step.
+const TYPING_MERGE_MS = 1000;
+
+// Undo history per file, keyed by getFileKey. Kept outside the component so it survives switching files.
+const fileHistories = new Map<string, FileHistory>();
+
+const getFileKey = (projectId: string, filePath: string) => `${projectId}:${filePath}`;
+
+const getHistory = (fileKey: string, content: string): FileHistory => {
+    let history = fileHistories.get(fileKey);
+    if (!history) {
+        history = { content, undo: [], redo: [], lastEditAt: 0 };
+        fileHistories.set(fileKey, history);
+    }
+    return history;
+};
+
+interface ViewState {
+    selection: TextRange;
+    scrollTop: number;
+    scrollLeft: number;
+    folds: Set<number>;
+}
+
+// Cursor, scroll position and folds per file, keyed by getFileKey; restored when the file is shown again.
+const fileViewStates = new Map<string, ViewState>();
+
+const sameRange = (a: TextRange, b: TextRange) => a.start === b.start && a.end === b.end;
+
+/** Renders `text` with background marks for `ranges`; overlapping ranges are clipped. */
+const renderDecorations = (text: string, ranges: (TextRange & { className: string })[]): string => {
+    let html = '';
+    let pos = 0;
+    for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+        const start = Math.max(range.start, pos);
+        if (range.end < start || (range.end === start && range.start !== range.end)) continue;
+        html += escapeHtml(text.substring(pos, start));
+        html += range.start === range.end
+            ? `<span class="${range.className}"></span>`
+            : `<span class="${range.className}">${escapeHtml(text.substring(start, range.end))}</span>`;
+        pos = range.end;
+    }
+    return html + escapeHtml(text.substring(pos));
+};
+
+const wordAt = (text: string, offset: number): TextRange => {
+    let start = offset;
+    let end = offset;
+    while (start > 0 && /[\w$-]/.test(text[start - 1])) start--;
+    while (end < text.length && /[\w$-]/.test(text[end])) end++;
+    return { start, end };
+};
+
+const ToggleButton: React.FC<{ isActive: boolean; onClick: () => void; title: string; children: React.ReactNode }> = ({ isActive, onClick, title, children }) => (
+    <button
+        onClick={onClick}
+        title={title}
+        aria-pressed={isActive}
+        className={`px-1.5 py-0.5 rounded font-mono text-xs transition-colors ${isActive ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-700 hover:text-white'}`}
+    >
+        {children}
+    </button>
+);
+
+/**
+ * Code editor with syntax highlighting, bracket matching, auto-indent, find/replace, go to line,
+ * folding, multiple cursors and per-file undo. A transparent textarea handles input on top of
+ * layers that draw the highlighted code and decorations; folded lines are left out of the
+ * textarea's text and put back when it is edited.
+ */
+const CodeEditor: React.FC<CodeEditorProps> = ({ projectId, filePath, content, onChange, onSave, isDirty, isFullScreen, onToggleFullScreen }) => {
     const textareaRef = useRef<HTMLTextAreaElement>(null);
-    const lineNumbersRef = useRef<HTMLDivElement>(null);
+    const gutterRef = useRef<HTMLDivElement>(null);
+    const highlightRef = useRef<HTMLPreElement>(null);
+    const decorationRef = useRef<HTMLPreElement>(null);
+    const searchInputRef = useRef<HTMLInputElement>(null);
+    const goToLineInputRef = useRef<HTMLInputElement>(null);
+
+    const [folds, setFolds] = useState<Set<number>>(() => new Set());
+    const [selection, setSelection] = useState<TextRange>({ start: 0, end: 0 }); // full-text offsets
+    const [extraCursors, setExtraCursors] = useState<TextRange[]>([]); // full-text offsets
+    const [isSearchOpen, setIsSearchOpen] = useState(false);
+    const [isReplaceOpen, setIsReplaceOpen] = useState(false);
+    const [query, setQuery] = useState('');
+    const [replacement, setReplacement] = useState('');
+    const [isRegex, setIsRegex] = useState(false);
+    const [isCaseSensitive, setIsCaseSensitive] = useState(false);
+    const [matchIndex, setMatchIndex] = useState(0);
+    const [searchStatus, setSearchStatus] = useState<string | null>(null);
+    const [isGoToLineOpen, setIsGoToLineOpen] = useState(false);
+    const [goToLineValue, setGoToLineValue] = useState('');
 
+    // Selection (full-text offsets) to apply once the textarea shows the next render's text.
+    const pendingSelectionRef = useRef<{ range: TextRange; reveal: boolean; scroll?: { top: number; left: number } } | null>(null);
+    const loadedKeyRef = useRef<string | null>(null);
+    const fileKey = getFileKey(projectId, filePath);
+
+    const language = useMemo(() => getEditorLanguage(filePath), [filePath]);
     const lines = useMemo(() => content.split('\n'), [content]);
+    const lineStarts = useMemo(() => getLineStarts(content), [content]);
+    const foldRanges = useMemo(() => getFoldRanges(lines, language), [lines, language]);
+    const view = useMemo(() => buildFoldedView(content, folds, foldRanges), [content, folds, foldRanges]);
+    const viewLineStarts = useMemo(() => getLineStarts(view.text), [view]);
+    const highlighted = useMemo(() => highlightLines(content, language), [content, language]);
+
+    const { pattern: searchPattern, error: searchError } = useMemo(
+        () => buildSearchPattern({ query: isSearchOpen ? query : '', isRegex, isCaseSensitive }),
+        [isSearchOpen, query, isRegex, isCaseSensitive]
+    );
+    const matches = useMemo(() => searchPattern ? findMatches(content, searchPattern) : [], [content, searchPattern]);
+    const currentMatch = matches.length > 0 ? matches[Math.min(matchIndex, matches.length - 1)] : null;
+
+    const rememberViewState = (state: Partial<ViewState>) => {
+        const key = loadedKeyRef.current;
+        if (!key) return;
+        const previous = fileViewStates.get(key) || { selection: { start: 0, end: 0 }, scrollTop: 0, scrollLeft: 0, folds: new Set<number>() };
+        fileViewStates.set(key, { ...previous, ...state });
+    };
 
-    const syncScroll = () => {
-        if (lineNumbersRef.current && textareaRef.current) {
-            lineNumbersRef.current.scrollTop = textareaRef.current.scrollTop;
+    // Switching files restores that file's history, cursor, scroll position and folds. Changes
+    // made outside the editor (by the AI, or to a file reopened with other content) become an
+    // undo step. A layout effect, so nothing is recorded for the wrong file in between.
+    useLayoutEffect(() => {
+        const history = getHistory(fileKey, content);
+        if (loadedKeyRef.current !== fileKey) {
+            loadedKeyRef.current = fileKey;
+            const saved = history.content === content ? fileViewStates.get(fileKey) : undefined;
+            const selection = saved && saved.selection.end <= content.length ? saved.selection : { start: 0, end: 0 };
+            setFolds(new Set(saved?.folds));
+            setExtraCursors([]);
+            setSelection(selection);
+            pendingSelectionRef.current = { range: selection, reveal: false, scroll: { top: saved?.scrollTop ?? 0, left: saved?.scrollLeft ?? 0 } };
+        }
+        if (history.content !== content) {
+            history.undo.push({ content: history.content, selection: { start: 0, end: 0 } });
+            history.redo = [];
+            history.content = content;
+            history.lastEditAt = 0;
+            setFolds(new Set());
+            setExtraCursors([]);
         }
+    }, [fileKey, content]);
+
+    const syncScroll = useCallback(() => {
+        const ta = textareaRef.current;
+        if (!ta) return;
+        const transform = `translate(${-ta.scrollLeft}px, ${-ta.scrollTop}px)`;
+        if (highlightRef.current) highlightRef.current.style.transform = transform;
+        if (decorationRef.current) decorationRef.current.style.transform = transform;
+        if (gutterRef.current) gutterRef.current.style.transform = `translateY(${-ta.scrollTop}px)`;
+    }, []);
+
+    const scrollToViewOffset = useCallback((offset: number) => {
+        const ta = textareaRef.current;
+        if (!ta) return;
+        const top = lineAt(viewLineStarts, offset) * LINE_HEIGHT;
+        if (top < ta.scrollTop || top + LINE_HEIGHT + PADDING * 2 > ta.scrollTop + ta.clientHeight) {
+            ta.scrollTop = Math.max(0, top - ta.clientHeight / 3);
+        }
+        syncScroll();
+    }, [viewLineStarts, syncScroll]);
+
+    const applySelection = useCallback((range: TextRange, reveal: boolean) => {
+        const ta = textareaRef.current;
+        const start = view.toView(range.start);
+        const end = view.toView(range.end);
+        if (!ta || start === null || end === null) return;
+        ta.setSelectionRange(start, end);
+        setSelection(range);
+        rememberViewState({ selection: range });
+        if (reveal) scrollToViewOffset(start);
+    }, [view, scrollToViewOffset]);
+
+    useLayoutEffect(() => {
+        const pending = pendingSelectionRef.current;
+        const ta = textareaRef.current;
+        if (!pending || !ta) return;
+        pendingSelectionRef.current = null;
+        applySelection(pending.range, pending.reveal);
+        if (pending.scroll) {
+            ta.scrollTop = pending.scroll.top;
+            ta.scrollLeft = pending.scroll.left;
+            syncScroll();
+        }
+    }, [view, applySelection, syncScroll]);
+
+    useEffect(() => rememberViewState({ folds }), [folds]);
+
+    useLayoutEffect(syncScroll, [view, syncScroll]);
+
+    const getViewSelection = (): TextRange => {
+        const ta = textareaRef.current;
+        return ta ? { start: ta.selectionStart, end: ta.selectionEnd } : { start: 0, end: 0 };
+    };
+
+    const getFullSelection = (): TextRange => {
+        const { start, end } = getViewSelection();
+        return { start: view.toFull(start), end: view.toFull(end) };
+    };
+
+    /** Folds that hide `offset`; opening them makes it visible. */
+    const foldsHiding = (offset: number): number[] => {
+        const line = lineAt(lineStarts, offset);
+        return [...folds].filter(header => header < line && (foldRanges.get(header) ?? -1) >= line);
+    };
+
+    /** Selects a full-text range, opening any folds that hide it. */
+    const selectRange = (range: TextRange, { reveal = true, focus = false } = {}) => {
+        const hiding = [...foldsHiding(range.start), ...foldsHiding(range.end)];
+        if (focus) textareaRef.current?.focus();
+        if (hiding.length > 0) {
+            setFolds(prev => new Set([...prev].filter(header => !hiding.includes(header))));
+            pendingSelectionRef.current = { range, reveal };
+        } else {
+            applySelection(range, reveal);
+        }
+    };
+
+    /** Records the change for undo and passes it up. Typing is merged into one undo step. */
+    const commitContent = (newContent: string, { merge = false, before = selection }: { merge?: boolean; before?: TextRange } = {}) => {
+        const history = getHistory(fileKey, content);
+        const now = Date.now();
+        if (!(merge && now - history.lastEditAt < TYPING_MERGE_MS)) {
+            history.undo.push({ content: history.content, selection: before });
+            if (history.undo.length > MAX_HISTORY) history.undo.shift();
+        }
+        history.redo = [];
+        history.lastEditAt = merge ? now : 0;
+        history.content = newContent;
+        onChange(newContent);
     };
-    
+
+    /** Commits a new version of the visible text, with the selections given as offsets into it. */
+    const commitViewText = (newViewText: string, selections: TextRange[], merge: boolean) => {
+        const result = folds.size > 0
+            ? applyFoldedEdit(content, view, newViewText)
+            : { content: newViewText, folds, toFull: (offset: number) => offset };
+        const [primary, ...extras] = selections.map(range => ({ start: result.toFull(range.start), end: result.toFull(range.end) }));
+        if (result.folds !== folds) setFolds(result.folds);
+        setExtraCursors(extras);
+        pendingSelectionRef.current = { range: primary, reveal: true };
+        commitContent(result.content, { merge });
+    };
+
+    /**
+     * Applies an edit at the primary cursor and every extra cursor. The edits are made to the
+     * visible text from left to right, so each later cursor is shifted by the earlier edits.
+     */
+    const editAtCursors = (makeEdit: (range: TextRange, text: string) => CursorEdit, merge = false) => {
+        const primary = getViewSelection();
+        const extras = extraCursors.map(range => ({ start: view.toView(range.start), end: view.toView(range.end) }))
+            .filter((range): range is TextRange => range.start !== null && range.end !== null);
+        const cursors = [{ range: primary, isPrimary: true }, ...extras.map(range => ({ range, isPrimary: false }))]
+            .sort((a, b) => a.range.start - b.range.start);
+
+        let text = view.text;
+        let shift = 0;
+        let lastEnd = -1;
+        const selections: { range: TextRange; isPrimary: boolean }[] = [];
+        for (const cursor of cursors) {
+            const edit = makeEdit(cursor.range, view.text);
+            if (edit.start < lastEnd) continue; // overlaps the previous cursor's edit
+            lastEnd = edit.end;
+            text = text.substring(0, edit.start + shift) + edit.text + text.substring(edit.end + shift);
+            const caret = edit.start + shift + edit.caret;
+            selections.push({ range: { start: caret, end: caret }, isPrimary: cursor.isPrimary });
+            shift += edit.text.length - (edit.end - edit.start);
+        }
+        const primaryIndex = Math.max(0, selections.findIndex(s => s.isPrimary));
+        const ordered = [selections[primaryIndex], ...selections.filter((_, i) => i !== primaryIndex)].map(s => s.range);
+        commitViewText(text, ordered, merge);
+    };
+
+    const insertText = (insert: string): ((range: TextRange) => CursorEdit) => range => ({ start: range.start, end: range.end, text: insert, caret: insert.length });
+
+    const undo = () => {
+        const history = getHistory(fileKey, content);
+        const entry = history.undo.pop();
+        if (!entry) return;
+        history.redo.push({ content: history.content, selection: getFullSelection() });
+        history.content = entry.content;
+        history.lastEditAt = 0;
+        setFolds(new Set());
+        setExtraCursors([]);
+        pendingSelectionRef.current = { range: entry.selection, reveal: true };
+        onChange(entry.content);
+    };
+
+    const redo = () => {
+        const history = getHistory(fileKey, content);
+        const entry = history.redo.pop();
+        if (!entry) return;
+        history.undo.push({ content: history.content, selection: getFullSelection() });
+        history.content = entry.content;
+        history.lastEditAt = 0;
+        setFolds(new Set());
+        setExtraCursors([]);
+        pendingSelectionRef.current = { range: entry.selection, reveal: true };
+        onChange(entry.content);
+    };
+
+    const undoRef = useRef(undo);
+    const redoRef = useRef(redo);
+    undoRef.current = undo;
+    redoRef.current = redo;
+
+    // Undo/redo from the browser's context menu would use the textarea's own, broken, history.
     useEffect(() => {
         const ta = textareaRef.current;
-        if (ta) {
-            ta.addEventListener('scroll', syncScroll);
-            return () => ta.removeEventListener('scroll', syncScroll);
-        }
+        if (!ta) return;
+        const handleBeforeInput = (e: InputEvent) => {
+            if (e.inputType === 'historyUndo' || e.inputType === 'historyRedo') {
+                e.preventDefault();
+                (e.inputType === 'historyUndo' ? undoRef : redoRef).current();
+            }
+        };
+        ta.addEventListener('beforeinput', handleBeforeInput);
+        return () => ta.removeEventListener('beforeinput', handleBeforeInput);
     }, []);
 
+    const toggleFold = (line: number) => {
+        const current = getFullSelection();
+        const next = new Set(folds);
+        if (next.has(line)) {
+            next.delete(line);
+        } else {
+            next.add(line);
+            // A cursor inside the region that is being hidden moves to the end of the header line.
+            const end = foldRanges.get(line) ?? line;
+            const caretLine = lineAt(lineStarts, current.start);
+            if (caretLine > line && caretLine <= end) {
+                const headerEnd = lineStarts[line] + lines[line].length;
+                current.start = current.end = headerEnd;
+            }
+        }
+        setFolds(next);
+        pendingSelectionRef.current = { range: current, reveal: false };
+    };
+
+    /** The innermost foldable line containing the cursor. */
+    const foldLineAtCursor = (): number | null => {
+        const line = lineAt(lineStarts, getFullSelection().start);
+        let best: number | null = null;
+        foldRanges.forEach((end, header) => {
+            if (header <= line && end >= line && (best === null || header > best)) best = header;
+        });
+        return best;
+    };
+
+    /** Ctrl+D: select the word at the cursor, or add a cursor at the next occurrence of the selection. */
+    const addNextOccurrence = () => {
+        const current = getFullSelection();
+        if (current.start === current.end) {
+            const word = wordAt(content, current.start);
+            if (word.start !== word.end) selectRange(word);
+            return;
+        }
+        const needle = content.substring(current.start, current.end);
+        const all = [current, ...extraCursors];
+        const from = Math.max(...all.map(range => range.end));
+        let index = content.indexOf(needle, from);
+        if (index === -1) index = content.indexOf(needle);
+        const next = { start: index, end: index + needle.length };
+        if (index === -1 || all.some(range => sameRange(range, next))) return;
+        setExtraCursors([...extraCursors, current]);
+        selectRange(next);
+    };
+
+    const indentLines = (outdent: boolean) => {
+        const { start, end } = getViewSelection();
+        const text = view.text;
+        const firstLineStart = text.lastIndexOf('\n', start - 1) + 1;
+        const lastLineEnd = text.indexOf('\n', end - (end > start && text[end - 1] === '\n' ? 1 : 0));
+        const blockEnd = lastLineEnd === -1 ? text.length : lastLineEnd;
+        const block = text.substring(firstLineStart, blockEnd).split('\n');
+        let removedFirst = 0;
+        let delta = 0;
+        const changed = block.map((line, i) => {
+            if (!outdent) {
+                delta += INDENT.length;
+                return INDENT + line;
+            }
+            const removed = line.match(/^ {1,2}|^\t/)?.[0].length || 0;
+            if (i === 0) removedFirst = removed;
+            delta -= removed;
+            return line.substring(removed);
+        }).join('\n');
+        const newText = text.substring(0, firstLineStart) + changed + text.substring(blockEnd);
+        const newStart = outdent ? Math.max(firstLineStart, start - removedFirst) : start + INDENT.length;
+        commitViewText(newText, [{ start: newStart, end: end + delta }], false);
+    };
+
+    const openSearch = (withReplace: boolean) => {
+        const { start, end } = getFullSelection();
+        const selected = content.substring(start, end);
+        if (selected && !selected.includes('\n')) setQuery(selected);
+        setIsSearchOpen(true);
+        setIsReplaceOpen(withReplace);
+        setIsGoToLineOpen(false);
+        setTimeout(() => searchInputRef.current?.select(), 0);
+    };
+
+    const closeSearch = () => {
+        setIsSearchOpen(false);
+        setSearchStatus(null);
+        textareaRef.current?.focus();
+    };
+
+    const openGoToLine = () => {
+        setIsGoToLineOpen(true);
+        setIsSearchOpen(false);
+        setGoToLineValue('');
+        setTimeout(() => goToLineInputRef.current?.focus(), 0);
+    };
+
+    const goToLine = () => {
+        const [lineText, columnText] = goToLineValue.split(':');
+        const line = Math.min(Math.max(parseInt(lineText, 10) || 1, 1), lines.length) - 1;
+        const column = Math.min(Math.max(parseInt(columnText, 10) || 1, 1) - 1, lines[line].length);
+        setIsGoToLineOpen(false);
+        const offset = lineStarts[line] + column;
+        selectRange({ start: offset, end: offset }, { focus: true });
+    };
+
+    const revealMatch = (index: number) => {
+        setMatchIndex(index);
+        setSearchStatus(null);
+        if (matches[index]) selectRange(matches[index]);
+    };
+
+    // Typing a new search jumps to the first match after the cursor.
+    useEffect(() => {
+        if (!isSearchOpen || matches.length === 0) return;
+        const index = matches.findIndex(m => m.start >= selection.start);
+        revealMatch(index === -1 ? 0 : index);
+    }, [isSearchOpen, searchPattern]);
+
+    // After a replace, the match that now sits at the same index is the next one.
+    const revealAfterReplaceRef = useRef(false);
+    useEffect(() => {
+        if (!revealAfterReplaceRef.current) return;
+        revealAfterReplaceRef.current = false;
+        if (matches.length > 0) revealMatch(Math.min(matchIndex, matches.length - 1));
+    }, [matches]);
+
+    const stepMatch = (direction: 1 | -1) => {
+        if (matches.length === 0) return;
+        revealMatch((Math.min(matchIndex, matches.length - 1) + direction + matches.length) % matches.length);
+    };
+
+    const replaceCurrent = () => {
+        if (!currentMatch || !searchPattern) return;
+        const text = getReplacement(content, currentMatch, searchPattern, replacement, isRegex);
+        setFolds(new Set());
+        revealAfterReplaceRef.current = true;
+        commitContent(content.substring(0, currentMatch.start) + text + content.substring(currentMatch.end), { before: currentMatch });
+    };
+
+    const replaceAll = () => {
+        if (!searchPattern || matches.length === 0) return;
+        const result = replaceAllMatches(content, searchPattern, replacement, isRegex);
+        setFolds(new Set());
+        commitContent(result.text);
+        setSearchStatus(`${result.count} diganti`);
+    };
 
     const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
-        // Handle Tab key
-        if (e.key === 'Tab') {
+        const mod = e.ctrlKey || e.metaKey;
+        const key = e.key.toLowerCase();
+
+        // Handle Ctrl+S for saving
+        if (mod && key === 's') {
             e.preventDefault();
-            const start = e.currentTarget.selectionStart;
-            const end = e.currentTarget.selectionEnd;
-            const newContent = content.substring(0, start) + '  ' + content.substring(end);
-            onChange(newContent);
-            
-            // Move cursor after inserted tab
-            setTimeout(() => {
-                if(textareaRef.current) {
-                    textareaRef.current.selectionStart = textareaRef.current.selectionEnd = start + 2;
-                }
-            }, 0);
+            if (isDirty) onSave();
+            return;
+        }
+        if (mod && (key === 'y' || (key === 'z' && e.shiftKey))) { e.preventDefault(); redo(); return; }
+        if (mod && key === 'z') { e.preventDefault(); undo(); return; }
+        if (mod && key === 'f') { e.preventDefault(); openSearch(false); return; }
+        if (mod && key === 'h') { e.preventDefault(); openSearch(true); return; }
+        if (mod && key === 'g') { e.preventDefault(); openGoToLine(); return; }
+        if (mod && key === 'd') { e.preventDefault(); addNextOccurrence(); return; }
+        if (mod && e.shiftKey && (e.code === 'BracketLeft' || e.code === 'BracketRight')) {
+            e.preventDefault();
+            const line = foldLineAtCursor();
+            if (line !== null && folds.has(line) === (e.code === 'BracketRight')) toggleFold(line);
+            return;
+        }
+        if (e.key === 'Escape') {
+            if (extraCursors.length > 0) setExtraCursors([]);
+            else if (isSearchOpen) closeSearch();
+            return;
         }
 
-        // Handle Ctrl+S for saving
-        if ((e.ctrlKey || e.metaKey) && e.key === 's') {
+        if (e.key === 'Tab') {
+            e.preventDefault();
+            const { start, end } = getViewSelection();
+            if (e.shiftKey || (extraCursors.length === 0 && view.text.substring(start, end).includes('\n'))) indentLines(e.shiftKey);
+            else editAtCursors(insertText(INDENT));
+            return;
+        }
+        if (e.key === 'Enter' && !mod && !e.altKey) {
             e.preventDefault();
-            if (isDirty) {
-                onSave();
+            editAtCursors((range, text) => {
+                const { insert, caret } = getEnterInsertion(text, range.start, range.end);
+                return { start: range.start, end: range.end, text: insert, caret };
+            });
+            return;
+        }
+        // A closing bracket typed on an otherwise empty line goes back one indentation level.
+        if ('}])'.includes(e.key) && e.key.length === 1 && !mod) {
+            const { start, end } = getViewSelection();
+            const lineStart = view.text.lastIndexOf('\n', start - 1) + 1;
+            const before = view.text.substring(lineStart, start);
+            if (start === end && extraCursors.length === 0 && before.length >= INDENT.length && before.trim() === '') {
+                e.preventDefault();
+                const text = before.substring(INDENT.length) + e.key;
+                editAtCursors(() => ({ start: lineStart, end: start, text, caret: text.length }), true);
+                return;
             }
         }
+
+        if (extraCursors.length === 0) return;
+        // With several cursors, typing is applied at every cursor by hand.
+        if (e.key.length === 1 && !mod && !e.altKey) {
+            e.preventDefault();
+            editAtCursors(insertText(e.key), true);
+        } else if (e.key === 'Backspace' || e.key === 'Delete') {
+            e.preventDefault();
+            const isBackspace = e.key === 'Backspace';
+            editAtCursors((range, text) => range.start !== range.end
+                ? { start: range.start, end: range.end, text: '', caret: 0 }
+                : isBackspace
+                    ? { start: Math.max(0, range.start - 1), end: range.start, text: '', caret: 0 }
+                    : { start: range.start, end: Math.min(text.length, range.start + 1), text: '', caret: 0 }, true);
+        } else if (!['Shift', 'Control', 'Meta', 'Alt'].includes(e.key) && !mod) {
+            setExtraCursors([]); // moving the cursor ends multi-cursor editing
+        }
+    };
+
+    const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+        const { value, selectionStart, selectionEnd } = e.target;
+        if (folds.size === 0) {
+            setExtraCursors([]);
+            commitContent(value, { merge: true });
+            return;
+        }
+        commitViewText(value, [{ start: selectionStart, end: selectionEnd }], true);
+    };
+
+    const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+        if (extraCursors.length === 0) return;
+        e.preventDefault();
+        const pasted = e.clipboardData.getData('text/plain');
+        const pieces = pasted.split('\n');
+        // One pasted line per cursor when the counts match, like most editors do.
+        const perCursor = pieces.length === extraCursors.length + 1;
+        let index = 0;
+        editAtCursors(range => {
+            const text = perCursor ? pieces[index++] : pasted;
+            return { start: range.start, end: range.end, text, caret: text.length };
+        });
+    };
+
+    const handleSelect = () => {
+        const full = getFullSelection();
+        if (!sameRange(full, selection)) setSelection(full);
+        rememberViewState({ selection: full });
+    };
+
+    const handleScroll = () => {
+        syncScroll();
+        const ta = textareaRef.current;
+        if (ta) rememberViewState({ scrollTop: ta.scrollTop, scrollLeft: ta.scrollLeft });
     };
 
+    const handleMouseDown = (e: React.MouseEvent<HTMLTextAreaElement>) => {
+        if (e.altKey) {
+            // Alt+Click keeps the current cursor and adds the clicked position as the new primary one.
+            const current = getFullSelection();
+            setExtraCursors(prev => prev.some(range => sameRange(range, current)) ? prev : [...prev, current]);
+        } else if (extraCursors.length > 0) {
+            setExtraCursors([]);
+        }
+    };
+
+    const highlightHtml = useMemo(() => view.lines.map(line => {
+        const isFolded = folds.has(line) && foldRanges.has(line);
+        return (highlighted[line] || '') + (isFolded ? '<span class="ml-1 px-1 rounded bg-slate-600/60 text-slate-300">⋯</span>' : '');
+    }).join('\n'), [view, folds, foldRanges, highlighted]);
+
+    const decorationHtml = useMemo(() => {
+        const ranges: (TextRange & { className: string })[] = [];
+        const addRange = (range: TextRange, className: string) => {
+            const start = view.toView(range.start);
+            const end = view.toView(range.end);
+            if (start !== null && end !== null) ranges.push({ start, end, className });
+        };
+        matches.forEach(match => addRange(match, match === currentMatch ? 'bg-orange-500/50 rounded-sm' : 'bg-yellow-400/20 rounded-sm'));
+        if (selection.start === selection.end) {
+            const pair = findMatchingBracket(content, selection.start);
+            pair?.forEach(offset => addRange({ start: offset, end: offset + 1 }, 'outline outline-1 outline-slate-400 bg-slate-500/30 rounded-sm'));
+        }
+        extraCursors.forEach(range => {
+            if (range.start !== range.end) addRange(range, 'bg-sky-400/25');
+            addRange({ start: range.end, end: range.end }, 'relative inline-block h-[21px] align-top border-l-2 border-white -mr-[2px]');
+        });
+        return renderDecorations(view.text, ranges);
+    }, [view, matches, currentMatch, selection, content, extraCursors]);
+
+    const cursorLine = lineAt(lineStarts, selection.start);
+    const cursorColumn = selection.start - lineStarts[cursorLine] + 1;
+    const layerStyle: React.CSSProperties = { lineHeight: `${LINE_HEIGHT}px`, padding: PADDING, tabSize: 2 };
+
     return (
         <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl h-full flex flex-col overflow-hidden focus-within:ring-2 focus-within:ring-indigo-500 transition-shadow">
             <div className="flex justify-between items-center p-3 border-b border-slate-700 flex-shrink-0 bg-slate-800/80">
@@ -65,6 +662,13 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ filePath, content, onChange, on
                     {filePath} {isDirty && <span className="text-amber-400 ml-2" title="Unsaved changes">*</span>}
                 </h4>
                 <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => isSearchOpen ? closeSearch() : openSearch(false)}
+                        className={`p-2 rounded-lg transition-colors ${isSearchOpen ? 'bg-indigo-600 text-white' : 'bg-slate-700 hover:bg-indigo-600 text-slate-300 hover:text-white'}`}
+                        title="Find & Replace (Ctrl+F / Ctrl+H)"
+                    >
+                        <SearchIcon className="w-4 h-4" />
+                    </button>
                     <button
                         onClick={onSave}
                         disabled={!isDirty}
@@ -83,26 +687,116 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ filePath, content, onChange, on
                     </button>
                 </div>
             </div>
+
+            {isSearchOpen && (
+                <div className="flex flex-col gap-2 p-2 border-b border-slate-700 bg-slate-800/80 flex-shrink-0 text-sm">
+                    <div className="flex items-center gap-2">
+                        <button onClick={() => setIsReplaceOpen(p => !p)} className="p-1 text-slate-400 hover:text-white" title="Toggle Replace">
+                            {isReplaceOpen ? <ChevronDownIcon className="w-4 h-4" /> : <ChevronRightIcon className="w-4 h-4" />}
+                        </button>
+                        <input
+                            ref={searchInputRef}
+                            value={query}
+                            onChange={(e) => { setQuery(e.target.value); setSearchStatus(null); }}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') { e.preventDefault(); stepMatch(e.shiftKey ? -1 : 1); }
+                                if (e.key === 'Escape') { e.preventDefault(); closeSearch(); }
+                            }}
+                            placeholder="Find"
+                            spellCheck={false}
+                            className={`flex-1 min-w-0 bg-slate-900 border rounded px-2 py-1 font-mono text-slate-200 focus:outline-none focus:border-indigo-500 ${searchError ? 'border-red-500' : 'border-slate-600'}`}
+                        />
+                        <ToggleButton isActive={isCaseSensitive} onClick={() => setIsCaseSensitive(p => !p)} title="Match Case">Aa</ToggleButton>
+                        <ToggleButton isActive={isRegex} onClick={() => setIsRegex(p => !p)} title="Use Regular Expression">.*</ToggleButton>
+                        <span className={`w-24 text-xs text-center ${searchError ? 'text-red-400' : 'text-slate-400'}`} title={searchError || undefined}>
+                            {searchError ? 'Regex tidak valid' : searchStatus || (query ? (matches.length > 0 ? `${Math.min(matchIndex, matches.length - 1) + 1} dari ${matches.length}` : 'Tidak ada hasil') : '')}
+                        </span>
+                        <button onClick={() => stepMatch(-1)} disabled={matches.length === 0} className="p-1 text-slate-400 hover:text-white disabled:opacity-40" title="Previous Match (Shift+Enter)"><ArrowUpIcon className="w-4 h-4" /></button>
+                        <button onClick={() => stepMatch(1)} disabled={matches.length === 0} className="p-1 text-slate-400 hover:text-white disabled:opacity-40" title="Next Match (Enter)"><ArrowDownIcon className="w-4 h-4" /></button>
+                        <button onClick={closeSearch} className="p-1 text-slate-400 hover:text-white" title="Close (Escape)"><XIcon className="w-4 h-4" /></button>
+                    </div>
+                    {isReplaceOpen && (
+                        <div className="flex items-center gap-2 pl-7">
+                            <input
+                                value={replacement}
+                                onChange={(e) => setReplacement(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') { e.preventDefault(); if (e.ctrlKey || e.metaKey) replaceAll(); else replaceCurrent(); }
+                                    if (e.key === 'Escape') { e.preventDefault(); closeSearch(); }
+                                }}
+                                placeholder={isRegex ? 'Replace ($1, $<name>)' : 'Replace'}
+                                spellCheck={false}
+                                className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded px-2 py-1 font-mono text-slate-200 focus:outline-none focus:border-indigo-500"
+                            />
+                            <button onClick={replaceCurrent} disabled={!currentMatch} className="px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs disabled:opacity-40" title="Replace (Enter)">Replace</button>
+                            <button onClick={replaceAll} disabled={matches.length === 0} className="px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs disabled:opacity-40" title="Replace All (Ctrl+Enter)">Replace All</button>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {isGoToLineOpen && (
+                <div className="flex items-center gap-2 p-2 border-b border-slate-700 bg-slate-800/80 flex-shrink-0 text-sm">
+                    <span className="text-slate-400">Go to line</span>
+                    <input
+                        ref={goToLineInputRef}
+                        value={goToLineValue}
+                        onChange={(e) => setGoToLineValue(e.target.value.replace(/[^\d:]/g, ''))}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') { e.preventDefault(); goToLine(); }
+                            if (e.key === 'Escape') { e.preventDefault(); setIsGoToLineOpen(false); textareaRef.current?.focus(); }
+                        }}
+                        onBlur={() => setIsGoToLineOpen(false)}
+                        placeholder={`1-${lines.length} (baris:kolom)`}
+                        className="w-40 bg-slate-900 border border-slate-600 rounded px-2 py-1 font-mono text-slate-200 focus:outline-none focus:border-indigo-500"
+                    />
+                </div>
+            )}
+
             <div className="flex-1 relative bg-[#282c34] flex overflow-hidden">
-                <div ref={lineNumbersRef} className="text-right p-4 font-mono text-sm text-slate-500 bg-[#21252b] select-none overflow-y-hidden" aria-hidden="true">
-                    {lines.map((_, i) => (
-                        <div key={i} className="leading-relaxed h-[21px]">{i + 1}</div>
-                    ))}
+                <div className="bg-[#21252b] overflow-hidden flex-shrink-0 select-none font-mono text-sm" aria-hidden="true">
+                    <div ref={gutterRef} style={{ paddingTop: PADDING, paddingBottom: PADDING }}>
+                        {view.lines.map(line => (
+                            <div key={line} className={`flex items-center justify-end gap-1 pl-3 pr-1 ${line === cursorLine ? 'text-slate-200' : 'text-slate-500'}`} style={{ height: LINE_HEIGHT }}>
+                                <span>{line + 1}</span>
+                                {foldRanges.has(line) ? (
+                                    <button onClick={() => toggleFold(line)} className="w-4 text-slate-500 hover:text-white" title={folds.has(line) ? 'Unfold (Ctrl+Shift+])' : 'Fold (Ctrl+Shift+[)'} tabIndex={-1}>
+                                        {folds.has(line) ? <ChevronRightIcon className="w-3.5 h-3.5" /> : <ChevronDownIcon className="w-3.5 h-3.5" />}
+                                    </button>
+                                ) : <span className="w-4" />}
+                            </div>
+                        ))}
+                    </div>
                 </div>
-                <textarea
-                    ref={textareaRef}
-                    value={content}
-                    onChange={(e) => onChange(e.target.value)}
-                    onKeyDown={handleKeyDown}
-                    className="flex-1 h-full bg-transparent text-slate-200 caret-white font-mono text-sm p-4 border-none focus:outline-none focus:ring-0 resize-none leading-relaxed tracking-wide whitespace-pre"
-                    spellCheck="false"
-                    autoCapitalize="off"
-                    autoComplete="off"
-                    autoCorrect="off"
-                />
+                <div className="flex-1 relative overflow-hidden font-mono text-sm">
+                    <pre ref={decorationRef} className="absolute top-0 left-0 m-0 min-w-full whitespace-pre text-transparent pointer-events-none font-mono" style={layerStyle} aria-hidden="true" dangerouslySetInnerHTML={{ __html: decorationHtml + '\n' }} />
+                    <pre ref={highlightRef} className="absolute top-0 left-0 m-0 min-w-full whitespace-pre text-slate-200 pointer-events-none font-mono" style={layerStyle} aria-hidden="true" dangerouslySetInnerHTML={{ __html: highlightHtml + '\n' }} />
+                    <textarea
+                        ref={textareaRef}
+                        value={view.text}
+                        onChange={handleChange}
+                        onKeyDown={handleKeyDown}
+                        onPaste={handlePaste}
+                        onSelect={handleSelect}
+                        onMouseDown={handleMouseDown}
+                        onScroll={handleScroll}
+                        wrap="off"
+                        className="absolute inset-0 w-full h-full bg-transparent text-transparent caret-white selection:bg-sky-400/25 font-mono text-sm border-none focus:outline-none focus:ring-0 resize-none whitespace-pre"
+                        style={layerStyle}
+                        spellCheck="false"
+                        autoCapitalize="off"
+                        autoComplete="off"
+                        autoCorrect="off"
+                    />
+                </div>
+            </div>
+            <div className="flex justify-end gap-4 px-3 py-1 border-t border-slate-700 bg-slate-800/80 text-xs text-slate-400 flex-shrink-0">
+                {extraCursors.length > 0 && <span>{extraCursors.length + 1} kursor</span>}
+                <button onClick={openGoToLine} className="hover:text-white" title="Go to Line (Ctrl+G)">Ln {cursorLine + 1}, Col {cursorColumn}</button>
+                <span className="capitalize">{language === 'plain' ? 'Plain Text' : language}</span>
             </div>
         </div>
     );
 };
 
-export default CodeEditor;
\ No newline at end of file
+export default CodeEditor;
@@ -7,9 +7,10 @@ interface ConfirmModalProps {
   title: string;
   children: React.ReactNode;
   confirmText?: string;
+  cancelText?: string;
 }
 
-const ConfirmModal: React.FC<ConfirmModalProps> = ({ isOpen, onClose, onConfirm, title, children, confirmText = 'Confirm' }) => {
+const ConfirmModal: React.FC<ConfirmModalProps> = ({ isOpen, onClose, onConfirm, title, children, confirmText = 'Confirm', cancelText = 'Cancel' }) => {
   if (!isOpen) return null;
 
   return (
@@ -33,7 +34,7 @@ const ConfirmModal: React.FC<ConfirmModalProps> = ({ isOpen, onClose, onConfirm,
             onClick={onClose}
             className="px-5 py-2 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-slate-500"
           >
-            Cancel
+            {cancelText}
           </button>
           <button
             onClick={onConfirm}
@@ -0,0 +1,74 @@
+import React from 'react';
+import type { ConflictChoice, EditorTab, TabConflict } from '../utils/editorTabs';
+import { SideBySideDiff } from './ReviewPanel';
+import { AlertTriangleIcon } from './Icons';
+
+interface ConflictPanelProps {
+  conflict: TabConflict | null;
+  tab: EditorTab | null;
+  remaining: number;
+  onResolve: (choice: ConflictChoice) => void;
+}
+
+/**
+ * Shown when the AI changed or deleted a file whose tab has unsaved edits, so the user
+ * decides what happens to those edits instead of losing them.
+ */
+const ConflictPanel: React.FC<ConflictPanelProps> = ({ conflict, tab, remaining, onResolve }) => {
+  if (!conflict || !tab) return null;
+  const isDeleted = conflict.theirs === null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center backdrop-blur-sm" aria-modal="true" role="dialog">
+      <div className="bg-slate-800 rounded-xl shadow-2xl w-full max-w-6xl h-[85vh] m-4 ring-1 ring-slate-700 flex flex-col overflow-hidden">
+        <div className="flex justify-between items-center p-4 border-b border-slate-700 flex-shrink-0">
+          <h2 className="text-xl font-bold text-slate-100 flex items-center gap-2">
+            <AlertTriangleIcon className="w-5 h-5 text-amber-400" /> File Changed by AI
+          </h2>
+          {remaining > 1 && <span className="text-sm text-slate-400">{remaining} files need a decision</span>}
+        </div>
+        <p className="px-4 py-3 text-sm text-slate-300 border-b border-slate-700 flex-shrink-0">
+          {isDeleted
+            ? <>AI menghapus <strong className="font-mono text-slate-100">{conflict.path}</strong>, tetapi Anda punya perubahan yang belum disimpan di file ini.</>
+            : <>AI mengubah <strong className="font-mono text-slate-100">{conflict.path}</strong> saat Anda punya perubahan yang belum disimpan. Pilih versi yang dipakai, atau gabungkan keduanya.</>}
+        </p>
+
+        <div className="flex-1 min-h-0 flex flex-col">
+          <div className="flex text-xs font-semibold text-slate-400 border-b border-slate-700 flex-shrink-0">
+            <div className="w-1/2 px-3 py-2 border-r border-slate-700">Your unsaved changes</div>
+            <div className="w-1/2 px-3 py-2">{isDeleted ? 'AI version (deleted)' : 'AI version'}</div>
+          </div>
+          <div className="flex-1 overflow-auto bg-[#282c34]">
+            <SideBySideDiff before={tab.content} after={conflict.theirs ?? ''} />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-4 p-4 border-t border-slate-700 flex-shrink-0">
+          <button
+            onClick={() => onResolve('theirs')}
+            className="px-5 py-2 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-slate-500"
+          >
+            {isDeleted ? 'Discard & Close Tab' : 'Use AI Version'}
+          </button>
+          {!isDeleted && (
+            <button
+              onClick={() => onResolve('merge')}
+              className="px-5 py-2 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-slate-500"
+              title="Combine both; overlapping changes are marked for you to resolve"
+            >
+              Merge Both
+            </button>
+          )}
+          <button
+            onClick={() => onResolve('mine')}
+            className="px-5 py-2 bg-indigo-600 hover:bg-indigo-500 text-white font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            Keep My Changes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictPanel;
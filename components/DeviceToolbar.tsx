@@ -0,0 +1,110 @@
+import React from 'react';
+import { VIEWPORT_PRESETS, ZOOM_LEVELS, ViewportSettings, DeviceKind, clampViewportSize } from '../utils/viewportPresets';
+import { RotateIcon, ColumnsIcon } from './Icons';
+
+interface DeviceToolbarProps {
+    settings: ViewportSettings;
+    onChange: (settings: ViewportSettings) => void;
+}
+
+const KIND_LABELS: Record<DeviceKind, string> = { phone: 'Phones', tablet: 'Tablets', desktop: 'Desktop' };
+
+const controlClass = 'bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-xs text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500';
+const iconButtonClass = 'p-1.5 rounded-md transition-colors disabled:opacity-40 disabled:hover:bg-transparent';
+
+const SizeInput: React.FC<{ value: number; label: string; onCommit: (value: number) => void }> = ({ value, label, onCommit }) => (
+    <input
+        key={value}
+        type="number"
+        defaultValue={value}
+        onBlur={(e) => onCommit(clampViewportSize(Number(e.target.value)))}
+        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        className={`${controlClass} w-16 font-mono`}
+        aria-label={label}
+    />
+);
+
+/** Picks the viewport(s) the preview renders: device presets, custom size, rotation, zoom and compare mode. */
+const DeviceToolbar: React.FC<DeviceToolbarProps> = ({ settings, onChange }) => {
+    const update = (changes: Partial<ViewportSettings>) => onChange({ ...settings, ...changes });
+    const isResponsive = !settings.isComparing && settings.deviceId === 'responsive';
+
+    const toggleCompared = (id: string) => {
+        const compareIds = settings.compareIds.includes(id)
+            ? settings.compareIds.filter(c => c !== id)
+            : VIEWPORT_PRESETS.map(p => p.id).filter(p => p === id || settings.compareIds.includes(p));
+        update({ compareIds });
+    };
+
+    return (
+        <div className="flex-shrink-0 flex flex-wrap items-center gap-1.5 px-2 py-1.5 border-b border-slate-700 text-xs">
+            {settings.isComparing ? (
+                <div className="flex flex-wrap items-center gap-1" role="group" aria-label="Compared devices">
+                    {VIEWPORT_PRESETS.map(preset => {
+                        const isSelected = settings.compareIds.includes(preset.id);
+                        return (
+                            <button
+                                key={preset.id}
+                                onClick={() => toggleCompared(preset.id)}
+                                aria-pressed={isSelected}
+                                className={`px-2 py-1 rounded-md border transition-colors ${isSelected ? 'bg-indigo-600 border-indigo-500 text-white' : 'border-slate-600 text-slate-400 hover:text-white hover:bg-slate-700'}`}
+                                title={`${preset.width} × ${preset.height}`}
+                            >
+                                {preset.name}
+                            </button>
+                        );
+                    })}
+                </div>
+            ) : (
+                <>
+                    <select value={settings.deviceId} onChange={(e) => update({ deviceId: e.target.value })} className={controlClass} aria-label="Device">
+                        <option value="responsive">Responsive</option>
+                        {(Object.keys(KIND_LABELS) as DeviceKind[]).map(kind => (
+                            <optgroup key={kind} label={KIND_LABELS[kind]}>
+                                {VIEWPORT_PRESETS.filter(p => p.kind === kind).map(p => <option key={p.id} value={p.id}>{p.name} ({p.width}×{p.height})</option>)}
+                            </optgroup>
+                        ))}
+                        <option value="custom">Custom size</option>
+                    </select>
+                    {settings.deviceId === 'custom' && (
+                        <span className="flex items-center gap-1 text-slate-500">
+                            <SizeInput value={settings.customWidth} label="Viewport width" onCommit={(customWidth) => update({ customWidth })} />
+                            ×
+                            <SizeInput value={settings.customHeight} label="Viewport height" onCommit={(customHeight) => update({ customHeight })} />
+                        </span>
+                    )}
+                </>
+            )}
+            <button
+                onClick={() => update({ isLandscape: !settings.isLandscape })}
+                disabled={isResponsive}
+                className={`${iconButtonClass} ${settings.isLandscape ? 'text-indigo-300 bg-slate-700' : 'text-slate-400 hover:text-white hover:bg-slate-700'}`}
+                aria-pressed={settings.isLandscape}
+                aria-label="Rotate"
+                title={settings.isLandscape ? 'Landscape (rotate to portrait)' : 'Portrait (rotate to landscape)'}
+            >
+                <RotateIcon className="w-4 h-4" />
+            </button>
+            <select
+                value={String(settings.zoom)}
+                onChange={(e) => update({ zoom: e.target.value === 'fit' ? 'fit' : Number(e.target.value) })}
+                disabled={isResponsive}
+                className={`${controlClass} disabled:opacity-40`}
+                aria-label="Zoom"
+            >
+                <option value="fit">Fit</option>
+                {ZOOM_LEVELS.map(level => <option key={level} value={level}>{Math.round(level * 100)}%</option>)}
+            </select>
+            <button
+                onClick={() => update({ isComparing: !settings.isComparing })}
+                className={`${iconButtonClass} ml-auto flex items-center gap-1.5 px-2 ${settings.isComparing ? 'text-white bg-indigo-600 hover:bg-indigo-500' : 'text-slate-400 hover:text-white hover:bg-slate-700'}`}
+                aria-pressed={settings.isComparing}
+                title="Tampilkan beberapa perangkat berdampingan"
+            >
+                <ColumnsIcon className="w-4 h-4" /> Compare
+            </button>
+        </div>
+    );
+};
+
+export default DeviceToolbar;
@@ -0,0 +1,70 @@
+import React from 'react';
+import type { EditorTab } from '../utils/editorTabs';
+import { XIcon, SaveIcon } from './Icons';
+
+interface EditorTabsProps {
+    tabs: EditorTab[];
+    activePath: string | null;
+    onSelect: (path: string) => void;
+    onClose: (path: string) => void;
+    onCloseOthers: (path: string) => void;
+    onSaveAll: () => void;
+}
+
+const EditorTabs: React.FC<EditorTabsProps> = ({ tabs, activePath, onSelect, onClose, onCloseOthers, onSaveAll }) => {
+    if (tabs.length === 0) return null;
+    const dirtyCount = tabs.filter(t => t.isDirty).length;
+
+    return (
+        <div className="flex items-stretch border-b border-slate-700 bg-slate-800/80 flex-shrink-0">
+            <div className="flex-1 flex overflow-x-auto min-w-0" role="tablist">
+                {tabs.map(tab => {
+                    const isActive = tab.path === activePath;
+                    return (
+                        <div
+                            key={tab.path}
+                            role="tab"
+                            aria-selected={isActive}
+                            onClick={() => onSelect(tab.path)}
+                            onMouseDown={(e) => { if (e.button === 1) { e.preventDefault(); onClose(tab.path); } }}
+                            title={tab.path}
+                            className={`group flex items-center gap-2 pl-3 pr-1.5 py-2 text-sm cursor-pointer border-r border-slate-700 whitespace-nowrap transition-colors ${isActive ? 'bg-[#282c34] text-white border-t-2 border-t-indigo-500' : 'text-slate-400 hover:text-white hover:bg-slate-700/50 border-t-2 border-t-transparent'}`}
+                        >
+                            <span className="font-mono">{tab.path.split('/').pop()}</span>
+                            <button
+                                onClick={(e) => { e.stopPropagation(); onClose(tab.path); }}
+                                className="w-5 h-5 flex items-center justify-center rounded hover:bg-slate-600"
+                                title={tab.isDirty ? 'Unsaved changes — close' : 'Close'}
+                                aria-label={`Close ${tab.path}`}
+                            >
+                                {tab.isDirty
+                                    ? <><span className="w-2 h-2 rounded-full bg-amber-400 group-hover:hidden" /><XIcon className="w-3.5 h-3.5 hidden group-hover:block" /></>
+                                    : <XIcon className={`w-3.5 h-3.5 ${isActive ? '' : 'opacity-0 group-hover:opacity-100'}`} />}
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+            <div className="flex items-center gap-1 px-2 flex-shrink-0 border-l border-slate-700">
+                <button
+                    onClick={onSaveAll}
+                    disabled={dirtyCount === 0}
+                    className="flex items-center gap-1.5 px-2 py-1 text-xs text-slate-300 hover:text-white hover:bg-slate-700 rounded-md disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+                    title="Save all unsaved files"
+                >
+                    <SaveIcon className="w-3.5 h-3.5" /> Save All{dirtyCount > 0 && ` (${dirtyCount})`}
+                </button>
+                <button
+                    onClick={() => activePath && onCloseOthers(activePath)}
+                    disabled={tabs.length < 2 || !activePath}
+                    className="px-2 py-1 text-xs text-slate-300 hover:text-white hover:bg-slate-700 rounded-md disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+                    title="Close all tabs except the active one"
+                >
+                    Close Others
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default EditorTabs;
@@ -1,63 +1,217 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
 import type { ProjectFile } from '../types';
-import { FileIcon, FolderIcon, FolderOpenIcon } from './Icons';
+import { isBinaryFile } from '../utils/fileUtils';
+import { FileIcon, FolderIcon, FolderOpenIcon, UploadIcon, FilePlusIcon, FolderPlusIcon, EditIcon, TrashIcon } from './Icons';
+
+/** A file chosen or dropped by the user, with the project path it should be stored at. */
+export interface FileUpload {
+    file: File;
+    path: string;
+}
 
 interface FileTreeProps {
     files: ProjectFile[];
+    /** Folders that contain no files and would otherwise not be shown. */
+    folders?: string[];
     onSelectFile: (path: string) => void;
     selectedFile: string | null;
+    /** Enables the upload button and dropping files onto the tree or a folder. */
+    onUploadFiles?: (uploads: FileUpload[]) => void;
+    /** The file management callbacks below enable the toolbar, context menu, keyboard actions and drag-to-move. */
+    onCreateFile?: (path: string) => void;
+    onCreateFolder?: (path: string) => void;
+    /** Renames or moves a file or folder. */
+    onMovePath?: (from: string, to: string) => void;
+    onDeletePath?: (path: string, isFolder: boolean) => void;
 }
 
+const DRAG_PATH_TYPE = 'application/x-project-path';
+
+const toUploads = (fileList: FileList, folder: string): FileUpload[] =>
+    Array.from(fileList).map(file => ({ file, path: folder ? `${folder}/${file.name}` : file.name }));
+
+const hasDraggedFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+const hasDraggedPath = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes(DRAG_PATH_TYPE);
+
+const joinPath = (folder: string, name: string) => folder ? `${folder}/${name}` : name;
+const parentFolder = (path: string) => path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+
 interface TreeNode {
     name: string;
     path: string;
     children?: { [key: string]: TreeNode };
     isFolder: boolean;
+    isBinary?: boolean;
 }
 
-const buildTree = (files: ProjectFile[]): { [key: string]: TreeNode } => {
+const buildTree = (files: ProjectFile[], folders: string[]): { [key: string]: TreeNode } => {
     const root: { [key: string]: TreeNode } = {};
 
-    files.forEach(file => {
+    const addPath = (path: string, isFolderPath: boolean, isBinary = false) => {
         let currentLevel = root;
-        const pathParts = file.path.split('/');
-        
+        const pathParts = path.split('/');
+
         pathParts.forEach((part, index) => {
             if (!currentLevel[part]) {
-                const isFolder = index < pathParts.length - 1;
+                const isFolder = isFolderPath || index < pathParts.length - 1;
                 const currentPath = pathParts.slice(0, index + 1).join('/');
                 currentLevel[part] = {
                     name: part,
                     path: currentPath,
                     isFolder: isFolder,
-                    ...(isFolder && { children: {} })
+                    ...(isFolder && { children: {} }),
+                    ...(!isFolder && isBinary && { isBinary: true })
                 };
             }
             if (currentLevel[part].isFolder) {
                 currentLevel = currentLevel[part].children!;
             }
         });
-    });
+    };
+
+    folders.forEach(folder => addPath(folder, true));
+    files.forEach(file => addPath(file.path, false, isBinaryFile(file)));
 
     return root;
 };
 
-const TreeItem: React.FC<{ 
-    node: TreeNode; 
+const sortNodes = (nodes: TreeNode[]) =>
+    nodes.sort((a: TreeNode, b: TreeNode) => (a.isFolder === b.isFolder) ? a.name.localeCompare(b.name) : (a.isFolder ? -1 : 1));
+
+/** What is being typed into the inline name input: a new entry inside `folder`, or a new name for `path`. */
+type EditingState =
+    | { mode: 'create-file' | 'create-folder'; folder: string }
+    | { mode: 'rename'; path: string };
+
+interface ContextMenuState {
+    x: number;
+    y: number;
+    node: TreeNode | null; // null for the empty area of the tree
+}
+
+/** Shared by every TreeItem, so the recursive items only pass the tree data down. */
+interface TreeActions {
     onSelectFile: (path: string) => void;
     selectedFile: string | null;
+    editing: EditingState | null;
+    setEditing: (editing: EditingState | null) => void;
+    commitEditing: (name: string) => void;
+    openContextMenu: (e: React.MouseEvent, node: TreeNode | null) => void;
+    deleteNode: (node: TreeNode) => void;
+    canManage: boolean;
+    onDropFiles?: (uploads: FileUpload[]) => void;
+    onDropPath?: (path: string, folder: string) => void;
+}
+
+const NameInput: React.FC<{ initialValue: string; level: number; isFolder: boolean; actions: TreeActions }> = ({ initialValue, level, isFolder, actions }) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        const input = inputRef.current;
+        if (!input) return;
+        input.focus();
+        // Select the name without its extension, like most file managers do.
+        const dot = initialValue.lastIndexOf('.');
+        input.setSelectionRange(0, !isFolder && dot > 0 ? dot : initialValue.length);
+    }, [initialValue, isFolder]);
+
+    return (
+        <div className="flex items-center p-1" style={{ paddingLeft: `${level * 16 + 8}px` }}>
+            {isFolder ? <FolderIcon className="w-5 h-5 mr-2 text-indigo-400 flex-shrink-0" /> : <FileIcon className="w-5 h-5 mr-2 text-slate-400 flex-shrink-0" />}
+            <input
+                ref={inputRef}
+                defaultValue={initialValue}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter') { e.preventDefault(); actions.commitEditing(e.currentTarget.value); }
+                    if (e.key === 'Escape') { e.preventDefault(); actions.setEditing(null); }
+                }}
+                onBlur={() => actions.setEditing(null)}
+                className="flex-1 min-w-0 bg-slate-900 border border-indigo-500 rounded px-1.5 py-0.5 text-sm text-slate-100 focus:outline-none"
+                aria-label={isFolder ? 'Folder name' : 'File name'}
+                spellCheck={false}
+            />
+        </div>
+    );
+};
+
+const TreeItem: React.FC<{
+    node: TreeNode;
     level: number;
-}> = ({ node, onSelectFile, selectedFile, level }) => {
+    actions: TreeActions;
+}> = ({ node, level, actions }) => {
     const [isOpen, setIsOpen] = useState(true);
+    const [isDropTarget, setIsDropTarget] = useState(false);
+    const { editing, selectedFile, canManage } = actions;
 
     const isSelected = selectedFile === node.path;
+    const isCreatingHere = editing && editing.mode !== 'rename' && editing.folder === node.path;
+
+    useEffect(() => {
+        if (isCreatingHere) setIsOpen(true);
+    }, [isCreatingHere]);
+
+    if (editing?.mode === 'rename' && editing.path === node.path) {
+        return <NameInput initialValue={node.name} level={level} isFolder={node.isFolder} actions={actions} />;
+    }
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.target !== e.currentTarget) return;
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            if (node.isFolder) setIsOpen(!isOpen);
+            else actions.onSelectFile(node.path);
+        } else if (canManage && e.key === 'F2') {
+            e.preventDefault();
+            actions.setEditing({ mode: 'rename', path: node.path });
+        } else if (canManage && (e.key === 'Delete' || (e.key === 'Backspace' && e.metaKey))) {
+            e.preventDefault();
+            actions.deleteNode(node);
+        } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            // Move focus between visible rows.
+            e.preventDefault();
+            const tree = e.currentTarget.closest('[data-file-tree]');
+            const rows: HTMLElement[] = tree ? Array.from(tree.querySelectorAll<HTMLElement>('[data-tree-row]')) : [];
+            const index = rows.indexOf(e.currentTarget as HTMLElement);
+            rows[index + (e.key === 'ArrowDown' ? 1 : -1)]?.focus();
+        }
+    };
+
+    const rowProps = {
+        tabIndex: 0,
+        'data-tree-row': true,
+        onKeyDown: handleKeyDown,
+        onContextMenu: (e: React.MouseEvent) => actions.openContextMenu(e, node),
+        draggable: canManage,
+        onDragStart: (e: React.DragEvent) => {
+            e.dataTransfer.setData(DRAG_PATH_TYPE, node.path);
+            e.dataTransfer.effectAllowed = 'move';
+        },
+    };
 
     if (node.isFolder) {
+        const dropHandlers = (actions.onDropFiles || actions.onDropPath) && {
+            onDragOver: (e: React.DragEvent) => {
+                if (!(hasDraggedFiles(e) && actions.onDropFiles) && !(hasDraggedPath(e) && actions.onDropPath)) return;
+                e.preventDefault();
+                e.stopPropagation();
+                setIsDropTarget(true);
+            },
+            onDragLeave: () => setIsDropTarget(false),
+            onDrop: (e: React.DragEvent) => {
+                e.preventDefault();
+                e.stopPropagation();
+                setIsDropTarget(false);
+                const draggedPath = e.dataTransfer.getData(DRAG_PATH_TYPE);
+                if (draggedPath) actions.onDropPath?.(draggedPath, node.path);
+                else if (e.dataTransfer.files.length > 0) actions.onDropFiles?.(toUploads(e.dataTransfer.files, node.path));
+            },
+        };
         return (
-            <div>
-                <div 
-                    onClick={() => setIsOpen(!isOpen)} 
-                    className="flex items-center cursor-pointer p-2 rounded-md hover:bg-slate-700/70 transition-colors"
+            <div {...dropHandlers} className={isDropTarget ? 'rounded-md ring-2 ring-indigo-500 bg-indigo-500/10' : ''}>
+                <div
+                    {...rowProps}
+                    onClick={() => setIsOpen(!isOpen)}
+                    className="flex items-center cursor-pointer p-2 rounded-md hover:bg-slate-700/70 focus:outline-none focus-visible:ring-1 focus-visible:ring-indigo-500 transition-colors"
                     style={{ paddingLeft: `${level * 16 + 8}px` }}
                 >
                     {isOpen ? <FolderOpenIcon className="w-5 h-5 mr-2 text-indigo-400 flex-shrink-0" /> : <FolderIcon className="w-5 h-5 mr-2 text-indigo-400 flex-shrink-0" />}
@@ -65,10 +219,9 @@ const TreeItem: React.FC<{
                 </div>
                 {isOpen && node.children && (
                     <div>
-                        {Object.values(node.children)
-                            .sort((a: TreeNode, b: TreeNode) => (a.isFolder === b.isFolder) ? a.name.localeCompare(b.name) : (a.isFolder ? -1 : 1))
-                            .map((child: TreeNode) => (
-                                <TreeItem key={child.path} node={child} onSelectFile={onSelectFile} selectedFile={selectedFile} level={level + 1} />
+                        {isCreatingHere && <NameInput initialValue="" level={level + 1} isFolder={editing.mode === 'create-folder'} actions={actions} />}
+                        {sortNodes(Object.values(node.children)).map((child: TreeNode) => (
+                            <TreeItem key={child.path} node={child} level={level + 1} actions={actions} />
                         ))}
                     </div>
                 )}
@@ -77,32 +230,169 @@ const TreeItem: React.FC<{
     }
 
     return (
-        <div 
-            onClick={() => onSelectFile(node.path)} 
-            className={`flex items-center cursor-pointer p-2 rounded-md ${isSelected ? 'bg-indigo-600 text-white font-semibold' : 'hover:bg-slate-700/70 text-slate-300'} transition-colors`}
+        <div
+            {...rowProps}
+            onClick={() => actions.onSelectFile(node.path)}
+            className={`flex items-center cursor-pointer p-2 rounded-md ${isSelected ? 'bg-indigo-600 text-white font-semibold' : 'hover:bg-slate-700/70 text-slate-300'} focus:outline-none focus-visible:ring-1 focus-visible:ring-indigo-500 transition-colors`}
             style={{ paddingLeft: `${level * 16 + 8}px` }}
         >
-            <FileIcon className={`w-5 h-5 mr-2 flex-shrink-0 ${isSelected ? 'text-white' : 'text-slate-400'}`} />
+            <FileIcon className={`w-5 h-5 mr-2 flex-shrink-0 ${isSelected ? 'text-white' : node.isBinary ? 'text-emerald-400' : 'text-slate-400'}`} />
             <span className="truncate text-sm">{node.name}</span>
         </div>
     );
 };
 
 
-const FileTree: React.FC<FileTreeProps> = ({ files, onSelectFile, selectedFile }) => {
-    const tree = useMemo(() => buildTree(files), [files]);
+const FileTree: React.FC<FileTreeProps> = ({ files, folders = [], onSelectFile, selectedFile, onUploadFiles, onCreateFile, onCreateFolder, onMovePath, onDeletePath }) => {
+    const tree = useMemo(() => buildTree(files, folders), [files, folders]);
+    const [isDropTarget, setIsDropTarget] = useState(false);
+    const [editing, setEditing] = useState<EditingState | null>(null);
+    const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const canManage = !!(onCreateFile && onCreateFolder && onMovePath && onDeletePath);
 
-    const sortedTree = Object.values(tree).sort((a: TreeNode, b: TreeNode) => (a.isFolder === b.isFolder) ? a.name.localeCompare(b.name) : (a.isFolder ? -1 : 1));
+    const sortedTree = sortNodes(Object.values(tree));
 
-    if (files.length === 0) {
-        return <p className="text-slate-400 text-sm p-4 text-center">No files yet. Chat with the AI to create some!</p>
-    }
+    useEffect(() => {
+        if (!contextMenu) return;
+        const close = () => setContextMenu(null);
+        window.addEventListener('click', close);
+        window.addEventListener('blur', close);
+        return () => {
+            window.removeEventListener('click', close);
+            window.removeEventListener('blur', close);
+        };
+    }, [contextMenu]);
+
+    const commitEditing = (name: string) => {
+        const trimmed = name.trim();
+        const current = editing;
+        setEditing(null);
+        if (!current || !trimmed) return;
+        if (current.mode === 'rename') {
+            const target = joinPath(parentFolder(current.path), trimmed);
+            if (target !== current.path) onMovePath?.(current.path, target);
+        } else if (current.mode === 'create-file') {
+            onCreateFile?.(joinPath(current.folder, trimmed));
+        } else {
+            onCreateFolder?.(joinPath(current.folder, trimmed));
+        }
+    };
+
+    const dropPath = (path: string, folder: string) => {
+        if (folder === path || folder.startsWith(`${path}/`)) return; // a folder cannot move into itself
+        const target = joinPath(folder, path.split('/').pop() || path);
+        if (target !== path) onMovePath?.(path, target);
+    };
+
+    const actions: TreeActions = {
+        onSelectFile,
+        selectedFile,
+        editing,
+        setEditing,
+        commitEditing,
+        openContextMenu: (e, node) => {
+            if (!canManage) return;
+            e.preventDefault();
+            e.stopPropagation();
+            setContextMenu({ x: e.clientX, y: e.clientY, node });
+        },
+        deleteNode: (node) => onDeletePath?.(node.path, node.isFolder),
+        canManage,
+        onDropFiles: onUploadFiles,
+        onDropPath: canManage ? dropPath : undefined,
+    };
+
+    // New entries go into the folder that was right-clicked, or next to the file that was.
+    const targetFolder = (node: TreeNode | null) => !node ? '' : node.isFolder ? node.path : parentFolder(node.path);
+
+    const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (onUploadFiles && e.target.files && e.target.files.length > 0) onUploadFiles(toUploads(e.target.files, ''));
+        e.target.value = '';
+    };
+
+    // Files dropped outside of any folder go to the project root.
+    const rootDropHandlers = (onUploadFiles || canManage) && {
+        onDragOver: (e: React.DragEvent) => {
+            if (!(hasDraggedFiles(e) && onUploadFiles) && !(hasDraggedPath(e) && canManage)) return;
+            e.preventDefault();
+            setIsDropTarget(true);
+        },
+        onDragLeave: (e: React.DragEvent) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDropTarget(false);
+        },
+        onDrop: (e: React.DragEvent) => {
+            e.preventDefault();
+            setIsDropTarget(false);
+            const draggedPath = e.dataTransfer.getData(DRAG_PATH_TYPE);
+            if (draggedPath) dropPath(draggedPath, '');
+            else if (onUploadFiles && e.dataTransfer.files.length > 0) onUploadFiles(toUploads(e.dataTransfer.files, ''));
+        },
+    };
+
+    const toolbarButtonClass = 'flex items-center gap-1.5 px-2 py-1 text-xs text-slate-400 hover:text-white hover:bg-slate-700 rounded-md transition-colors';
+    const menuItemClass = 'w-full flex items-center gap-2 px-3 py-1.5 text-sm text-left text-slate-200 hover:bg-slate-700';
+    const isEmpty = files.length === 0 && folders.length === 0;
 
     return (
-        <div className="space-y-1">
-            {sortedTree.map((node: TreeNode) => (
-                <TreeItem key={node.path} node={node} onSelectFile={onSelectFile} selectedFile={selectedFile} level={0} />
-            ))}
+        <div
+            {...rootDropHandlers}
+            data-file-tree
+            onContextMenu={(e) => actions.openContextMenu(e, null)}
+            className={`min-h-full flex flex-col rounded-md ${isDropTarget ? 'ring-2 ring-indigo-500/60' : ''}`}
+        >
+            {(onUploadFiles || canManage) && (
+                <div className="flex justify-end gap-1 px-1 pb-2">
+                    {canManage && <button onClick={() => setEditing({ mode: 'create-file', folder: '' })} className={toolbarButtonClass} title="New file" aria-label="New file"><FilePlusIcon className="w-4 h-4" /></button>}
+                    {canManage && <button onClick={() => setEditing({ mode: 'create-folder', folder: '' })} className={toolbarButtonClass} title="New folder" aria-label="New folder"><FolderPlusIcon className="w-4 h-4" /></button>}
+                    {onUploadFiles && (
+                        <>
+                            <button onClick={() => fileInputRef.current?.click()} className={toolbarButtonClass} title="Upload files (or drop them here)">
+                                <UploadIcon className="w-4 h-4" /> Upload
+                            </button>
+                            <input ref={fileInputRef} type="file" multiple className="hidden" onChange={handleFileInputChange} />
+                        </>
+                    )}
+                </div>
+            )}
+            {editing && editing.mode !== 'rename' && editing.folder === '' && (
+                <NameInput initialValue="" level={0} isFolder={editing.mode === 'create-folder'} actions={actions} />
+            )}
+            {isEmpty && !editing ? (
+                <p className="text-slate-400 text-sm p-4 text-center">No files yet. Chat with the AI to create some!</p>
+            ) : (
+                <div className="space-y-1">
+                    {sortedTree.map((node: TreeNode) => (
+                        <TreeItem key={node.path} node={node} level={0} actions={actions} />
+                    ))}
+                </div>
+            )}
+            {contextMenu && (
+                <div
+                    className="fixed z-50 min-w-[160px] py-1 bg-slate-800 border border-slate-600 rounded-lg shadow-2xl"
+                    style={{ left: contextMenu.x, top: contextMenu.y }}
+                    onClick={(e) => e.stopPropagation()}
+                    role="menu"
+                >
+                    <button role="menuitem" className={menuItemClass} onClick={() => { setEditing({ mode: 'create-file', folder: targetFolder(contextMenu.node) }); setContextMenu(null); }}>
+                        <FilePlusIcon className="w-4 h-4" /> New File
+                    </button>
+                    <button role="menuitem" className={menuItemClass} onClick={() => { setEditing({ mode: 'create-folder', folder: targetFolder(contextMenu.node) }); setContextMenu(null); }}>
+                        <FolderPlusIcon className="w-4 h-4" /> New Folder
+                    </button>
+                    {contextMenu.node && (
+                        <>
+                            <div className="my-1 border-t border-slate-700" />
+                            <button role="menuitem" className={menuItemClass} onClick={() => { setEditing({ mode: 'rename', path: contextMenu.node!.path }); setContextMenu(null); }}>
+                                <EditIcon className="w-4 h-4" /> Rename <span className="ml-auto text-xs text-slate-500">F2</span>
+                            </button>
+                            <button role="menuitem" className={`${menuItemClass} text-red-400`} onClick={() => { actions.deleteNode(contextMenu.node!); setContextMenu(null); }}>
+                                <TrashIcon className="w-4 h-4" /> Delete <span className="ml-auto text-xs text-slate-500">Del</span>
+                            </button>
+                        </>
+                    )}
+                </div>
+            )}
         </div>
     );
 };
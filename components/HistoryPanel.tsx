@@ -0,0 +1,72 @@
+import React from 'react';
+import type { ProjectSnapshot } from '../types';
+import { XIcon, BotIcon, SaveIcon, HistoryIcon, SpinnerIcon } from './Icons';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  snapshots: ProjectSnapshot[];
+  onRestore: (snapshot: ProjectSnapshot) => void;
+  restoringId: string | null;
+}
+
+const triggerIcons: Record<ProjectSnapshot['trigger'], React.ReactNode> = {
+  ai: <BotIcon className="w-4 h-4 text-indigo-400" />,
+  manual: <SaveIcon className="w-4 h-4 text-green-400" />,
+  restore: <HistoryIcon className="w-4 h-4 text-amber-400" />,
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, snapshots, onRestore, restoringId }) => {
+  if (!isOpen) return null;
+
+  const newestFirst = [...snapshots].reverse();
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center backdrop-blur-sm transition-opacity duration-300"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-slate-800 rounded-xl shadow-2xl p-6 w-full max-w-lg m-4 ring-1 ring-slate-700 flex flex-col max-h-[80vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4 flex-shrink-0">
+            <h2 className="text-xl font-bold text-slate-100 flex items-center gap-2"><HistoryIcon /> Version History</h2>
+            <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-700">
+                <XIcon className="w-5 h-5" />
+            </button>
+        </div>
+
+        {newestFirst.length === 0 ? (
+          <p className="text-slate-400 text-sm text-center py-8">Belum ada riwayat. Snapshot dibuat setiap kali AI mengubah proyek atau Anda menyimpan file.</p>
+        ) : (
+          <ul className="space-y-2 overflow-y-auto pr-1">
+            {newestFirst.map((snapshot, index) => (
+              <li key={snapshot.id} className="flex items-start gap-3 p-3 rounded-lg bg-slate-900/50 border border-slate-700">
+                <div className="mt-0.5 flex-shrink-0">{triggerIcons[snapshot.trigger]}</div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-slate-200 break-words line-clamp-2">{snapshot.message}</p>
+                  <p className="text-xs text-slate-500 mt-1">
+                    {new Date(snapshot.createdAt).toLocaleString()} · {snapshot.files.length} file{snapshot.files.length !== 1 ? 's' : ''}
+                    {index === 0 && <span className="ml-2 text-green-400">latest</span>}
+                  </p>
+                </div>
+                <button
+                  onClick={() => onRestore(snapshot)}
+                  disabled={index === 0 || restoringId !== null}
+                  className="flex items-center gap-1 px-3 py-1 bg-slate-700 hover:bg-indigo-600 text-slate-200 text-xs font-semibold rounded-md disabled:opacity-40 disabled:cursor-not-allowed transition-colors flex-shrink-0"
+                >
+                  {restoringId === snapshot.id ? <SpinnerIcon className="w-3 h-3" /> : null} Restore
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
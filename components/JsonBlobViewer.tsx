@@ -1,7 +1,10 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import type { Project, ProjectFile, StyleLibrary, TemplateType } from '../types';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import type { Project } from '../types';
 import { saveProject } from '../services/projectService';
+import { loadSharedSnapshot } from '../services/shareService';
+import type { SharePayload } from '../services/shareBackend';
+import { buildPreview } from '../utils/previewBuilder';
 import ForkProjectModal from './ForkProjectModal';
 import { GitBranchIcon } from './Icons';
 
@@ -9,50 +12,17 @@ interface JsonBlobViewerProps {
     blobId: string;
 }
 
-interface ForkableProjectData {
-    files: ProjectFile[];
-    template: TemplateType;
-    styleLibrary: StyleLibrary;
-    name: string;
-}
-
 const JsonBlobViewer: React.FC<JsonBlobViewerProps> = ({ blobId }) => {
-    const [htmlContent, setHtmlContent] = useState<string | null>(null);
-    const [forkableProjectData, setForkableProjectData] = useState<ForkableProjectData | null>(null);
+    const [snapshot, setSnapshot] = useState<SharePayload | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [isForkModalOpen, setIsForkModalOpen] = useState(false);
 
     useEffect(() => {
-        fetch(`https://jsonblob.com/api/jsonBlob/${blobId}`)
-            .then(res => {
-                if (!res.ok) {
-                    throw new Error(`Could not fetch content from JSONBlob: ${res.statusText}`);
-                }
-                return res.json();
-            })
-            .then(data => {
-                if (data && data.previewHtml && Array.isArray(data.files)) {
-                    setHtmlContent(data.previewHtml);
-                    setForkableProjectData({
-                        files: data.files,
-                        template: data.template === 'vanilla' ? 'blank' : data.template || 'blank',
-                        styleLibrary: data.styleLibrary || 'none',
-                        name: data.name || `Fork of ${blobId.substring(0,8)}`
-                    });
-                } 
-                else if (data && data.html && typeof data.html === 'string') {
-                    setHtmlContent(data.html);
-                    setForkableProjectData({
-                        files: [{ path: 'index.html', content: data.html }],
-                        template: 'blank', // Legacy 'html' type maps to 'blank'
-                        styleLibrary: 'none',
-                        name: `Fork of ${blobId.substring(0,8)}`
-                    });
-                } else {
-                    setError('Invalid content format found at the URL.');
-                }
-            })
+        setIsLoading(true);
+        setError(null);
+        loadSharedSnapshot(blobId)
+            .then(setSnapshot)
             .catch(err => {
                 const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
                 setError(`Failed to load content: ${errorMessage}`);
@@ -62,8 +32,12 @@ const JsonBlobViewer: React.FC<JsonBlobViewerProps> = ({ blobId }) => {
             });
     }, [blobId]);
 
+    // The payload's own previewHtml is never rendered: anyone can write a snapshot, so the
+    // preview is rebuilt from the validated files and runs without access to the app's origin.
+    const previewHtml = useMemo(() => snapshot ? buildPreview(snapshot.files).html : '', [snapshot]);
+
     const handleForkProject = useCallback(async (projectName: string) => {
-        if (!forkableProjectData) {
+        if (!snapshot) {
             alert('Cannot fork project: content is not available.');
             return;
         }
@@ -71,12 +45,13 @@ const JsonBlobViewer: React.FC<JsonBlobViewerProps> = ({ blobId }) => {
         const newProject: Project = {
             id: `proj_${Date.now()}`,
             name: projectName,
-            files: forkableProjectData.files,
+            files: snapshot.files,
             chatHistory: [],
             updatedAt: Date.now(),
             currentSessionId: Math.random().toString(36).substring(2, 9),
-            template: forkableProjectData.template,
-            styleLibrary: forkableProjectData.styleLibrary,
+            template: snapshot.template,
+            styleLibrary: snapshot.styleLibrary,
+            forkedFrom: { shareId: blobId, ...(snapshot.sourceProjectId && { sourceProjectId: snapshot.sourceProjectId }), forkedAt: Date.now() },
         };
 
         try {
@@ -90,7 +65,7 @@ const JsonBlobViewer: React.FC<JsonBlobViewerProps> = ({ blobId }) => {
             alert(`Failed to fork project: ${errorMessage}`);
         }
 
-    }, [forkableProjectData]);
+    }, [snapshot, blobId]);
     
     if (isLoading) {
         return (
@@ -101,11 +76,11 @@ const JsonBlobViewer: React.FC<JsonBlobViewerProps> = ({ blobId }) => {
         );
     }
     
-    if (error || !htmlContent) {
+    if (error || !snapshot) {
          return (
             <div className="w-screen h-screen flex flex-col justify-center items-center bg-slate-950 p-4">
                 <h1 className="text-2xl font-bold text-red-400 mb-4">Error</h1>
-                <p className="text-red-300 text-center">{error || 'Content could not be loaded.'}</p>
+                <p className="text-red-300 text-center whitespace-pre-line">{error || 'Content could not be loaded.'}</p>
             </div>
         );
     }
@@ -113,7 +88,13 @@ const JsonBlobViewer: React.FC<JsonBlobViewerProps> = ({ blobId }) => {
     return (
         <div className="w-screen h-screen relative">
             <header className="absolute top-0 left-0 right-0 h-16 bg-slate-900/80 backdrop-blur-sm z-10 flex items-center justify-between px-4 sm:px-6">
-                <h1 className="text-lg font-semibold text-slate-200">Public Preview</h1>
+                <div className="min-w-0">
+                    <h1 className="text-lg font-semibold text-slate-200 truncate">{snapshot.name}</h1>
+                    <p className="text-xs text-slate-400">
+                        Public Preview · {snapshot.files.length} file{snapshot.files.length !== 1 ? 's' : ''}
+                        {snapshot.createdAt > 0 && <> · {new Date(snapshot.createdAt).toLocaleString()}</>}
+                    </p>
+                </div>
                 <button
                     onClick={() => setIsForkModalOpen(true)}
                     className="flex items-center gap-2 bg-gradient-to-r from-indigo-500 to-purple-600 hover:from-indigo-600 hover:to-purple-700 text-white font-semibold py-2 px-4 rounded-lg shadow-lg transition-transform transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-indigo-500/50"
@@ -123,16 +104,16 @@ const JsonBlobViewer: React.FC<JsonBlobViewerProps> = ({ blobId }) => {
                 </button>
             </header>
             <iframe
-                srcDoc={htmlContent}
+                srcDoc={previewHtml}
                 title={`Public preview ${blobId}`}
                 className="w-full h-full border-none bg-white"
-                sandbox="allow-scripts allow-same-origin allow-forms"
+                sandbox="allow-scripts allow-forms"
             />
             <ForkProjectModal
                 isOpen={isForkModalOpen}
                 onClose={() => setIsForkModalOpen(false)}
                 onFork={handleForkProject}
-                defaultName={forkableProjectData?.name || `Fork of ${blobId.substring(0,8)}`}
+                defaultName={snapshot.name}
             />
         </div>
     );
@@ -0,0 +1,118 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { ConsoleEntry, ConsoleLevel } from '../utils/previewConsole';
+import { AlertTriangleIcon, InfoIcon, TrashIcon, SendIcon, ChevronDownIcon, ChevronRightIcon } from './Icons';
+
+interface PreviewConsoleProps {
+    entries: ConsoleEntry[];
+    isOpen: boolean;
+    onToggle: () => void;
+    onClear: () => void;
+    /** Shown as "Send errors to AI" when set. */
+    onSendErrors?: () => void;
+}
+
+type ConsoleFilter = 'all' | 'errors' | 'warnings' | 'logs' | 'network';
+
+const FILTERS: { id: ConsoleFilter; label: string }[] = [
+    { id: 'all', label: 'All' },
+    { id: 'errors', label: 'Errors' },
+    { id: 'warnings', label: 'Warnings' },
+    { id: 'logs', label: 'Logs' },
+    { id: 'network', label: 'Network' },
+];
+
+const matchesFilter = (entry: ConsoleEntry, filter: ConsoleFilter): boolean => {
+    switch (filter) {
+        case 'errors': return entry.level === 'error';
+        case 'warnings': return entry.level === 'warn';
+        case 'logs': return entry.kind === 'console' && entry.level !== 'error' && entry.level !== 'warn';
+        case 'network': return entry.kind === 'network';
+        default: return true;
+    }
+};
+
+const LEVEL_CLASSES: Record<ConsoleLevel, string> = {
+    error: 'bg-red-500/10 text-red-300 border-red-500/20',
+    warn: 'bg-amber-500/10 text-amber-200 border-amber-500/20',
+    info: 'text-sky-200 border-slate-700/60',
+    log: 'text-slate-200 border-slate-700/60',
+    debug: 'text-slate-400 border-slate-700/60',
+};
+
+const EntryIcon: React.FC<{ entry: ConsoleEntry }> = ({ entry }) => {
+    if (entry.kind === 'network') return <span className="w-4 text-center text-[10px] font-bold text-slate-500">⇅</span>;
+    if (entry.level === 'error' || entry.level === 'warn') return <AlertTriangleIcon className="w-4 h-4 flex-shrink-0" />;
+    if (entry.level === 'info') return <InfoIcon className="w-4 h-4 flex-shrink-0" />;
+    return <span className="w-4 flex-shrink-0" />;
+};
+
+/** Console output, errors and network requests of the page in the preview. */
+const PreviewConsole: React.FC<PreviewConsoleProps> = ({ entries, isOpen, onToggle, onClear, onSendErrors }) => {
+    const [filter, setFilter] = useState<ConsoleFilter>('all');
+    const listRef = useRef<HTMLDivElement>(null);
+    const errorCount = entries.filter(e => e.level === 'error').length;
+    const warningCount = entries.filter(e => e.level === 'warn').length;
+    const visible = entries.filter(e => matchesFilter(e, filter));
+
+    // Stay at the bottom while new entries come in, unless the user scrolled up to read.
+    const isAtBottomRef = useRef(true);
+    useEffect(() => {
+        const list = listRef.current;
+        if (list && isAtBottomRef.current) list.scrollTop = list.scrollHeight;
+    }, [visible.length, isOpen]);
+
+    return (
+        <div className={`flex-shrink-0 flex flex-col border-t border-slate-700 bg-slate-900 ${isOpen ? 'h-56' : ''}`}>
+            <div className="flex items-center gap-2 px-2 py-1 text-xs border-b border-slate-800">
+                <button onClick={onToggle} className="flex items-center gap-1 font-semibold text-slate-300 hover:text-white" aria-expanded={isOpen}>
+                    {isOpen ? <ChevronDownIcon className="w-3.5 h-3.5" /> : <ChevronRightIcon className="w-3.5 h-3.5" />} Console
+                </button>
+                {errorCount > 0 && <span className="px-1.5 rounded-full bg-red-500/20 text-red-300" title="Errors">{errorCount}</span>}
+                {warningCount > 0 && <span className="px-1.5 rounded-full bg-amber-500/20 text-amber-200" title="Warnings">{warningCount}</span>}
+                {isOpen && (
+                    <div className="flex items-center gap-0.5 ml-2" role="tablist">
+                        {FILTERS.map(f => (
+                            <button key={f.id} role="tab" aria-selected={filter === f.id} onClick={() => setFilter(f.id)} className={`px-2 py-0.5 rounded ${filter === f.id ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}>
+                                {f.label}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                <div className="ml-auto flex items-center gap-1">
+                    {onSendErrors && errorCount > 0 && (
+                        <button onClick={onSendErrors} className="flex items-center gap-1.5 px-2 py-0.5 rounded bg-indigo-600 hover:bg-indigo-500 text-white" title="Minta AI memperbaiki error dari konsol pratinjau">
+                            <SendIcon className="w-3.5 h-3.5" /> Send errors to AI
+                        </button>
+                    )}
+                    <button onClick={onClear} disabled={entries.length === 0} className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent" aria-label="Clear console" title="Clear">
+                        <TrashIcon className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+            </div>
+            {isOpen && (
+                <div
+                    ref={listRef}
+                    onScroll={(e) => { const list = e.currentTarget; isAtBottomRef.current = list.scrollHeight - list.scrollTop - list.clientHeight < 8; }}
+                    className="flex-1 min-h-0 overflow-y-auto font-mono text-xs"
+                >
+                    {visible.length === 0 && <p className="p-3 text-slate-500 font-sans">Belum ada pesan.</p>}
+                    {visible.map(entry => (
+                        <div key={entry.id} className={`flex items-start gap-2 px-2 py-1 border-b ${LEVEL_CLASSES[entry.level]}`}>
+                            <EntryIcon entry={entry} />
+                            <span className="flex-1 min-w-0 whitespace-pre-wrap break-words">{entry.message}</span>
+                            {entry.count > 1 && <span className="px-1.5 rounded-full bg-slate-700 text-slate-200 flex-shrink-0">{entry.count}</span>}
+                            {entry.network && <span className="text-slate-500 flex-shrink-0">{entry.network.durationMs} ms</span>}
+                            {entry.location && (
+                                <span className="text-slate-500 flex-shrink-0" title={`${entry.location.path}, baris ${entry.location.line}`}>
+                                    {entry.location.path}:{entry.location.line}
+                                </span>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PreviewConsole;
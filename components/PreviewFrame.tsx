@@ -0,0 +1,343 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { ProjectFile, PreviewError } from '../types';
+import { findPageFile, isHtmlFile, resolveProjectPath } from '../utils/fileUtils';
+import { buildPreview } from '../utils/previewBuilder';
+import { withPreviewNavigation, PREVIEW_NAVIGATION_SOURCE, PreviewNavigationRequest } from '../utils/previewNavigation';
+import { prepareHotReload, getStyleUpdates, HotReloadPage, PreviewScrollPosition, PREVIEW_HOT_RELOAD_SOURCE } from '../utils/previewHotReload';
+import { getViewports, parseViewportSettings, DeviceKind, Viewport } from '../utils/viewportPresets';
+import { withConsoleBridge, toConsoleEntry, toPreviewErrors, ConsoleEntry, PREVIEW_CONSOLE_SOURCE } from '../utils/previewConsole';
+import type { PreviewScriptSource } from '../utils/previewBuilder';
+import DeviceToolbar from './DeviceToolbar';
+import PreviewConsole from './PreviewConsole';
+import { BackIcon, RefreshIcon, AlertTriangleIcon } from './Icons';
+
+interface PreviewFrameProps {
+    files: ProjectFile[];
+    title: string;
+    /** How long `files` must stay unchanged before the page updates; 0 updates right away. */
+    debounceMs?: number;
+    /** Extra toolbar buttons, shown after the page selector. */
+    actions?: React.ReactNode;
+    /** Offers to send the errors in the console to the AI when set. */
+    onSendErrors?: (errors: PreviewError[]) => void;
+}
+
+const START_PAGE: PreviewNavigationRequest = { path: 'index.html', search: '', hash: '' };
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const formatAddress = (location: PreviewNavigationRequest) => `/${location.path}${location.search}${location.hash}`;
+
+const parseAddress = (address: string, fromPath: string): PreviewNavigationRequest | null => {
+    const trimmed = address.trim();
+    const path = resolveProjectPath(fromPath, trimmed || '/');
+    if (path === null) return null;
+    const hashIndex = trimmed.indexOf('#');
+    const hash = hashIndex === -1 ? '' : trimmed.substring(hashIndex);
+    const withoutHash = hashIndex === -1 ? trimmed : trimmed.substring(0, hashIndex);
+    const searchIndex = withoutHash.indexOf('?');
+    return { path, search: searchIndex === -1 ? '' : withoutHash.substring(searchIndex), hash };
+};
+
+interface LiveFrameProps {
+    page: HotReloadPage;
+    /** The page visit being shown; a new visit starts a fresh frame at the top of the page. */
+    location: PreviewNavigationRequest;
+    /** Changing this reloads the page. */
+    reloadToken: number;
+    title: string;
+    onNavigate: (target: PreviewNavigationRequest) => void;
+    /** Receives the messages of the page's console bridge. */
+    onConsoleMessage?: (data: unknown) => void;
+}
+
+/**
+ * One sandboxed frame showing `page`. When the page changes, changes that only touch CSS
+ * are applied in place and anything else reloads it at the same scroll position.
+ */
+const LiveFrame: React.FC<LiveFrameProps> = ({ page, location, reloadToken, title, onNavigate, onConsoleMessage }) => {
+    const [frameHtml, setFrameHtml] = useState('');
+    const [frameKey, setFrameKey] = useState(0);
+    const iframeRef = useRef<HTMLIFrameElement>(null);
+    // The page the frame shows (or is loading), so the next update can be applied to it in place.
+    const loadedRef = useRef<{ location: PreviewNavigationRequest; page: HotReloadPage } | null>(null);
+    const reloadTokenRef = useRef(reloadToken);
+    const isFrameReadyRef = useRef(false);
+    const scrollRef = useRef<PreviewScrollPosition | null>(null);
+    const restoreScrollRef = useRef<PreviewScrollPosition | null>(null);
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            if (event.source !== iframeRef.current?.contentWindow) return;
+            // The page can post anything, so every field is checked before it is used.
+            const data: unknown = event.data;
+            if (!isRecord(data)) return;
+            if (data.source === PREVIEW_NAVIGATION_SOURCE) {
+                if (typeof data.path !== 'string') return;
+                onNavigate({ path: data.path, search: typeof data.search === 'string' ? data.search : '', hash: typeof data.hash === 'string' ? data.hash : '' });
+            } else if (data.source === PREVIEW_HOT_RELOAD_SOURCE && data.type === 'scroll') {
+                if (typeof data.x === 'number' && typeof data.y === 'number') scrollRef.current = { x: data.x, y: data.y };
+            } else if (data.source === PREVIEW_CONSOLE_SOURCE) {
+                onConsoleMessage?.(data);
+            }
+        };
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, [onNavigate, onConsoleMessage]);
+
+    useEffect(() => {
+        const loaded = loadedRef.current;
+        const isReload = reloadToken !== reloadTokenRef.current;
+        reloadTokenRef.current = reloadToken;
+        if (!loaded || loaded.location !== location) {
+            scrollRef.current = null;
+            restoreScrollRef.current = null;
+        } else if (!isReload && loaded.page.html === page.html) {
+            return;
+        } else {
+            const styles = !isReload && isFrameReadyRef.current ? getStyleUpdates(loaded.page, page) : null;
+            if (styles) {
+                iframeRef.current?.contentWindow?.postMessage({ source: PREVIEW_HOT_RELOAD_SOURCE, type: 'styles', styles }, '*');
+                loadedRef.current = { location, page };
+                return;
+            }
+            restoreScrollRef.current = restoreScrollRef.current || scrollRef.current;
+        }
+        loadedRef.current = { location, page };
+        isFrameReadyRef.current = false;
+        setFrameHtml(page.html);
+        // A new frame every time, so the page reloads even when its HTML is unchanged.
+        setFrameKey(k => k + 1);
+    }, [page, location, reloadToken]);
+
+    const handleLoad = () => {
+        isFrameReadyRef.current = true;
+        const scroll = restoreScrollRef.current;
+        restoreScrollRef.current = null;
+        if (scroll) iframeRef.current?.contentWindow?.postMessage({ source: PREVIEW_HOT_RELOAD_SOURCE, type: 'scroll', ...scroll }, '*');
+    };
+
+    if (!frameHtml) return null;
+    // No allow-same-origin: the page runs AI-written and imported code, which must not reach the
+    // app's origin or the user's Puter session. The frame only talks to the app through postMessage.
+    return (
+        <iframe
+            ref={iframeRef}
+            key={frameKey}
+            srcDoc={frameHtml}
+            onLoad={handleLoad}
+            title={title}
+            className="w-full h-full border-none bg-white"
+            sandbox="allow-scripts allow-forms"
+        />
+    );
+};
+
+const VIEWPORT_STORAGE_KEY = 'preview-viewport';
+const BEZEL_WIDTHS: Record<DeviceKind, number> = { phone: 10, tablet: 12, desktop: 6 };
+const BEZEL_CLASSES: Record<DeviceKind, string> = { phone: 'rounded-[2rem]', tablet: 'rounded-[1.5rem]', desktop: 'rounded-md' };
+// Space around the device frames in the stage: padding, the gap between frames and each frame's label.
+const STAGE_PADDING = 16;
+const MAX_CONSOLE_ENTRIES = 500;
+// Errors sent to the AI at once; more would mostly repeat the same cause.
+const MAX_SENT_ERRORS = 10;
+const STAGE_GAP = 24;
+const LABEL_HEIGHT = 28;
+
+/** The scale at which all `viewports` fit side by side in a stage of the given size. */
+const getFitScale = (viewports: Viewport[], stage: { width: number; height: number }): number => {
+    const bezels = viewports.map(v => 2 * BEZEL_WIDTHS[v.kind]);
+    const availableWidth = stage.width - 2 * STAGE_PADDING - STAGE_GAP * (viewports.length - 1) - bezels.reduce((a, b) => a + b, 0);
+    const availableHeight = stage.height - 2 * STAGE_PADDING - LABEL_HEIGHT - Math.max(...bezels);
+    const scale = Math.min(1, availableWidth / viewports.reduce((sum, v) => sum + v.width, 0), availableHeight / Math.max(...viewports.map(v => v.height)));
+    return Math.max(0.1, scale);
+};
+
+/**
+ * Renders project files with an address bar, page history and a device toolbar. The page
+ * fills the available space, or is shown at the size of one or more devices side by side.
+ * Every frame hot reloads when `files` change (see LiveFrame).
+ */
+const PreviewFrame: React.FC<PreviewFrameProps> = ({ files, title, debounceMs = 0, actions, onSendErrors }) => {
+    const [renderedFiles, setRenderedFiles] = useState(files);
+    const [reloadToken, setReloadToken] = useState(0);
+    const [viewportSettings, setViewportSettings] = useState(() => parseViewportSettings(localStorage.getItem(VIEWPORT_STORAGE_KEY)));
+    const [stageSize, setStageSize] = useState<{ width: number; height: number } | null>(null);
+    // Visited pages, like a browser's session history.
+    const [history, setHistory] = useState<PreviewNavigationRequest[]>([START_PAGE]);
+    const [historyIndex, setHistoryIndex] = useState(0);
+    const [addressInput, setAddressInput] = useState(formatAddress(START_PAGE));
+    const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([]);
+    const [isConsoleOpen, setIsConsoleOpen] = useState(false);
+    const stageRef = useRef<HTMLDivElement>(null);
+    const scriptsRef = useRef<PreviewScriptSource[]>([]);
+    const nextEntryIdRef = useRef(1);
+
+    const location = history[historyIndex];
+
+    useEffect(() => {
+        if (!debounceMs) {
+            setRenderedFiles(files);
+            return;
+        }
+        const timeoutId = window.setTimeout(() => setRenderedFiles(files), debounceMs);
+        return () => window.clearTimeout(timeoutId);
+    }, [files, debounceMs]);
+
+    useEffect(() => {
+        localStorage.setItem(VIEWPORT_STORAGE_KEY, JSON.stringify(viewportSettings));
+    }, [viewportSettings]);
+
+    const viewports = useMemo(() => getViewports(viewportSettings), [viewportSettings]);
+    const hasDevices = viewports.length > 0;
+
+    useEffect(() => {
+        const stage = stageRef.current;
+        if (!stage) return;
+        const observer = new ResizeObserver(() => setStageSize({ width: stage.clientWidth, height: stage.clientHeight }));
+        observer.observe(stage);
+        return () => observer.disconnect();
+    }, [hasDevices]);
+
+    const navigate = useCallback((target: PreviewNavigationRequest) => {
+        setHistory(prev => [...prev.slice(0, historyIndex + 1), target]);
+        setHistoryIndex(historyIndex + 1);
+    }, [historyIndex]);
+
+    useEffect(() => {
+        setAddressInput(formatAddress(location));
+    }, [location]);
+
+    const pages = useMemo(() => renderedFiles.filter(f => isHtmlFile(f.path)).map(f => f.path).sort(), [renderedFiles]);
+    const pageFile = useMemo(() => findPageFile(renderedFiles, location.path), [renderedFiles, location.path]);
+
+    const preview = useMemo(() => {
+        const pagePath = pageFile?.path || location.path;
+        const build = buildPreview(renderedFiles, pagePath);
+        const html = withConsoleBridge(withPreviewNavigation(build.html, pagePath, location.hash));
+        return { page: prepareHotReload(html), unresolved: build.unresolved, scripts: build.scripts };
+    }, [renderedFiles, pageFile, location]);
+
+    useEffect(() => {
+        scriptsRef.current = preview.scripts;
+    }, [preview]);
+
+    // The page clears the console whenever it (re)loads; repeats of the last entry are counted.
+    const handleConsoleMessage = useCallback((data: unknown) => {
+        if (isRecord(data) && data.type === 'reset') {
+            setConsoleEntries([]);
+            return;
+        }
+        const entry = toConsoleEntry(data, scriptsRef.current);
+        if (!entry) return;
+        setConsoleEntries(prev => {
+            const last = prev[prev.length - 1];
+            if (last && last.kind === entry.kind && last.level === entry.level && last.message === entry.message
+                && last.location?.path === entry.location?.path && last.location?.line === entry.location?.line) {
+                return [...prev.slice(0, -1), { ...last, count: last.count + 1 }];
+            }
+            return [...prev, { ...entry, id: nextEntryIdRef.current++, count: 1 }].slice(-MAX_CONSOLE_ENTRIES);
+        });
+    }, []);
+
+    const handleSendErrors = () => {
+        if (!onSendErrors) return;
+        const seen = new Set<string>();
+        const errors = toPreviewErrors(consoleEntries).filter(error => {
+            const key = `${error.message}@${error.path}:${error.line}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+        onSendErrors(errors.slice(0, MAX_SENT_ERRORS));
+    };
+
+    const handleAddressSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const target = parseAddress(addressInput, location.path);
+        if (target) navigate(target);
+        else setAddressInput(formatAddress(location));
+    };
+
+    const navButtonClass = 'p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-400 transition-colors';
+    const unresolved = preview.unresolved;
+    const scale = viewportSettings.zoom === 'fit' ? (stageSize && hasDevices ? getFitScale(viewports, stageSize) : 1) : viewportSettings.zoom;
+
+    return (
+        <div className="w-full h-full flex flex-col bg-slate-900 min-h-0">
+            <div className="flex-shrink-0 flex items-center gap-1 px-2 py-1.5 border-b border-slate-700">
+                <button onClick={() => setHistoryIndex(historyIndex - 1)} disabled={historyIndex === 0} className={navButtonClass} aria-label="Back" title="Back"><BackIcon className="w-4 h-4" /></button>
+                <button onClick={() => setHistoryIndex(historyIndex + 1)} disabled={historyIndex === history.length - 1} className={navButtonClass} aria-label="Forward" title="Forward"><BackIcon className="w-4 h-4 rotate-180" /></button>
+                <button onClick={() => setReloadToken(t => t + 1)} className={navButtonClass} aria-label="Reload page" title="Reload"><RefreshIcon className="w-4 h-4" /></button>
+                <form onSubmit={handleAddressSubmit} className="flex-1 min-w-0">
+                    <input
+                        type="text"
+                        value={addressInput}
+                        onChange={(e) => setAddressInput(e.target.value)}
+                        className={`w-full bg-slate-800 border rounded-md px-3 py-1 text-sm font-mono focus:outline-none focus:ring-1 focus:ring-indigo-500 ${pageFile ? 'border-slate-600 text-slate-200' : 'border-red-500/60 text-red-300'}`}
+                        aria-label="Preview address"
+                        spellCheck={false}
+                    />
+                </form>
+                <select
+                    value={pageFile?.path || ''}
+                    onChange={(e) => navigate({ path: e.target.value, search: '', hash: '' })}
+                    className="bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-sm text-slate-200 max-w-[40%] focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                    aria-label="Page"
+                >
+                    {!pageFile && <option value="" disabled>Page not found</option>}
+                    {pages.map(page => <option key={page} value={page}>{page}</option>)}
+                </select>
+                {actions}
+            </div>
+            {unresolved.length > 0 && (
+                <details className="flex-shrink-0 px-3 py-1.5 border-b border-slate-700 bg-amber-500/10 text-amber-300 text-xs">
+                    <summary className="cursor-pointer flex items-center gap-1.5">
+                        <AlertTriangleIcon className="w-4 h-4" /> {unresolved.length} referensi tidak ditemukan di file proyek
+                    </summary>
+                    <ul className="mt-1 space-y-0.5 font-mono text-amber-200/80">
+                        {unresolved.map(u => <li key={`${u.from}:${u.reference}`}>{u.from}: {u.reference}</li>)}
+                    </ul>
+                </details>
+            )}
+            <DeviceToolbar settings={viewportSettings} onChange={setViewportSettings} />
+            {!hasDevices ? (
+                <div className="flex-1 min-h-0">
+                    <LiveFrame page={preview.page} location={location} reloadToken={reloadToken} title={title} onNavigate={navigate} onConsoleMessage={handleConsoleMessage} />
+                </div>
+            ) : (
+                <div ref={stageRef} className="flex-1 min-h-0 overflow-auto bg-slate-950">
+                    <div className="flex items-start w-max mx-auto" style={{ padding: STAGE_PADDING, gap: STAGE_GAP }}>
+                        {viewports.map((viewport, index) => {
+                            const bezel = BEZEL_WIDTHS[viewport.kind];
+                            return (
+                                <div key={viewport.id} className="flex flex-col items-center flex-shrink-0">
+                                    <span className="text-xs text-slate-400 font-mono whitespace-nowrap" style={{ height: LABEL_HEIGHT }}>
+                                        {viewport.name} · {viewport.width}×{viewport.height} · {Math.round(scale * 100)}%
+                                    </span>
+                                    <div
+                                        className={`overflow-hidden bg-white shadow-2xl ${BEZEL_CLASSES[viewport.kind]}`}
+                                        style={{ width: viewport.width * scale + 2 * bezel, height: viewport.height * scale + 2 * bezel, border: `${bezel}px solid #020617` }}
+                                    >
+                                        <div style={{ width: viewport.width, height: viewport.height, transform: `scale(${scale})`, transformOrigin: 'top left' }}>
+                                            <LiveFrame page={preview.page} location={location} reloadToken={reloadToken} title={`${title} (${viewport.name})`} onNavigate={navigate} onConsoleMessage={index === 0 ? handleConsoleMessage : undefined} />
+                                        </div>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+            <PreviewConsole
+                entries={consoleEntries}
+                isOpen={isConsoleOpen}
+                onToggle={() => setIsConsoleOpen(o => !o)}
+                onClear={() => setConsoleEntries([])}
+                onSendErrors={onSendErrors && handleSendErrors}
+            />
+        </div>
+    );
+};
+
+export default PreviewFrame;
@@ -1,14 +1,30 @@
 
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import type { Project, ProjectFile, ChatMessage, FileOperation } from '../types';
-import { getProject, saveProject } from '../services/projectService';
-import { streamAIAgentResponse } from '../services/aiService';
-import { createProjectZip, createPreviewHtml } from '../utils/fileUtils';
-import { BackIcon, CodeIcon, DownloadIcon, EyeIcon, SendIcon, UserIcon, BotIcon, EditIcon, RefreshIcon, CloudUploadIcon, SpinnerIcon, FilePlusIcon, FileEditIcon, FileMinusIcon, CheckCircleIcon, AlertTriangleIcon, InfoIcon, MenuIcon, LogOutIcon, XIcon } from './Icons';
+import type { Project, ProjectFile, ChatMessage, FileOperation, PatchHunk, ProjectSnapshot, SnapshotTrigger, PreviewError } from '../types';
+import { getProject, saveProject, getSnapshots, createSnapshot, getSnapshotFiles } from '../services/projectService';
+import { streamAIAgentResponse, listAiModels, buildErrorFixGoal, StreamChunk } from '../services/aiService';
+import type { AiModelInfo } from '../services/aiProvider';
+import { createProjectZip, getFileData, getFileSize, isBinaryFile, readUploadedFile, MAX_UPLOAD_BYTES } from '../utils/fileUtils';
+import { collectPreviewErrors } from '../utils/previewRunner';
+import { buildProject, parseBuildSettings, BuildSettings } from '../utils/productionBuild';
+import { publishSite, unpublishSite, getSiteUrl } from '../services/publishService';
+import { shareSnapshot, getShareUrl } from '../services/shareService';
+import { EditorTab, TabConflict, TabSyncMode, ConflictChoice, createTab, syncTabs, renameTabs, closeTabsInside, resolveConflict } from '../utils/editorTabs';
+import { ProjectTree, normalizeNewPath, pathExists, movePath, countReferenceUpdates, deletePath, addFolder, addFile } from '../utils/projectPaths';
+import { BackIcon, CodeIcon, DownloadIcon, EyeIcon, ExternalLinkIcon, SendIcon, UserIcon, BotIcon, EditIcon, RefreshIcon, CloudUploadIcon, SpinnerIcon, FilePlusIcon, FileEditIcon, FileMinusIcon, CheckCircleIcon, AlertTriangleIcon, InfoIcon, MenuIcon, LogOutIcon, XIcon, HistoryIcon, StopIcon, ShareIcon } from './Icons';
 import { TypingIndicator } from './Loader';
-import FileTree from './FileTree';
+import FileTree, { FileUpload } from './FileTree';
 import CodeEditor from './CodeEditor';
+import EditorTabs from './EditorTabs';
+import ConflictPanel from './ConflictPanel';
+import AssetPreview from './AssetPreview';
+import PreviewFrame from './PreviewFrame';
 import ShareModal from './ShareModal';
+import BuildModal from './BuildModal';
+import PublishModal from './PublishModal';
+import ConfirmModal from './ConfirmModal';
+import HistoryPanel from './HistoryPanel';
+import ReviewPanel from './ReviewPanel';
 import { useAuth } from '../auth';
 
 declare const puter: any;
@@ -19,24 +35,22 @@ interface ProjectEditorProps {
 }
 
 type MainView = 'editor' | 'chat';
-type MobileView = 'files' | 'editor' | 'chat';
+type MobileView = 'files' | 'editor' | 'chat' | 'preview';
 type ToastType = { id: number; message: string; type: 'success' | 'error' | 'info' };
+type PendingReview = { operations: FileOperation[]; baseFiles: ProjectFile[]; userGoal: string; messageIndex: number };
+type PendingStop = { operations: FileOperation[]; baseFiles: ProjectFile[]; partialFiles: ProjectFile[]; userGoal: string; messageIndex: number };
+type LastTurn = { projectId: string; historyLength: number; baseFiles: ProjectFile[] };
 
 type AiModel = string;
-const aiModels: { id: AiModel, name: string }[] = [
-    { id: 'gpt-5-nano', name: 'GPT-5 Nano' },
-    { id: 'gpt-4o-mini', name: 'GPT-4o Mini' },
-    { id: 'o1-mini', name: 'O1 Mini' },
-    { id: 'claude-sonnet-4', name: 'Claude Sonnet 4' },
-    { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash' },
-    { id: 'grok', name: 'Grok' },
-    { id: 'mistral-large', name: 'Mistral Large' },
-    { id: 'llama3-70b', name: 'Llama3 70B' },
-    { id: 'gpt-4o', name: 'GPT-4o' },
-    { id: 'gpt-5', name: 'GPT-5' },
-    { id: 'claude-opus-4', name: 'Claude Opus 4' },
-    { id: 'deepseek-coder', name: 'DeepSeek Coder' },
-];
+
+const REVIEW_MODE_STORAGE_KEY = 'ai-review-mode';
+const AUTO_FIX_STORAGE_KEY = 'ai-auto-fix';
+const PREVIEW_PANE_STORAGE_KEY = 'editor-preview-open';
+const BUILD_SETTINGS_STORAGE_KEY = 'build-settings';
+// Typing in the editor updates the live preview once the user pauses this long.
+const PREVIEW_DEBOUNCE_MS = 500;
+// Fix-up turns the agent may take on its own when the preview reports errors.
+const MAX_AUTO_FIX_ROUNDS = 3;
 
 const signalPreviewUpdate = (projectId: string) => {
   if (!projectId) return;
@@ -50,12 +64,10 @@ const applyOperation = (currentFiles: ProjectFile[], operation: FileOperation):
 
   switch (opType) {
     case 'CREATE':
-      if (fileIndex > -1) updatedFiles[fileIndex] = { ...updatedFiles[fileIndex], content };
-      else updatedFiles.push({ path, content });
-      break;
     case 'UPDATE':
-       if (fileIndex === -1) updatedFiles.push({ path, content });
-       else updatedFiles[fileIndex] = { ...updatedFiles[fileIndex], content };
+      // Written content is always text, even if it replaces a binary file.
+      if (fileIndex > -1) updatedFiles[fileIndex] = { path, content };
+      else updatedFiles.push({ path, content });
       break;
     case 'DELETE':
       if (fileIndex > -1) updatedFiles.splice(fileIndex, 1);
@@ -66,6 +78,47 @@ const applyOperation = (currentFiles: ProjectFile[], operation: FileOperation):
   return updatedFiles;
 };
 
+/**
+ * Adds `operation` to the staged operations of a turn, merged into any earlier one on the same
+ * path so every path has one operation that takes it from `baseFiles` to its latest content.
+ * Staged separately, accepting a later operation would bring back the content of a rejected one.
+ */
+const stageOperation = (staged: FileOperation[], operation: FileOperation, baseFiles: ProjectFile[]): FileOperation[] => {
+  const inBase = baseFiles.some(f => f.path === operation.path);
+  const merged: FileOperation | null = operation.operation === 'DELETE'
+    ? (inBase ? operation : null)
+    : { ...operation, operation: inBase ? 'UPDATE' : 'CREATE' };
+  const index = staged.findIndex(op => op.path === operation.path);
+  if (index === -1) return merged ? [...staged, merged] : staged;
+  return merged ? staged.map((op, i) => i === index ? merged : op) : staged.filter((_, i) => i !== index);
+};
+
+/**
+ * Applies search/replace hunks to a single file. Hunks whose search text is missing
+ * or ambiguous are rejected and returned instead of being forced into the file.
+ */
+const applyPatch = (currentFiles: ProjectFile[], path: string, hunks: PatchHunk[]): { files: ProjectFile[]; operation: FileOperation | null; rejected: PatchHunk[] } => {
+  const file = currentFiles.find(f => f.path === path);
+  if (!file) return { files: currentFiles, operation: null, rejected: hunks };
+
+  let content = file.content;
+  const rejected: PatchHunk[] = [];
+
+  for (const hunk of hunks) {
+    const index = hunk.search ? content.indexOf(hunk.search) : -1;
+    if (index === -1 || content.indexOf(hunk.search, index + 1) !== -1) {
+      rejected.push(hunk);
+      continue;
+    }
+    content = content.substring(0, index) + hunk.replace + content.substring(index + hunk.search.length);
+  }
+
+  if (rejected.length === hunks.length) return { files: currentFiles, operation: null, rejected };
+
+  const operation: FileOperation = { operation: 'UPDATE', path, content, ...(rejected.length > 0 && { rejectedHunks: rejected }) };
+  return { files: applyOperation(currentFiles, operation), operation, rejected };
+};
+
 const CollapsibleSection: React.FC<{ title: string; children: React.ReactNode, icon: React.ReactNode }> = ({ title, icon, children }) => (
     <details className="mt-3 border-t border-slate-600/50 pt-3 group" open>
         <summary className="list-none flex items-center gap-2 cursor-pointer text-sm font-medium text-slate-400 hover:text-slate-200 transition-colors">
@@ -112,6 +165,11 @@ const FileOperationsSummary: React.FC<{ operations: FileOperation[] }> = ({ oper
                     <li key={index} className="flex items-center gap-3 text-sm">
                         {getIcon(op.operation)}
                         <span className="font-mono text-slate-400 break-all">{op.path}</span>
+                        {op.rejectedHunks && op.rejectedHunks.length > 0 && (
+                            <span className="ml-auto flex items-center gap-1 text-xs text-amber-400 flex-shrink-0" title="Bagian patch yang tidak cocok dengan isi file dan tidak diterapkan">
+                                <AlertTriangleIcon className="w-4 h-4" /> {op.rejectedHunks.length} ditolak
+                            </span>
+                        )}
                     </li>
                 ))}
             </ul>
@@ -119,7 +177,15 @@ const FileOperationsSummary: React.FC<{ operations: FileOperation[] }> = ({ oper
     );
 };
 
-const ChatWindow: React.FC<{ chatHistory: ChatMessage[], isLoading: boolean }> = ({ chatHistory, isLoading }) => {
+interface ChatWindowProps {
+    chatHistory: ChatMessage[];
+    isLoading: boolean;
+    /** Shown on the last assistant message when set, e.g. "Regenerate with GPT-5 Nano". */
+    regenerateLabel?: string;
+    onRegenerate?: () => void;
+}
+
+const ChatWindow: React.FC<ChatWindowProps> = ({ chatHistory, isLoading, regenerateLabel, onRegenerate }) => {
     const chatEndRef = useRef<HTMLDivElement>(null);
     useEffect(() => {
         chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -146,6 +212,11 @@ const ChatWindow: React.FC<{ chatHistory: ChatMessage[], isLoading: boolean }> =
                             ) : isLoading && isLastMessage ? <TypingIndicator /> : null}
                             <ThinkingLog thoughts={msg.thoughts || []} isThinking={isThinking} />
                             <FileOperationsSummary operations={msg.operations || []} />
+                            {isLastMessage && msg.role === 'assistant' && !isLoading && onRegenerate && (
+                                <button onClick={onRegenerate} className="mt-3 flex items-center gap-1.5 text-xs text-slate-400 hover:text-white transition-colors" title={regenerateLabel}>
+                                    <RefreshIcon className="w-4 h-4" /> Regenerate
+                                </button>
+                            )}
                         </div>
                         {msg.role === 'user' && (
                           <div className="w-8 h-8 rounded-full bg-slate-600 flex items-center justify-center flex-shrink-0 mt-1">
@@ -161,18 +232,19 @@ const ChatWindow: React.FC<{ chatHistory: ChatMessage[], isLoading: boolean }> =
 }
 
 const ModelSelector: React.FC<{
+    models: AiModelInfo[];
     selectedModel: AiModel;
     setSelectedModel: (model: AiModel) => void;
     isLoading: boolean;
     isMobile?: boolean;
-}> = ({ selectedModel, setSelectedModel, isLoading, isMobile }) => {
+}> = ({ models, selectedModel, setSelectedModel, isLoading, isMobile }) => {
     const [isOpen, setIsOpen] = useState(false);
     const [search, setSearch] = useState('');
     const wrapperRef = useRef<HTMLDivElement>(null);
 
     const filteredModels = useMemo(() => 
-        aiModels.filter(m => m.name.toLowerCase().includes(search.toLowerCase())),
-        [search]
+        models.filter(m => m.name.toLowerCase().includes(search.toLowerCase())),
+        [models, search]
     );
 
     useEffect(() => {
@@ -185,7 +257,7 @@ const ModelSelector: React.FC<{
         return () => document.removeEventListener("mousedown", handleClickOutside);
     }, []);
 
-    const selectedModelName = aiModels.find(m => m.id === selectedModel)?.name || 'Select Model';
+    const selectedModelName = models.find(m => m.id === selectedModel)?.name || 'Select Model';
 
     return (
         <div className="relative" ref={wrapperRef}>
@@ -231,34 +303,56 @@ const ModelSelector: React.FC<{
 
 interface ChatInputProps {
   isMobile?: boolean;
+  models: AiModelInfo[];
   selectedModel: AiModel;
   setSelectedModel: (model: AiModel) => void;
+  isReviewMode: boolean;
+  setIsReviewMode: (enabled: boolean) => void;
+  isAutoFixMode: boolean;
+  setIsAutoFixMode: (enabled: boolean) => void;
   isLoading: boolean;
   userInput: string;
   setUserInput: (input: string) => void;
   handleSendMessage: () => void;
+  handleStop: () => void;
   handleNewChat: () => void;
 }
 
 const ChatInput: React.FC<ChatInputProps> = ({
   isMobile,
+  models,
   selectedModel,
   setSelectedModel,
+  isReviewMode,
+  setIsReviewMode,
+  isAutoFixMode,
+  setIsAutoFixMode,
   isLoading,
   userInput,
   setUserInput,
   handleSendMessage,
+  handleStop,
   handleNewChat,
 }) => (
    <div className={`flex flex-col gap-2 p-2 bg-slate-800/50 border border-slate-700 rounded-xl ${isMobile ? 'bg-slate-800/95 backdrop-blur-sm !rounded-none !border-none !border-t !border-slate-700' : ''}`}>
       <div className="flex items-center gap-2 px-1">
           <label className="text-xs font-medium text-slate-400">Model:</label>
-          <ModelSelector selectedModel={selectedModel} setSelectedModel={setSelectedModel} isLoading={isLoading} isMobile={isMobile} />
+          <ModelSelector models={models} selectedModel={selectedModel} setSelectedModel={setSelectedModel} isLoading={isLoading} isMobile={isMobile} />
+          <label className="flex items-center gap-1.5 text-xs font-medium text-slate-400 ml-auto flex-shrink-0 cursor-pointer" title="Tinjau setiap perubahan file dari AI sebelum diterapkan">
+              <input type="checkbox" checked={isReviewMode} onChange={(e) => setIsReviewMode(e.target.checked)} disabled={isLoading} className="accent-indigo-500" />
+              Review
+          </label>
+          <label className="flex items-center gap-1.5 text-xs font-medium text-slate-400 flex-shrink-0 cursor-pointer" title={`Jalankan pratinjau setelah AI mengubah file dan minta AI memperbaiki error yang muncul (maksimal ${MAX_AUTO_FIX_ROUNDS} kali). Tidak berlaku dalam mode Review.`}>
+              <input type="checkbox" checked={isAutoFixMode} onChange={(e) => setIsAutoFixMode(e.target.checked)} disabled={isLoading} className="accent-indigo-500" />
+              Auto-fix
+          </label>
       </div>
       <div className="flex gap-2">
           <textarea value={userInput} onChange={(e) => setUserInput(e.target.value)} placeholder="Describe your changes..." className="flex-1 bg-slate-700/50 border border-slate-600 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-none" rows={isMobile ? 1 : 2} disabled={isLoading} onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSendMessage(); } }} />
           <div className={`flex gap-2 ${isMobile ? 'flex-col-reverse' : 'flex-col'}`}>
-              <button onClick={handleSendMessage} disabled={isLoading || !userInput.trim()} className="p-3 bg-gradient-to-br from-indigo-500 to-purple-600 text-white rounded-lg disabled:from-slate-600 disabled:to-slate-600 disabled:cursor-not-allowed hover:from-indigo-600 hover:to-purple-700 transition-all flex-1 flex justify-center items-center" aria-label="Send message"><SendIcon className="w-5 h-5" /></button>
+              {isLoading
+                  ? <button onClick={handleStop} className="p-3 bg-red-600 text-white rounded-lg hover:bg-red-500 transition-all flex-1 flex justify-center items-center" aria-label="Stop generating" title="Stop"><StopIcon className="w-5 h-5" /></button>
+                  : <button onClick={handleSendMessage} disabled={!userInput.trim()} className="p-3 bg-gradient-to-br from-indigo-500 to-purple-600 text-white rounded-lg disabled:from-slate-600 disabled:to-slate-600 disabled:cursor-not-allowed hover:from-indigo-600 hover:to-purple-700 transition-all flex-1 flex justify-center items-center" aria-label="Send message"><SendIcon className="w-5 h-5" /></button>}
               {!isMobile && <button onClick={handleNewChat} disabled={isLoading} className="p-3 bg-slate-600 text-white rounded-lg disabled:bg-slate-700 disabled:cursor-not-allowed hover:bg-slate-500 transition-all flex-1 flex justify-center items-center" aria-label="Start new chat" title="New Chat"><RefreshIcon className="w-5 h-5" /></button>}
           </div>
       </div>
@@ -274,9 +368,9 @@ interface BottomNavProps {
 
 const BottomNav: React.FC<BottomNavProps> = ({ mobileView, setMobileView, selectedFilePath }) => (
   <div className="lg:hidden fixed bottom-0 left-0 right-0 bg-slate-800/80 backdrop-blur-sm border-t border-slate-700 flex justify-around p-1 z-40">
-      {(['files', 'editor', 'chat'] as MobileView[]).map(view => {
+      {(['files', 'editor', 'preview', 'chat'] as MobileView[]).map(view => {
           const isDisabled = view === 'editor' && !selectedFilePath;
-          const Icon = { files: CodeIcon, editor: EditIcon, chat: BotIcon }[view];
+          const Icon = { files: CodeIcon, editor: EditIcon, preview: EyeIcon, chat: BotIcon }[view];
           return (
               <button key={view} disabled={isDisabled} onClick={() => setMobileView(view)} className={`flex flex-col items-center gap-1 p-2 rounded-md w-20 transition-colors ${mobileView === view ? 'text-indigo-400' : 'text-slate-400 hover:text-white'} disabled:opacity-50`}>
                   <Icon className="w-6 h-6" />
@@ -295,19 +389,41 @@ const ProjectEditor: React.FC<ProjectEditorProps> = ({ projectId, onBack }) => {
   const [error, setError] = useState<string | null>(null);
   const [toasts, setToasts] = useState<ToastType[]>([]);
   const [selectedFilePath, setSelectedFilePath] = useState<string | null>(null);
-  const [editorContent, setEditorContent] = useState<string>('');
-  const [isEditorDirty, setIsEditorDirty] = useState(false);
+  const [openTabs, setOpenTabs] = useState<EditorTab[]>([]);
+  const [tabConflicts, setTabConflicts] = useState<TabConflict[]>([]);
+  // Mirrors openTabs so several updates before the next render (e.g. while the AI streams) build on each other.
+  const openTabsRef = useRef<EditorTab[]>([]);
   
   const [mainView, setMainView] = useState<MainView>('chat');
   const [mobileView, setMobileView] = useState<MobileView>('chat');
   const [sidebarWidth, setSidebarWidth] = useState(280);
+  const [isPreviewOpen, setIsPreviewOpen] = useState(() => localStorage.getItem(PREVIEW_PANE_STORAGE_KEY) === 'true');
+  const [previewWidth, setPreviewWidth] = useState(480);
+  const [isResizingPreview, setIsResizingPreview] = useState(false);
   
   const [isEditorFullscreen, setIsEditorFullscreen] = useState(false);
   const [isPublishing, setIsPublishing] = useState(false);
   const [publishedUrl, setPublishedUrl] = useState('');
   const [isShareModalOpen, setIsShareModalOpen] = useState(false);
+  const [isSharingSnapshot, setIsSharingSnapshot] = useState(false);
+  const [snapshotUrl, setSnapshotUrl] = useState('');
+  const [isBuildModalOpen, setIsBuildModalOpen] = useState(false);
+  const [isPublishModalOpen, setIsPublishModalOpen] = useState(false);
+  const [buildSettings, setBuildSettings] = useState<BuildSettings>(() => parseBuildSettings(localStorage.getItem(BUILD_SETTINGS_STORAGE_KEY)));
+  const [models, setModels] = useState<AiModelInfo[]>([]);
   const [selectedModel, setSelectedModel] = useState<AiModel>('gpt-5-nano');
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [snapshots, setSnapshots] = useState<ProjectSnapshot[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [snapshotToRestore, setSnapshotToRestore] = useState<ProjectSnapshot | null>(null);
+  const [restoringSnapshotId, setRestoringSnapshotId] = useState<string | null>(null);
+  const [isReviewMode, setIsReviewMode] = useState(() => localStorage.getItem(REVIEW_MODE_STORAGE_KEY) === 'true');
+  const [isAutoFixMode, setIsAutoFixMode] = useState(() => localStorage.getItem(AUTO_FIX_STORAGE_KEY) === 'true');
+  const [pendingReview, setPendingReview] = useState<PendingReview | null>(null);
+  const [pendingStop, setPendingStop] = useState<PendingStop | null>(null);
+  const [pathToDelete, setPathToDelete] = useState<{ path: string; isFolder: boolean } | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const lastTurnRef = useRef<LastTurn | null>(null);
   const mobileMenuRef = useRef<HTMLDivElement>(null);
   const { user, isSignedIn, isLoading: isAuthLoading, signOut } = useAuth();
 
@@ -321,6 +437,31 @@ const ProjectEditor: React.FC<ProjectEditorProps> = ({ projectId, onBack }) => {
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
+  useEffect(() => {
+    localStorage.setItem(REVIEW_MODE_STORAGE_KEY, String(isReviewMode));
+  }, [isReviewMode]);
+
+  useEffect(() => {
+    localStorage.setItem(AUTO_FIX_STORAGE_KEY, String(isAutoFixMode));
+  }, [isAutoFixMode]);
+
+  useEffect(() => {
+    localStorage.setItem(PREVIEW_PANE_STORAGE_KEY, String(isPreviewOpen));
+  }, [isPreviewOpen]);
+
+  useEffect(() => {
+    localStorage.setItem(BUILD_SETTINGS_STORAGE_KEY, JSON.stringify(buildSettings));
+  }, [buildSettings]);
+
+  useEffect(() => {
+    listAiModels()
+      .then(available => {
+        setModels(available);
+        setSelectedModel(current => available.some(m => m.id === current) ? current : available[0]?.id || current);
+      })
+      .catch(err => console.error('Could not load AI models:', err));
+  }, []);
+
   const showToast = useCallback((message: string, type: ToastType['type'] = 'info') => {
     const newToast: ToastType = { id: Date.now(), message, type };
     setToasts(prev => [...prev, newToast]);
@@ -336,71 +477,293 @@ const ProjectEditor: React.FC<ProjectEditorProps> = ({ projectId, onBack }) => {
 
   useEffect(() => {
     getProject(projectId).then(p => {
-        if (p) {
-            const projectWithDefaults: Project = { ...p, template: p.template || 'blank', styleLibrary: p.styleLibrary || 'none', currentSessionId: p.currentSessionId || Math.random().toString(36).substring(2, 9) };
-            setProject(projectWithDefaults);
-            if (!p.template || !p.styleLibrary || !p.currentSessionId) saveProject(projectWithDefaults);
-        } else setError(`Project tidak ditemukan.`);
+        if (p) setProject(p);
+        else setError(`Project tidak ditemukan.`);
     }).catch(err => setError(`Gagal memuat proyek: ${err instanceof Error ? err.message : 'Terjadi kesalahan.'}`));
+    getSnapshots(projectId).then(setSnapshots);
+  }, [projectId]);
+
+  const recordSnapshot = useCallback(async (files: ProjectFile[], trigger: SnapshotTrigger, message: string) => {
+    try {
+      setSnapshots(await createSnapshot(projectId, files, { trigger, message }));
+    } catch (e) {
+      console.error('Failed to record project snapshot:', e);
+    }
   }, [projectId]);
 
+  const updateTabs = useCallback((update: (tabs: EditorTab[]) => EditorTab[]) => {
+    openTabsRef.current = update(openTabsRef.current);
+    setOpenTabs(openTabsRef.current);
+  }, []);
+
+  /** Brings open tabs up to date with `files`; see TabSyncMode for what happens to unsaved edits. */
+  const syncTabsWithFiles = useCallback((files: ProjectFile[], mode: TabSyncMode) => {
+    const dirtyPaths = new Set(openTabsRef.current.filter(t => t.isDirty).map(t => t.path));
+    const result = syncTabs(openTabsRef.current, files, mode);
+    updateTabs(() => result.tabs);
+    if (mode === 'external') setTabConflicts(prev => [...prev.filter(c => !dirtyPaths.has(c.path)), ...result.conflicts]);
+    if (mode === 'discard') setTabConflicts([]);
+  }, [updateTabs]);
+
+  const activeTab = openTabs.find(t => t.path === selectedFilePath) || null;
+  const hasDirtyTabs = openTabs.some(t => t.isDirty);
+
+  // The live preview shows the files as they are in memory, including unsaved edits and
+  // files the AI is still writing.
+  const previewFiles = useMemo(() => {
+    const files = project?.files || [];
+    const edited = new Map(openTabs.filter(t => t.isDirty).map(t => [t.path, t.content]));
+    if (edited.size === 0) return files;
+    const result = files.map(f => edited.has(f.path) ? { path: f.path, content: edited.get(f.path)! } : f);
+    return [...result, ...[...edited].filter(([path]) => !files.some(f => f.path === path)).map(([path, content]) => ({ path, content }))];
+  }, [project?.files, openTabs]);
+
+  // When the active tab goes away (closed, or its file deleted), fall back to the last open tab.
+  useEffect(() => {
+    if (selectedFilePath && !openTabs.some(t => t.path === selectedFilePath)) {
+      setSelectedFilePath(openTabs.length > 0 ? openTabs[openTabs.length - 1].path : null);
+    }
+  }, [openTabs, selectedFilePath]);
+
   const handleSelectFile = useCallback((path: string) => {
-    if (isEditorDirty && !confirm('Anda memiliki perubahan yang belum disimpan. Beralih dan buang perubahan?')) return;
-    
     const file = project?.files.find(f => f.path === path);
     if (file) {
+      updateTabs(tabs => tabs.some(t => t.path === path) ? tabs : [...tabs, createTab(file)]);
       setSelectedFilePath(path);
-      setEditorContent(file.content);
-      setIsEditorDirty(false);
       setMainView('editor');
       if (window.innerWidth < 1024) setMobileView('editor');
     }
-  }, [project, isEditorDirty]);
+  }, [project, updateTabs]);
 
-  const handleEditorChange = (newContent: string) => { setEditorContent(newContent); setIsEditorDirty(true); };
-  
-  const handleSaveFile = useCallback(async (options: { signal?: boolean } = {}) => {
+  const handleCloseTabs = useCallback((paths: string[]) => {
+    const closing = openTabsRef.current.filter(t => paths.includes(t.path));
+    const dirty = closing.filter(t => t.isDirty);
+    if (dirty.length > 0 && !confirm(`Perubahan yang belum disimpan akan dibuang:\n${dirty.map(t => t.path).join('\n')}\n\nTutup tetap?`)) return;
+    if (paths.includes(selectedFilePath || '')) {
+      // Activate the neighbour of the closed tab, like most editors do.
+      const index = openTabsRef.current.findIndex(t => t.path === selectedFilePath);
+      const remaining = openTabsRef.current.filter(t => !paths.includes(t.path));
+      setSelectedFilePath(remaining[Math.min(index, remaining.length - 1)]?.path ?? null);
+    }
+    updateTabs(tabs => tabs.filter(t => !paths.includes(t.path)));
+    setTabConflicts(prev => prev.filter(c => !paths.includes(c.path)));
+  }, [selectedFilePath, updateTabs]);
+
+  const handleEditorChange = (newContent: string) => {
+    updateTabs(tabs => tabs.map(t => t.path === selectedFilePath ? { ...t, content: newContent, isDirty: newContent !== t.baseContent } : t));
+  };
+
+  /**
+   * Saves the unsaved tabs among `paths` in one project save and one history entry.
+   * Returns the saved project, or the current one if there was nothing to save.
+   */
+  const saveTabs = useCallback(async (paths: string[], options: { signal?: boolean } = {}): Promise<Project | null> => {
     const { signal = true } = options;
-    if (!project || !selectedFilePath || !isEditorDirty) return;
-    const updatedFiles = project.files.map(f => f.path === selectedFilePath ? { ...f, content: editorContent } : f);
+    const dirty = openTabsRef.current.filter(t => t.isDirty && paths.includes(t.path));
+    if (!project || dirty.length === 0) return project;
+    let updatedFiles = project.files;
+    for (const tab of dirty) {
+      // A file deleted by the AI whose edits were kept is created again.
+      updatedFiles = updatedFiles.some(f => f.path === tab.path)
+        ? updatedFiles.map(f => f.path === tab.path ? { ...f, content: tab.content } : f)
+        : [...updatedFiles, { path: tab.path, content: tab.content }];
+    }
     const updatedProject = { ...project, files: updatedFiles, updatedAt: Date.now() };
     setProject(updatedProject);
     await saveProject(updatedProject);
-    setIsEditorDirty(false);
-    showToast(`${selectedFilePath} saved successfully!`, 'success');
+    const saved = new Map(dirty.map(t => [t.path, t.content]));
+    // Edits typed while saving stay unsaved.
+    updateTabs(tabs => tabs.map(t => saved.get(t.path) === t.content ? { ...t, baseContent: t.content, isDirty: false } : t));
+    const names = dirty.map(t => t.path).join(', ');
+    showToast(dirty.length === 1 ? `${names} saved successfully!` : `${dirty.length} files saved successfully!`, 'success');
     if (signal) signalPreviewUpdate(project.id);
-  }, [project, selectedFilePath, editorContent, isEditorDirty, showToast]);
-  
-  const handleSendMessage = useCallback(async () => {
-      if (!userInput.trim() || !project) return;
-      if (isEditorDirty && confirm('Anda punya perubahan belum disimpan. Simpan sebelum mengirim pesan?')) await handleSaveFile({ signal: false });
+    await recordSnapshot(updatedFiles, 'manual', `Manual save: ${names}`);
+    return updatedProject;
+  }, [project, updateTabs, showToast, recordSnapshot]);
 
-      const userGoal = userInput;
+  const handleSaveFile = useCallback(() => saveTabs(selectedFilePath ? [selectedFilePath] : []), [saveTabs, selectedFilePath]);
+  const handleSaveAll = useCallback(() => saveTabs(openTabsRef.current.map(t => t.path)), [saveTabs]);
+
+  const handleResolveConflict = useCallback((choice: ConflictChoice) => {
+    const conflict = tabConflicts[0];
+    const tab = conflict && openTabsRef.current.find(t => t.path === conflict.path);
+    setTabConflicts(prev => prev.slice(1));
+    if (!conflict || !tab) return;
+    const resolved = resolveConflict(tab, conflict, choice);
+    updateTabs(tabs => resolved.tab ? tabs.map(t => t.path === conflict.path ? resolved.tab! : t) : tabs.filter(t => t.path !== conflict.path));
+    if (resolved.conflicts > 0) {
+      setSelectedFilePath(conflict.path);
+      setMainView('editor');
+      showToast(`${resolved.conflicts} overlapping change(s) in ${conflict.path} are marked. Resolve them, then save.`, 'info');
+    }
+  }, [tabConflicts, updateTabs, showToast]);
+
+  const handleUploadFiles = useCallback(async (uploads: FileUpload[]) => {
+    if (!project || isLoading) return;
+    const tooLarge = uploads.filter(u => u.file.size > MAX_UPLOAD_BYTES);
+    if (tooLarge.length > 0) showToast(`Skipped files larger than 5 MB: ${tooLarge.map(u => u.file.name).join(', ')}`, 'error');
+
+    let accepted = uploads.filter(u => u.file.size <= MAX_UPLOAD_BYTES);
+    const existing = accepted.filter(u => project.files.some(f => f.path === u.path));
+    if (existing.length > 0 && !confirm(`Timpa file yang sudah ada?\n${existing.map(u => u.path).join('\n')}`)) {
+      accepted = accepted.filter(u => !existing.includes(u));
+    }
+    if (accepted.length === 0) return;
+
+    try {
+      const uploaded = await Promise.all(accepted.map(u => readUploadedFile(u.file, u.path)));
+      const uploadedPaths = new Set(uploaded.map(f => f.path));
+      const updatedFiles = [...project.files.filter(f => !uploadedPaths.has(f.path)), ...uploaded];
+      const updatedProject = { ...project, files: updatedFiles, updatedAt: Date.now() };
+      setProject(updatedProject);
+      await saveProject(updatedProject);
+      signalPreviewUpdate(project.id);
+      syncTabsWithFiles(updatedFiles, 'keep');
+      await recordSnapshot(updatedFiles, 'manual', `Upload: ${uploaded.map(f => f.path).join(', ')}`);
+      showToast(uploaded.length === 1 ? `${uploaded[0].path} uploaded (${Math.ceil(getFileSize(uploaded[0]) / 1024)} KB).` : `${uploaded.length} files uploaded.`, 'success');
+    } catch (e) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error.';
+      showToast(`Upload failed: ${errorMessage}`, 'error');
+    }
+  }, [project, isLoading, syncTabsWithFiles, recordSnapshot, showToast]);
+
+  /**
+   * Saves a file tree change made from the FileTree (create, rename, move, delete).
+   * Empty folders are kept in `project.folders`; snapshots only track files.
+   */
+  const saveTreeChange = useCallback(async (tree: ProjectTree, message: string, successToast: string) => {
+    if (!project) return;
+    const filesChanged = tree.files !== project.files;
+    const updatedProject = { ...project, files: tree.files, folders: tree.folders, updatedAt: Date.now() };
+    setProject(updatedProject);
+    try {
+      await saveProject(updatedProject);
+      if (filesChanged) {
+        signalPreviewUpdate(project.id);
+        await recordSnapshot(tree.files, 'manual', message);
+      }
+      showToast(successToast, 'success');
+    } catch (e) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error.';
+      showToast(`Failed to save changes: ${errorMessage}`, 'error');
+    }
+  }, [project, recordSnapshot, showToast]);
+
+  const getTree = useCallback((): ProjectTree | null => project ? { files: project.files, folders: project.folders || [] } : null, [project]);
+
+  /** Normalizes a path typed in the FileTree and checks that nothing exists there yet. */
+  const validateNewPath = useCallback((tree: ProjectTree, input: string, currentPath?: string): string | null => {
+    try {
+      const path = normalizeNewPath(input);
+      if (path !== currentPath && pathExists(tree, path)) throw new Error(`"${path}" sudah ada.`);
+      return path;
+    } catch (e) {
+      showToast(e instanceof Error ? e.message : String(e), 'error');
+      return null;
+    }
+  }, [showToast]);
+
+  const handleCreateFile = useCallback(async (input: string) => {
+    const tree = getTree();
+    if (!tree || isLoading) return;
+    const path = validateNewPath(tree, input);
+    if (!path) return;
+    await saveTreeChange(addFile(tree, path), `Create file: ${path}`, `${path} created.`);
+    updateTabs(tabs => [...tabs, createTab({ path, content: '' })]);
+    setSelectedFilePath(path);
+    setMainView('editor');
+    if (window.innerWidth < 1024) setMobileView('editor');
+  }, [getTree, isLoading, validateNewPath, saveTreeChange, updateTabs]);
+
+  const handleCreateFolder = useCallback(async (input: string) => {
+    const tree = getTree();
+    if (!tree || isLoading) return;
+    const path = validateNewPath(tree, input);
+    if (path) await saveTreeChange(addFolder(tree, path), `Create folder: ${path}`, `Folder ${path} created.`);
+  }, [getTree, isLoading, validateNewPath, saveTreeChange]);
+
+  const handleMovePath = useCallback(async (from: string, input: string) => {
+    const tree = getTree();
+    if (!tree || isLoading) return;
+    const to = validateNewPath(tree, input, from);
+    if (!to || to === from) return;
+    if (to.startsWith(`${from}/`)) {
+      showToast('Folder tidak dapat dipindahkan ke dalam dirinya sendiri.', 'error');
+      return;
+    }
+
+    const referenceCount = countReferenceUpdates(tree, from, to);
+    const updateReferences = referenceCount > 0 && confirm(`Perbarui ${referenceCount} file yang mereferensikan "${from}" agar mengarah ke "${to}"?`);
+    const moved = movePath(tree, from, to, updateReferences);
+    const isRename = from.substring(0, from.lastIndexOf('/') + 1) === to.substring(0, to.lastIndexOf('/') + 1);
+    await saveTreeChange(moved, `${isRename ? 'Rename' : 'Move'}: ${from} → ${to}`,
+      `${from} ${isRename ? 'renamed' : 'moved'} to ${to}${moved.updatedFiles.length > 0 ? ` (${moved.updatedFiles.length} files updated)` : ''}.`);
+
+    // Open tabs follow their files to the new location, keeping unsaved edits.
+    updateTabs(tabs => syncTabs(renameTabs(tabs, from, to), moved.files, 'keep').tabs);
+    if (selectedFilePath && (selectedFilePath === from || selectedFilePath.startsWith(`${from}/`))) {
+      setSelectedFilePath(to + selectedFilePath.substring(from.length));
+    }
+  }, [getTree, isLoading, selectedFilePath, validateNewPath, saveTreeChange, updateTabs, showToast]);
+
+  const handleConfirmDeletePath = useCallback(async () => {
+    const target = pathToDelete;
+    setPathToDelete(null);
+    const tree = getTree();
+    if (!tree || !target || isLoading) return;
+    await saveTreeChange(deletePath(tree, target.path), `Delete: ${target.path}`, `${target.path} deleted.`);
+    updateTabs(tabs => closeTabsInside(tabs, target.path));
+  }, [pathToDelete, getTree, isLoading, saveTreeChange, updateTabs]);
+
+  const persistTurn = useCallback(async (updatedProject: Project, userGoal: string) => {
+      setProject(updatedProject);
+      await saveProject(updatedProject);
+      signalPreviewUpdate(updatedProject.id);
+      await recordSnapshot(updatedProject.files, 'ai', userGoal);
+  }, [recordSnapshot]);
+
+  /**
+   * Runs one AI turn for `userGoal` on top of `baseProject` (its files and chat history).
+   */
+  const runAgentTurn = useCallback(async (userGoal: string, baseProject: Project, model: string) => {
       setIsLoading(true);
+      // Make sure the state before the very first AI turn can always be restored.
+      if (snapshots.length === 0) await recordSnapshot(baseProject.files, 'manual', 'Initial state');
+
       setError(null);
-      setUserInput('');
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      lastTurnRef.current = { projectId: baseProject.id, historyLength: baseProject.chatHistory.length, baseFiles: baseProject.files };
 
-      const userMessage: ChatMessage = { role: 'user', content: userGoal };
-      const assistantPlaceholder: ChatMessage = { role: 'assistant', content: null, thoughts: [], operations: [] };
+      const userMessage: ChatMessage = { role: 'user', content: userGoal, sessionId: baseProject.currentSessionId };
+      const assistantPlaceholder: ChatMessage = { role: 'assistant', content: null, thoughts: [], operations: [], sessionId: baseProject.currentSessionId };
 
-      // Use a ref to get the latest project state for the stream
-      const projectAtRequestTime = { ...project, chatHistory: [...project.chatHistory, userMessage, assistantPlaceholder] };
+      const projectAtRequestTime = { ...baseProject, chatHistory: [...baseProject.chatHistory, userMessage, assistantPlaceholder] };
       setProject(projectAtRequestTime);
+      syncTabsWithFiles(projectAtRequestTime.files, 'external');
 
+      const reviewThisTurn = isReviewMode;
+      const autoFixThisTurn = isAutoFixMode && !reviewThisTurn;
       let tempFiles = projectAtRequestTime.files;
       let finalExplanation = '';
       const finalThoughts: string[] = [];
       const finalOperations: FileOperation[] = [];
+      // One operation per path changed in tempFiles, against the files at request time; in review
+      // mode these are staged for approval.
+      let stagedOperations: FileOperation[] = [];
+      let changeCount = 0;
 
-      try {
-          const stream = streamAIAgentResponse(userGoal, tempFiles, projectAtRequestTime.template, projectAtRequestTime.styleLibrary, selectedModel);
+      const addThought = (thought: string) => {
+          finalThoughts.push(thought);
+          setProject(p => p ? { ...p, chatHistory: p.chatHistory.map((msg, i) => i === p.chatHistory.length - 1 ? { ...msg, thoughts: [...(msg.thoughts || []), thought] } : msg) } : null);
+      };
 
+      const consumeStream = async (stream: AsyncGenerator<StreamChunk>) => {
           for await (const chunk of stream) {
               if (chunk.type === 'thought') {
-                  finalThoughts.push(chunk.content);
-                  setProject(p => p ? { ...p, chatHistory: p.chatHistory.map((msg, i) => i === p.chatHistory.length - 1 ? { ...msg, thoughts: [...(msg.thoughts || []), chunk.content] } : msg) } : null);
+                  addThought(chunk.content);
               } else if (chunk.type === 'explanation') {
-                  finalExplanation += chunk.content;
+                  finalExplanation += `${finalExplanation ? '\n\n' : ''}${chunk.content}`;
                   setProject(p => p ? { ...p, chatHistory: p.chatHistory.map((msg, i) => i === p.chatHistory.length - 1 ? { ...msg, content: finalExplanation } : msg) } : null);
               } else if (chunk.type === 'file' && chunk.path) {
                   const isExisting = tempFiles.some(f => f.path === chunk.path);
@@ -410,30 +773,94 @@ const ProjectEditor: React.FC<ProjectEditorProps> = ({ projectId, onBack }) => {
                       content: chunk.content === 'DELETE' ? '' : chunk.content,
                   };
                   finalOperations.push(operation);
+                  stagedOperations = stageOperation(stagedOperations, operation, projectAtRequestTime.files);
+                  changeCount++;
                   tempFiles = applyOperation(tempFiles, operation);
+                  if (reviewThisTurn) continue;
 
                   setProject(p => p ? { ...p, files: tempFiles } : null);
+                  syncTabsWithFiles(tempFiles, 'external');
+              } else if (chunk.type === 'patch' && chunk.path) {
+                  const patchPath = chunk.path;
+                  const hunks = chunk.hunks || [];
+                  const { files, operation, rejected } = applyPatch(tempFiles, patchPath, hunks);
 
-                  if (chunk.path === selectedFilePath) {
-                      if (chunk.content === 'DELETE') {
-                          setSelectedFilePath(null); setEditorContent('');
-                      } else { setEditorContent(chunk.content); }
-                      setIsEditorDirty(false);
+                  if (operation) {
+                      finalOperations.push(operation);
+                      stagedOperations = stageOperation(stagedOperations, operation, projectAtRequestTime.files);
+                      changeCount++;
+                      tempFiles = files;
+                      if (!reviewThisTurn) {
+                          setProject(p => p ? { ...p, files: tempFiles } : null);
+                          syncTabsWithFiles(tempFiles, 'external');
+                      }
+                  } else {
+                      finalOperations.push({ operation: 'UPDATE', path: patchPath, content: tempFiles.find(f => f.path === patchPath)?.content, rejectedHunks: rejected });
                   }
+
+                  if (rejected.length > 0) {
+                      showToast(`${rejected.length} dari ${hunks.length} bagian patch untuk ${patchPath} tidak cocok dan ditolak.`, 'error');
+                  }
+              } else if (chunk.type === 'incomplete' && chunk.path) {
+                  // A truncated block must never replace a good file; report it instead.
+                  finalExplanation += `${finalExplanation ? '\n\n' : ''}⚠️ Blok untuk \`${chunk.path}\` terpotong dan tidak diterapkan.`;
+                  setProject(p => p ? { ...p, chatHistory: p.chatHistory.map((msg, i) => i === p.chatHistory.length - 1 ? { ...msg, content: finalExplanation } : msg) } : null);
+                  if (!controller.signal.aborted) showToast(`${chunk.path} was cut off by the AI and was not applied.`, 'error');
               } else if (chunk.type === 'error') {
                   throw new Error(chunk.content);
               }
           }
-          
+      };
+
+      try {
+          await consumeStream(streamAIAgentResponse(userGoal, tempFiles, projectAtRequestTime.template, projectAtRequestTime.styleLibrary, model, baseProject.chatHistory, baseProject.currentSessionId, controller.signal));
+
+          // Run the result in a hidden preview and feed any errors back to the model.
+          for (let round = 0; autoFixThisTurn && changeCount > 0 && !controller.signal.aborted; round++) {
+              addThought('Menjalankan pratinjau untuk memeriksa error...');
+              const previewErrors = await collectPreviewErrors(tempFiles);
+              if (controller.signal.aborted) break;
+              if (previewErrors.length === 0) {
+                  addThought('✅ Pratinjau berjalan tanpa error.');
+                  break;
+              }
+              if (round === MAX_AUTO_FIX_ROUNDS) {
+                  addThought(`⚠️ Masih ada ${previewErrors.length} error setelah ${MAX_AUTO_FIX_ROUNDS} perbaikan otomatis.`);
+                  break;
+              }
+
+              addThought(`🔁 Perbaikan otomatis ${round + 1}/${MAX_AUTO_FIX_ROUNDS}: ${previewErrors.length} error ditemukan (${previewErrors[0].message}${previewErrors.length > 1 ? ', …' : ''})`);
+              const changesBefore = changeCount;
+              const turnSoFar: ChatMessage = { role: 'assistant', content: finalExplanation, operations: [...finalOperations], sessionId: baseProject.currentSessionId };
+              await consumeStream(streamAIAgentResponse(buildErrorFixGoal(previewErrors), tempFiles, projectAtRequestTime.template, projectAtRequestTime.styleLibrary, model, [...projectAtRequestTime.chatHistory.slice(0, -1), turnSoFar], baseProject.currentSessionId, controller.signal));
+              if (changeCount === changesBefore) {
+                  addThought('AI tidak mengubah file apa pun; perbaikan otomatis dihentikan.');
+                  break;
+              }
+          }
+
+          const wasStopped = controller.signal.aborted;
+          if (wasStopped) finalExplanation += `${finalExplanation ? '\n\n' : ''}⏹️ Dihentikan oleh pengguna.`;
+
           const finalHistory: ChatMessage[] = [
               ...projectAtRequestTime.chatHistory.slice(0, -1),
-              { role: 'assistant', content: finalExplanation, operations: finalOperations, thoughts: finalThoughts }
+              { role: 'assistant', content: finalExplanation, operations: finalOperations, thoughts: finalThoughts, sessionId: baseProject.currentSessionId }
           ];
 
-          const updatedProject = { ...projectAtRequestTime, files: tempFiles, chatHistory: finalHistory, updatedAt: Date.now() };
-          setProject(updatedProject);
-          await saveProject(updatedProject);
-          signalPreviewUpdate(updatedProject.id);
+          if (reviewThisTurn && stagedOperations.length > 0) {
+              setProject(p => p ? { ...p, chatHistory: finalHistory } : null);
+              setPendingReview({ operations: stagedOperations, baseFiles: projectAtRequestTime.files, userGoal, messageIndex: finalHistory.length - 1 });
+              return;
+          }
+
+          if (wasStopped && stagedOperations.length > 0) {
+              // Let the user decide whether the files completed before stopping are kept.
+              setProject(p => p ? { ...p, chatHistory: finalHistory } : null);
+              setPendingStop({ operations: stagedOperations, baseFiles: projectAtRequestTime.files, partialFiles: tempFiles, userGoal, messageIndex: finalHistory.length - 1 });
+              return;
+          }
+
+          await persistTurn({ ...projectAtRequestTime, files: tempFiles, chatHistory: finalHistory, updatedAt: Date.now() }, userGoal);
 
       } catch (err) {
           const errorMessage = err instanceof Error ? err.message : 'An unknown AI error occurred.';
@@ -446,9 +873,135 @@ const ProjectEditor: React.FC<ProjectEditorProps> = ({ projectId, onBack }) => {
               return { ...p, chatHistory: history };
           });
       } finally {
+          abortControllerRef.current = null;
           setIsLoading(false);
       }
-  }, [project, userInput, isEditorDirty, selectedFilePath, selectedModel, handleSaveFile, showToast]);
+  }, [showToast, snapshots, recordSnapshot, isReviewMode, isAutoFixMode, syncTabsWithFiles, persistTurn]);
+
+  /** Offers to save unsaved tabs before an AI turn; returns the project the turn should start from. */
+  const saveBeforeAgentTurn = useCallback(async (): Promise<Project | null> => {
+      if (hasDirtyTabs && confirm('Anda punya perubahan belum disimpan. Simpan sebelum mengirim pesan?')) return saveTabs(openTabsRef.current.map(t => t.path), { signal: false });
+      return project;
+  }, [project, hasDirtyTabs, saveTabs]);
+
+  const handleSendMessage = useCallback(async () => {
+      if (!userInput.trim() || !project || pendingReview || pendingStop) return;
+      const baseProject = await saveBeforeAgentTurn();
+      if (!baseProject) return;
+
+      const userGoal = userInput;
+      setUserInput('');
+      await runAgentTurn(userGoal, baseProject, selectedModel);
+  }, [project, userInput, selectedModel, saveBeforeAgentTurn, pendingReview, pendingStop, runAgentTurn]);
+
+  const handleSendPreviewErrors = useCallback(async (errors: PreviewError[]) => {
+      if (!project || errors.length === 0) return;
+      if (isLoading || pendingReview || pendingStop) {
+          showToast('Wait for the current AI request to finish first.', 'info');
+          return;
+      }
+      const baseProject = await saveBeforeAgentTurn();
+      if (!baseProject) return;
+      setMainView('chat');
+      if (window.innerWidth < 1024) setMobileView('chat');
+      await runAgentTurn(buildErrorFixGoal(errors, 'user'), baseProject, selectedModel);
+  }, [project, isLoading, pendingReview, pendingStop, selectedModel, saveBeforeAgentTurn, runAgentTurn, showToast]);
+
+  const canRegenerate = !pendingReview && !pendingStop && !!project?.chatHistory.some(m => m.role === 'user');
+  const regenerateLabel = `Regenerate with ${models.find(m => m.id === selectedModel)?.name || selectedModel}`;
+
+  const handleStopGeneration = useCallback(() => {
+      abortControllerRef.current?.abort();
+  }, []);
+
+  const handleFinishStop = useCallback(async (keepCompletedFiles: boolean) => {
+      if (!project || !pendingStop) return;
+      const stop = pendingStop;
+      setPendingStop(null);
+
+      const files = keepCompletedFiles ? stop.partialFiles : stop.baseFiles;
+      const chatHistory = keepCompletedFiles
+          ? project.chatHistory
+          : project.chatHistory.map((msg, i) => i === stop.messageIndex ? { ...msg, operations: [] } : msg);
+      syncTabsWithFiles(files, 'external');
+      try {
+          await persistTurn({ ...project, files, chatHistory, updatedAt: Date.now() }, stop.userGoal);
+          showToast(keepCompletedFiles ? 'Completed files were kept.' : 'Changes from the stopped request were rolled back.', 'info');
+      } catch (e) {
+          const errorMessage = e instanceof Error ? e.message : 'Unknown error.';
+          showToast(`Failed to save project: ${errorMessage}`, 'error');
+      }
+  }, [project, pendingStop, syncTabsWithFiles, persistTurn, showToast]);
+
+  const handleRegenerate = useCallback(async () => {
+      if (!project || isLoading || pendingReview || pendingStop) return;
+      const history = project.chatHistory;
+      let lastUserIndex = history.length - 1;
+      while (lastUserIndex >= 0 && history[lastUserIndex].role !== 'user') lastUserIndex--;
+      if (lastUserIndex === -1) return;
+
+      // Start again from the files as they were before the last turn, when still known.
+      const lastTurn = lastTurnRef.current;
+      const baseFiles = lastTurn && lastTurn.projectId === project.id && lastTurn.historyLength === lastUserIndex ? lastTurn.baseFiles : project.files;
+      const userGoal = history[lastUserIndex].content || '';
+      await runAgentTurn(userGoal, { ...project, files: baseFiles, chatHistory: history.slice(0, lastUserIndex) }, selectedModel);
+  }, [project, isLoading, pendingReview, pendingStop, selectedModel, runAgentTurn]);
+
+  const handleFinishReview = useCallback(async (accepted: FileOperation[]) => {
+    if (!project || !pendingReview) return;
+    const review = pendingReview;
+    setPendingReview(null);
+
+    const files = accepted.reduce(applyOperation, project.files);
+    const rejectedPaths = new Set(review.operations.filter(op => !accepted.includes(op)).map(op => op.path));
+    const chatHistory = project.chatHistory.map((msg, i) => i === review.messageIndex
+        ? { ...msg, operations: (msg.operations || []).filter(op => !rejectedPaths.has(op.path)) }
+        : msg);
+    const updatedProject = { ...project, files, chatHistory, updatedAt: Date.now() };
+    setProject(updatedProject);
+
+    syncTabsWithFiles(files, 'external');
+
+    try {
+      await saveProject(updatedProject);
+      if (accepted.length > 0) {
+        signalPreviewUpdate(updatedProject.id);
+        await recordSnapshot(files, 'ai', review.userGoal);
+        showToast(`${accepted.length} of ${review.operations.length} changes applied.`, 'success');
+      } else {
+        showToast('All AI changes were discarded.', 'info');
+      }
+    } catch (e) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error.';
+      showToast(`Failed to save reviewed changes: ${errorMessage}`, 'error');
+    }
+  }, [project, pendingReview, syncTabsWithFiles, recordSnapshot, showToast]);
+
+  const handleConfirmRestore = useCallback(async () => {
+    const snapshot = snapshotToRestore;
+    setSnapshotToRestore(null);
+    if (!project || !snapshot || isLoading) return;
+    setRestoringSnapshotId(snapshot.id);
+    try {
+      const files = await getSnapshotFiles(project.id, snapshot.id);
+      const updatedProject = { ...project, files, updatedAt: Date.now() };
+      setProject(updatedProject);
+      await saveProject(updatedProject);
+      await recordSnapshot(files, 'restore', `Restored version from ${new Date(snapshot.createdAt).toLocaleString()}`);
+
+      // Restoring is an explicit choice, so unsaved edits give way to the restored files.
+      syncTabsWithFiles(files, 'discard');
+
+      signalPreviewUpdate(updatedProject.id);
+      showToast('Version restored successfully!', 'success');
+      setIsHistoryOpen(false);
+    } catch (e) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error.';
+      showToast(`Restore failed: ${errorMessage}`, 'error');
+    } finally {
+      setRestoringSnapshotId(null);
+    }
+  }, [project, snapshotToRestore, isLoading, syncTabsWithFiles, recordSnapshot, showToast]);
 
   const handleNewChat = useCallback(async () => {
     if (!project || isLoading || !confirm('Mulai obrolan baru? Riwayat saat ini akan dihapus.')) return;
@@ -459,37 +1012,25 @@ const ProjectEditor: React.FC<ProjectEditorProps> = ({ projectId, onBack }) => {
 
   const handlePreview = () => window.open(`/#/preview/${project.id}`, '_blank');
   
-  const handlePublish = useCallback(async () => {
+  const handlePublish = useCallback(async (subdomain: string) => {
     if (!project || isPublishing || !puter.hosting) return;
     setIsPublishing(true);
     showToast('Publishing project...', 'info');
-
-    const sanitizedProjectName = project.name.replace(/[^a-zA-Z0-9-_]/g, '-').toLowerCase();
-    const hostingDir = `~/Websites/${sanitizedProjectName}`;
+    const isUpdate = project.publishedSubdomain === subdomain;
 
     try {
-        await puter.fs.mkdir(hostingDir, { createMissingParents: true });
+        const files = buildSettings.useForPublish
+            ? (await buildProject(project.files, buildSettings.options, getSiteUrl(subdomain), project.updatedAt)).files
+            : project.files;
+        const published = await publishSite(project, files, subdomain, buildSettings.useForPublish);
 
-        for (const file of project.files) {
-            await puter.fs.write(`${hostingDir}/${file.path}`, file.content, { createMissingParents: true });
-        }
-
-        let subdomain = project.publishedSubdomain;
+        const updatedProject = { ...project, publishedSubdomain: published.publishedSubdomain, publishHistory: published.publishHistory };
+        setProject(updatedProject);
+        await saveProject(updatedProject);
+        showToast(isUpdate ? 'Website updated successfully!' : 'Website published successfully!', 'success');
 
-        if (subdomain) {
-            showToast('Website updated successfully!', 'success');
-        } else {
-            subdomain = puter.randName();
-            await puter.hosting.create(subdomain, hostingDir);
-            
-            const updatedProject = { ...project, publishedSubdomain: subdomain, updatedAt: Date.now() };
-            setProject(updatedProject);
-            await saveProject(updatedProject);
-            showToast('Website published successfully!', 'success');
-        }
-        
-        const url = `https://${subdomain}.puter.site`;
-        setPublishedUrl(url);
+        setPublishedUrl(getSiteUrl(subdomain));
+        setIsPublishModalOpen(false);
         setIsShareModalOpen(true);
 
     } catch (e) {
@@ -499,17 +1040,54 @@ const ProjectEditor: React.FC<ProjectEditorProps> = ({ projectId, onBack }) => {
     } finally {
         setIsPublishing(false);
     }
+  }, [project, isPublishing, showToast, buildSettings]);
+
+  const handleUnpublish = useCallback(async () => {
+    if (!project || isPublishing || !puter.hosting) return;
+    setIsPublishing(true);
+    try {
+        const unpublished = await unpublishSite(project);
+        setProject(unpublished);
+        await saveProject(unpublished);
+        showToast('Website unpublished.', 'success');
+    } catch (e) {
+        const errorMessage = e instanceof Error ? e.message : 'Unknown error.';
+        showToast(`Unpublishing failed: ${errorMessage}`, 'error');
+        console.error("Unpublishing error:", e);
+    } finally {
+        setIsPublishing(false);
+    }
   }, [project, isPublishing, showToast]);
 
 
-  const handleDownload = async () => {
+  const handleShareSnapshot = async () => {
+    if (!project || isSharingSnapshot) return;
+    if (!confirm('Bagikan snapshot proyek ini? Siapa pun yang memiliki tautannya bisa melihat dan menyalin file proyek (tanpa riwayat obrolan).')) return;
+    setIsSharingSnapshot(true);
+    try {
+      const shareId = await shareSnapshot(project);
+      setSnapshotUrl(getShareUrl(shareId));
+    } catch (e) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error.';
+      showToast(`Sharing failed: ${errorMessage}`, 'error');
+      console.error("Sharing error:", e);
+    } finally {
+      setIsSharingSnapshot(false);
+    }
+  };
+
+  const handleDownload = () => {
     if (!project || project.files.length === 0) { showToast('No files to download.', 'error'); return; }
+    setIsBuildModalOpen(true);
+  };
+
+  const handleDownloadZip = async (files: ProjectFile[], isBuild: boolean) => {
     try {
-      const zipBlob = await createProjectZip(project.files);
+      const zipBlob = await createProjectZip(files);
       const url = URL.createObjectURL(zipBlob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${project.name.replace(/\s+/g, '_')}.zip`;
+      a.download = `${project.name.replace(/\s+/g, '_')}${isBuild ? '_build' : ''}.zip`;
       document.body.appendChild(a); a.click(); document.body.removeChild(a);
       URL.revokeObjectURL(url);
     } catch (e) { showToast(`Failed to create ZIP file: ${e}`, 'error'); }
@@ -533,9 +1111,53 @@ const ProjectEditor: React.FC<ProjectEditorProps> = ({ projectId, onBack }) => {
     document.addEventListener('mouseup', handleMouseUp);
   }, [sidebarWidth]);
 
+  const handlePreviewResizeStart = useCallback((e: React.MouseEvent) => {
+    e.preventDefault();
+    const startX = e.clientX;
+    const startWidth = previewWidth;
+    // Covers the page while dragging, so the preview frame does not swallow mouse events.
+    setIsResizingPreview(true);
+
+    const handleMouseMove = (moveEvent: MouseEvent) => {
+        const newWidth = startWidth - (moveEvent.clientX - startX);
+        if (newWidth > 280 && newWidth < window.innerWidth * 0.7) setPreviewWidth(newWidth);
+    };
+    const handleMouseUp = () => {
+        setIsResizingPreview(false);
+        document.removeEventListener('mousemove', handleMouseMove);
+        document.removeEventListener('mouseup', handleMouseUp);
+    };
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  }, [previewWidth]);
+
   if (error) return ( <div className="w-screen h-screen flex flex-col justify-center items-center bg-slate-900 p-4"> <h2 className="text-2xl font-bold text-red-400 mb-4">Gagal Memuat Proyek</h2> <p className="text-slate-300 text-center mb-6">{error}</p> <button onClick={onBack} className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white font-semibold py-2 px-4 rounded-lg"> <BackIcon /> Kembali </button> </div> );
   if (!project) return ( <div className="w-screen h-screen flex flex-col justify-center items-center bg-slate-950"> <SpinnerIcon className="h-16 w-16 text-indigo-500" /> <p className="mt-4 text-slate-300">Loading Project...</p> </div> );
 
+  const selectedBinaryFile = project.files.find(f => f.path === selectedFilePath && isBinaryFile(f));
+
+  const renderPreviewPane = () => (
+    <PreviewFrame
+      files={previewFiles}
+      title={`Live preview of ${project.name}`}
+      debounceMs={isLoading ? 0 : PREVIEW_DEBOUNCE_MS}
+      onSendErrors={handleSendPreviewErrors}
+      actions={<button onClick={handlePreview} className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors" aria-label="Open preview in new tab" title="Open in new tab"><ExternalLinkIcon className="w-4 h-4" /></button>}
+    />
+  );
+
+  const renderEditorPane = (placeholder: React.ReactNode) => (
+    <div className="h-full flex flex-col min-h-0">
+      <EditorTabs tabs={openTabs} activePath={selectedFilePath} onSelect={setSelectedFilePath} onClose={(path) => handleCloseTabs([path])} onCloseOthers={(path) => handleCloseTabs(openTabs.filter(t => t.path !== path).map(t => t.path))} onSaveAll={handleSaveAll} />
+      <div className="flex-1 min-h-0">
+        {activeTab ? (selectedBinaryFile
+            ? <AssetPreview file={selectedBinaryFile} isFullScreen={isEditorFullscreen} onToggleFullScreen={() => setIsEditorFullscreen(p => !p)} />
+            : <CodeEditor projectId={projectId} filePath={activeTab.path} content={activeTab.content} onChange={handleEditorChange} onSave={handleSaveFile} isDirty={activeTab.isDirty} isFullScreen={isEditorFullscreen} onToggleFullScreen={() => setIsEditorFullscreen(p => !p)} />)
+          : placeholder}
+      </div>
+    </div>
+  );
+
   return (
     <div className="h-dynamic-screen w-screen flex flex-col bg-slate-900 overflow-hidden">
         <div className="fixed bottom-5 right-5 z-50 flex flex-col gap-3">
@@ -557,7 +1179,9 @@ const ProjectEditor: React.FC<ProjectEditorProps> = ({ projectId, onBack }) => {
                 <div className="w-px h-6 bg-slate-600" />
               </div>
             ) : null}
-            <button onClick={handlePublish} disabled={isPublishing} title="Publish Website" className="hidden lg:flex items-center gap-2 bg-slate-700 hover:bg-indigo-600 rounded-lg text-slate-300 hover:text-white transition-colors disabled:bg-slate-600 disabled:cursor-wait px-3 py-2 text-sm font-semibold">{isPublishing ? <><SpinnerIcon className="w-4 h-4" /> Publishing...</> : <><CloudUploadIcon className="w-4 h-4"/> Publish</>}</button>
+            <button onClick={() => setIsPublishModalOpen(true)} disabled={isPublishing} title="Publish Website" className="hidden lg:flex items-center gap-2 bg-slate-700 hover:bg-indigo-600 rounded-lg text-slate-300 hover:text-white transition-colors disabled:bg-slate-600 disabled:cursor-wait px-3 py-2 text-sm font-semibold">{isPublishing ? <><SpinnerIcon className="w-4 h-4" /> Publishing...</> : <><CloudUploadIcon className="w-4 h-4"/> Publish</>}</button>
+            <button onClick={handleShareSnapshot} disabled={isSharingSnapshot} title="Share Snapshot" className="hidden lg:flex p-2 bg-slate-700 hover:bg-indigo-600 rounded-lg text-slate-300 hover:text-white transition-colors disabled:cursor-wait">{isSharingSnapshot ? <SpinnerIcon /> : <ShareIcon />}</button>
+            <button onClick={() => setIsHistoryOpen(true)} title="Version History" className="hidden lg:flex p-2 bg-slate-700 hover:bg-indigo-600 rounded-lg text-slate-300 hover:text-white transition-colors"><HistoryIcon /></button>
             <button onClick={handlePreview} title="Preview Website" className="hidden lg:flex p-2 bg-slate-700 hover:bg-indigo-600 rounded-lg text-slate-300 hover:text-white transition-colors"><EyeIcon /></button>
             <button onClick={handleDownload} title="Download Project" className="hidden lg:flex p-2 bg-slate-700 hover:bg-indigo-600 rounded-lg text-slate-300 hover:text-white transition-colors"><DownloadIcon /></button>
             
@@ -567,7 +1191,7 @@ const ProjectEditor: React.FC<ProjectEditorProps> = ({ projectId, onBack }) => {
                 </button>
                 {isMobileMenuOpen && (
                     <div className="absolute top-full right-0 mt-2 w-56 bg-slate-800 border border-slate-700 rounded-md shadow-lg z-50 py-1 transition-opacity duration-200">
-                        <button onClick={() => { handlePublish(); setIsMobileMenuOpen(false); }} disabled={isPublishing} className="w-full text-left flex items-center gap-3 px-4 py-2 text-sm text-slate-200 hover:bg-slate-700 disabled:opacity-50">
+                        <button onClick={() => { setIsPublishModalOpen(true); setIsMobileMenuOpen(false); }} disabled={isPublishing} className="w-full text-left flex items-center gap-3 px-4 py-2 text-sm text-slate-200 hover:bg-slate-700 disabled:opacity-50">
                             {isPublishing ? <SpinnerIcon className="w-4 h-4" /> : <CloudUploadIcon />} {isPublishing ? 'Publishing...' : 'Publish Website'}
                         </button>
                         <button onClick={() => { handlePreview(); setIsMobileMenuOpen(false); }} className="w-full text-left flex items-center gap-3 px-4 py-2 text-sm text-slate-200 hover:bg-slate-700">
@@ -576,6 +1200,12 @@ const ProjectEditor: React.FC<ProjectEditorProps> = ({ projectId, onBack }) => {
                         <button onClick={() => { handleDownload(); setIsMobileMenuOpen(false); }} className="w-full text-left flex items-center gap-3 px-4 py-2 text-sm text-slate-200 hover:bg-slate-700">
                             <DownloadIcon /> Download Project
                         </button>
+                        <button onClick={() => { handleShareSnapshot(); setIsMobileMenuOpen(false); }} disabled={isSharingSnapshot} className="w-full text-left flex items-center gap-3 px-4 py-2 text-sm text-slate-200 hover:bg-slate-700 disabled:opacity-50">
+                            <ShareIcon /> Share Snapshot
+                        </button>
+                        <button onClick={() => { setIsHistoryOpen(true); setIsMobileMenuOpen(false); }} className="w-full text-left flex items-center gap-3 px-4 py-2 text-sm text-slate-200 hover:bg-slate-700">
+                            <HistoryIcon /> Version History
+                        </button>
                         <div className="my-1 h-px bg-slate-700" />
                         <button onClick={() => { handleNewChat(); setIsMobileMenuOpen(false); }} disabled={isLoading} className="w-full text-left flex items-center gap-3 px-4 py-2 text-sm text-slate-200 hover:bg-slate-700 disabled:opacity-50">
                             <RefreshIcon /> Start New Chat
@@ -590,7 +1220,7 @@ const ProjectEditor: React.FC<ProjectEditorProps> = ({ projectId, onBack }) => {
       <main className={`flex-1 hidden lg:flex overflow-hidden p-4 gap-4 ${isEditorFullscreen ? 'fixed inset-0 z-50 bg-slate-900 p-2' : ''}`}>
         <aside ref={sidebarRef} style={{width: `${sidebarWidth}px`}} className={`${isEditorFullscreen ? 'hidden' : ''} flex flex-col bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl min-w-[200px]`}>
           <h3 className="text-lg font-semibold p-4 border-b border-slate-700 flex items-center gap-2 text-slate-200 flex-shrink-0"><CodeIcon /> Project Files</h3>
-          <div className="flex-grow overflow-y-auto p-2"><FileTree files={project.files} onSelectFile={handleSelectFile} selectedFile={selectedFilePath} /></div>
+          <div className="flex-grow overflow-y-auto p-2"><FileTree files={project.files} folders={project.folders} onSelectFile={handleSelectFile} selectedFile={selectedFilePath} onUploadFiles={handleUploadFiles} onCreateFile={handleCreateFile} onCreateFolder={handleCreateFolder} onMovePath={handleMovePath} onDeletePath={(path, isFolder) => setPathToDelete({ path, isFolder })} /></div>
         </aside>
         <div onMouseDown={handleMouseDown} className={`${isEditorFullscreen ? 'hidden' : ''} flex-shrink-0 w-2 cursor-col-resize flex items-center justify-center group`}><div className="w-1 h-10 bg-slate-700 group-hover:bg-indigo-500 rounded-full transition-colors" /></div>
         <div className="flex-1 flex flex-col min-w-0 gap-4">
@@ -598,12 +1228,12 @@ const ProjectEditor: React.FC<ProjectEditorProps> = ({ projectId, onBack }) => {
                 <div className="flex-shrink-0 border-b border-slate-700 flex items-center px-2">
                     <button onClick={() => setMainView('editor')} disabled={!selectedFilePath} className={`px-4 py-3 text-sm font-medium transition-colors border-b-2 ${mainView === 'editor' ? 'border-indigo-500 text-white' : 'border-transparent text-slate-400 hover:text-white'} disabled:text-slate-600 disabled:cursor-not-allowed`}>Editor</button>
                     <button onClick={() => setMainView('chat')} className={`px-4 py-3 text-sm font-medium transition-colors border-b-2 ${mainView === 'chat' ? 'border-indigo-500 text-white' : 'border-transparent text-slate-400 hover:text-white'}`}>Chat</button>
+                    <button onClick={() => setIsPreviewOpen(p => !p)} className={`ml-auto flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${isPreviewOpen ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-700'}`} title={isPreviewOpen ? 'Hide live preview' : 'Show live preview'}><EyeIcon className="w-4 h-4" /> Preview</button>
                 </div>
                 <div className="flex-1 min-h-0">
                     {mainView === 'editor' ? (
-                        selectedFilePath ? <CodeEditor filePath={selectedFilePath} content={editorContent} onChange={handleEditorChange} onSave={handleSaveFile} isDirty={isEditorDirty} isFullScreen={isEditorFullscreen} onToggleFullScreen={() => setIsEditorFullscreen(p => !p)} /> 
-                        : <div className="flex h-full justify-center items-center"><p className="text-slate-400">Pilih file untuk dilihat atau diedit</p></div>
-                    ) : ( <ChatWindow chatHistory={project.chatHistory} isLoading={isLoading} /> )}
+                        renderEditorPane(<div className="flex h-full justify-center items-center"><p className="text-slate-400">Pilih file untuk dilihat atau diedit</p></div>)
+                    ) : ( <ChatWindow chatHistory={project.chatHistory} isLoading={isLoading} regenerateLabel={regenerateLabel} onRegenerate={canRegenerate ? handleRegenerate : undefined} /> )}
                 </div>
             </div>
             <div className="flex-shrink-0">
@@ -612,12 +1242,27 @@ const ProjectEditor: React.FC<ProjectEditorProps> = ({ projectId, onBack }) => {
                  userInput={userInput}
                  setUserInput={setUserInput}
                  handleSendMessage={handleSendMessage}
+                 handleStop={handleStopGeneration}
                  handleNewChat={handleNewChat}
+                 models={models}
                  selectedModel={selectedModel}
                  setSelectedModel={setSelectedModel}
+                 isReviewMode={isReviewMode}
+                 setIsReviewMode={setIsReviewMode}
+                 isAutoFixMode={isAutoFixMode}
+                 setIsAutoFixMode={setIsAutoFixMode}
                />
             </div>
         </div>
+        {isPreviewOpen && !isEditorFullscreen && (
+          <>
+            <div onMouseDown={handlePreviewResizeStart} className="flex-shrink-0 w-2 cursor-col-resize flex items-center justify-center group"><div className="w-1 h-10 bg-slate-700 group-hover:bg-indigo-500 rounded-full transition-colors" /></div>
+            <aside style={{width: `${previewWidth}px`}} className="flex-shrink-0 flex flex-col bg-slate-800/50 border border-slate-700 rounded-xl overflow-hidden">
+              {renderPreviewPane()}
+            </aside>
+          </>
+        )}
+        {isResizingPreview && <div className="fixed inset-0 z-50 cursor-col-resize" />}
       </main>
 
       {/* Mobile Layout */}
@@ -625,36 +1270,86 @@ const ProjectEditor: React.FC<ProjectEditorProps> = ({ projectId, onBack }) => {
         {mobileView === 'files' && (
             <aside className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-xl flex flex-col h-full m-4">
                 <h3 className="text-lg font-semibold p-4 border-b border-slate-700 flex items-center gap-2"><CodeIcon /> Project Files</h3>
-                <div className="flex-grow overflow-y-auto p-2"><FileTree files={project.files} onSelectFile={handleSelectFile} selectedFile={selectedFilePath} /></div>
+                <div className="flex-grow overflow-y-auto p-2"><FileTree files={project.files} folders={project.folders} onSelectFile={handleSelectFile} selectedFile={selectedFilePath} onUploadFiles={handleUploadFiles} onCreateFile={handleCreateFile} onCreateFolder={handleCreateFolder} onMovePath={handleMovePath} onDeletePath={(path, isFolder) => setPathToDelete({ path, isFolder })} /></div>
             </aside>
         )}
         {mobileView === 'editor' && (
             <div className="flex-1 flex flex-col min-h-0 p-4">
-                {selectedFilePath 
-                    ? <CodeEditor filePath={selectedFilePath} content={editorContent} onChange={handleEditorChange} onSave={handleSaveFile} isDirty={isEditorDirty} isFullScreen={isEditorFullscreen} onToggleFullScreen={() => setIsEditorFullscreen(p => !p)} /> 
-                    : <div className="flex h-full justify-center items-center bg-slate-800/50 border border-slate-700 rounded-xl"><p className="text-slate-400">Pilih file untuk diedit</p></div>
-                }
+                {renderEditorPane(<div className="flex h-full justify-center items-center bg-slate-800/50 border border-slate-700 rounded-xl"><p className="text-slate-400">Pilih file untuk diedit</p></div>)}
+            </div>
+        )}
+        {mobileView === 'preview' && (
+            <div className="flex-1 flex flex-col min-h-0 m-4 border border-slate-700 rounded-xl overflow-hidden">
+                {renderPreviewPane()}
             </div>
         )}
         {mobileView === 'chat' && (
             <div className="flex flex-col h-full min-h-0">
-                <ChatWindow chatHistory={project.chatHistory} isLoading={isLoading} />
+                <ChatWindow chatHistory={project.chatHistory} isLoading={isLoading} regenerateLabel={regenerateLabel} onRegenerate={canRegenerate ? handleRegenerate : undefined} />
                 <ChatInput
                   isMobile={true}
                   isLoading={isLoading}
                   userInput={userInput}
                   setUserInput={setUserInput}
                   handleSendMessage={handleSendMessage}
+                  handleStop={handleStopGeneration}
                   handleNewChat={handleNewChat}
+                  models={models}
                   selectedModel={selectedModel}
                   setSelectedModel={setSelectedModel}
+                  isReviewMode={isReviewMode}
+                  setIsReviewMode={setIsReviewMode}
+                  isAutoFixMode={isAutoFixMode}
+                  setIsAutoFixMode={setIsAutoFixMode}
                 />
             </div>
         )}
       </main>
       {!isEditorFullscreen && <BottomNav mobileView={mobileView} setMobileView={setMobileView} selectedFilePath={selectedFilePath} />}
 
+      <BuildModal
+        isOpen={isBuildModalOpen}
+        onClose={() => setIsBuildModalOpen(false)}
+        files={project.files}
+        siteUrl={project.publishedSubdomain ? getSiteUrl(project.publishedSubdomain) : undefined}
+        lastModified={project.updatedAt}
+        settings={buildSettings}
+        onSettingsChange={setBuildSettings}
+        onDownload={handleDownloadZip}
+      />
+      <PublishModal
+        isOpen={isPublishModalOpen}
+        onClose={() => setIsPublishModalOpen(false)}
+        project={project}
+        isPublishing={isPublishing}
+        useBuild={buildSettings.useForPublish}
+        onUseBuildChange={(useForPublish) => setBuildSettings(prev => ({ ...prev, useForPublish }))}
+        onPublish={handlePublish}
+        onUnpublish={handleUnpublish}
+      />
       <ShareModal isOpen={isShareModalOpen} onClose={() => setIsShareModalOpen(false)} title="Project Published!" url={publishedUrl} />
+      <ShareModal
+        isOpen={!!snapshotUrl}
+        onClose={() => setSnapshotUrl('')}
+        title="Snapshot Shared"
+        url={snapshotUrl}
+        message="Anyone with this link can preview the current version of your project and fork it. Later changes are not included."
+      />
+      <ReviewPanel isOpen={pendingReview !== null} operations={pendingReview?.operations || []} baseFiles={pendingReview?.baseFiles || []} onApply={handleFinishReview} onDiscard={() => handleFinishReview([])} />
+      <ConflictPanel conflict={!isLoading && !pendingReview ? tabConflicts[0] ?? null : null} tab={openTabs.find(t => t.path === tabConflicts[0]?.path) ?? null} remaining={tabConflicts.length} onResolve={handleResolveConflict} />
+      <HistoryPanel isOpen={isHistoryOpen} onClose={() => setIsHistoryOpen(false)} snapshots={snapshots} onRestore={setSnapshotToRestore} restoringId={restoringSnapshotId} />
+      <ConfirmModal isOpen={pendingStop !== null} onClose={() => handleFinishStop(true)} onConfirm={() => handleFinishStop(false)} title="Generation Stopped" confirmText="Rollback" cancelText="Keep Files">
+        <p>AI dihentikan sebelum selesai. <strong className="font-semibold text-slate-100">{pendingStop?.operations.length ?? 0}</strong> perubahan file sudah selesai ditulis.</p>
+        <p className="mt-2 text-sm text-slate-400">Simpan file yang sudah selesai, atau kembalikan proyek ke kondisi sebelum permintaan ini?</p>
+      </ConfirmModal>
+      <ConfirmModal isOpen={pathToDelete !== null} onClose={() => setPathToDelete(null)} onConfirm={handleConfirmDeletePath} title={pathToDelete?.isFolder ? 'Delete Folder' : 'Delete File'} confirmText="Delete">
+        <p>Hapus <strong className="font-semibold text-slate-100 break-all">{pathToDelete?.path}</strong>{pathToDelete?.isFolder && <> beserta <strong className="font-semibold text-slate-100">{project.files.filter(f => f.path.startsWith(`${pathToDelete.path}/`)).length}</strong> file di dalamnya</>}?</p>
+        <p className="mt-2 text-sm text-slate-400">Versi sebelumnya tetap tersimpan di riwayat.</p>
+      </ConfirmModal>
+      <ConfirmModal isOpen={snapshotToRestore !== null} onClose={() => setSnapshotToRestore(null)} onConfirm={handleConfirmRestore} title="Restore Version" confirmText="Restore">
+        <p>Kembalikan semua file proyek ke versi dari <strong className="font-semibold text-slate-100">{snapshotToRestore && new Date(snapshotToRestore.createdAt).toLocaleString()}</strong>?</p>
+        <p className="mt-2 text-sm text-slate-400">Versi saat ini tetap tersimpan di riwayat, jadi Anda bisa kembali kapan saja.</p>
+      </ConfirmModal>
     </div>
   );
 };
@@ -1,8 +1,10 @@
-import React, { useState, useEffect } from 'react';
-import { getProjects, saveProject, deleteProject } from '../services/projectService';
+import React, { useState, useEffect, useCallback } from 'react';
+import { getProjects, saveProject, deleteProject, repairProject, getProjectStore } from '../services/projectService';
+import type { BrokenProject } from '../services/projectStore';
 import { getTemplateFiles } from '../services/templates';
-import type { Project, TemplateType, StyleLibrary } from '../types';
-import { PlusIcon, TrashIcon, CodeIcon, FolderIcon, BoxIcon, IdCardIcon, NewspaperIcon, RocketIcon, UserIcon, SpinnerIcon } from './Icons';
+import { importProjectFiles, readDroppedEntries, readFolderInput, readZipEntries, ImportEntry, ImportResult } from '../utils/projectImport';
+import type { Project, ProjectSummary, TemplateType, StyleLibrary } from '../types';
+import { PlusIcon, TrashIcon, CodeIcon, FolderIcon, BoxIcon, IdCardIcon, NewspaperIcon, RocketIcon, UserIcon, SpinnerIcon, UploadIcon, AlertTriangleIcon, GitBranchIcon } from './Icons';
 import ConfirmModal from './ConfirmModal';
 import { useAuth } from '../auth';
 
@@ -48,23 +50,49 @@ const TemplateButton: React.FC<{
 
 const ProjectList: React.FC<ProjectListProps> = ({ onSelectProject }) => {
   const { user, isSignedIn, isLoading, signIn, signOut } = useAuth();
-  const [projects, setProjects] = useState<Project[]>([]);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [brokenProjects, setBrokenProjects] = useState<BrokenProject[]>([]);
+  const [repairingId, setRepairingId] = useState<string | null>(null);
+  const [listError, setListError] = useState<string | null>(null);
   const [newProjectName, setNewProjectName] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
-  const [projectToDelete, setProjectToDelete] = useState<Project | null>(null);
+  const [projectToDelete, setProjectToDelete] = useState<{ id: string; name: string } | null>(null);
   const [selectedTemplate, setSelectedTemplate] = useState<TemplateType>('blank');
   const [selectedStyle, setSelectedStyle] = useState<StyleLibrary>('none');
+  const [isImporting, setIsImporting] = useState(false);
+  const [isReadingImport, setIsReadingImport] = useState(false);
+  const [isImportDragOver, setIsImportDragOver] = useState(false);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [importName, setImportName] = useState('');
+  const [importStyle, setImportStyle] = useState<StyleLibrary>('none');
+  const [importError, setImportError] = useState<string | null>(null);
+  // Local stores (IndexedDB, memory) work without a Puter account.
+  const canUseProjects = isSignedIn || !getProjectStore().requiresAuth;
+
+  const loadProjects = useCallback(async () => {
+    setListError(null);
+    try {
+      const { projects, broken } = await getProjects();
+      setProjects(projects.sort((a, b) => b.updatedAt - a.updatedAt));
+      setBrokenProjects(broken);
+    } catch (error) {
+      console.error('Loading projects failed:', error);
+      setListError(error instanceof Error ? error.message : String(error));
+    }
+  }, []);
 
   useEffect(() => {
-    if (isSignedIn) {
-      getProjects().then(projects => {
-        setProjects(projects.sort((a, b) => b.updatedAt - a.updatedAt));
-      });
+    if (canUseProjects) {
+      loadProjects();
     } else {
       setProjects([]);
+      setBrokenProjects([]);
+      setListError(null);
     }
-  }, [isSignedIn]);
+  }, [canUseProjects, loadProjects]);
+
+  const toSummary = ({ files, ...meta }: Project): ProjectSummary => ({ ...meta, fileCount: files.length });
 
   const handleCreateProject = async () => {
     if (newProjectName.trim() === '') return;
@@ -82,13 +110,89 @@ const ProjectList: React.FC<ProjectListProps> = ({ onSelectProject }) => {
       styleLibrary: selectedStyle,
     };
     await saveProject(newProject);
-    setProjects(prev => [newProject, ...prev].sort((a, b) => b.updatedAt - a.updatedAt));
+    setProjects(prev => [toSummary(newProject), ...prev].sort((a, b) => b.updatedAt - a.updatedAt));
     setNewProjectName('');
     setIsCreating(false);
     onSelectProject(newProject.id);
   };
 
-  const handleDeleteRequest = (project: Project) => {
+  const openImport = () => {
+    setIsCreating(false);
+    setIsImporting(true);
+    setImportResult(null);
+    setImportError(null);
+  };
+
+  const closeImport = () => {
+    setIsImporting(false);
+    setImportResult(null);
+    setImportError(null);
+  };
+
+  const handleImportEntries = async (read: () => Promise<{ name: string | null; entries: ImportEntry[] }>) => {
+    setIsReadingImport(true);
+    setImportError(null);
+    setImportResult(null);
+    try {
+      const { name, entries } = await read();
+      const result = await importProjectFiles(entries, name);
+      setImportResult(result);
+      setImportName(result.name);
+      setImportStyle(result.styleLibrary);
+    } catch (error) {
+      console.error('Import failed:', error);
+      setImportError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsReadingImport(false);
+    }
+  };
+
+  const handleImportZip = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) handleImportEntries(async () => ({ name: file.name.replace(/\.zip$/i, ''), entries: await readZipEntries(file) }));
+  };
+
+  const handleImportFolder = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const entries = e.target.files ? readFolderInput(e.target.files) : [];
+    e.target.value = '';
+    if (entries.length > 0) handleImportEntries(async () => ({ name: null, entries }));
+  };
+
+  const handleImportDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsImportDragOver(false);
+    if (isReadingImport) return;
+    const dropped = readDroppedEntries(e.dataTransfer);
+    handleImportEntries(() => dropped);
+  };
+
+  const handleCreateImportedProject = async () => {
+    if (!importResult || importName.trim() === '') return;
+
+    const newProject: Project = {
+      id: `proj_${Date.now()}`,
+      name: importName.trim(),
+      files: importResult.files,
+      chatHistory: [],
+      updatedAt: Date.now(),
+      currentSessionId: Math.random().toString(36).substring(2, 9),
+      template: 'blank',
+      styleLibrary: importStyle,
+    };
+    try {
+      await saveProject(newProject);
+    } catch (error) {
+      console.error('Saving the imported project failed:', error);
+      setImportError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    setProjects(prev => [toSummary(newProject), ...prev].sort((a, b) => b.updatedAt - a.updatedAt));
+    closeImport();
+    onSelectProject(newProject.id);
+  };
+
+  const handleDeleteRequest = (project: { id: string; name: string }) => {
     setProjectToDelete(project);
     setIsDeleteModalOpen(true);
   };
@@ -97,10 +201,26 @@ const ProjectList: React.FC<ProjectListProps> = ({ onSelectProject }) => {
     if (!projectToDelete) return;
     await deleteProject(projectToDelete.id);
     setProjects(projects.filter(p => p.id !== projectToDelete.id));
+    setBrokenProjects(brokenProjects.filter(p => p.id !== projectToDelete.id));
     setIsDeleteModalOpen(false);
     setProjectToDelete(null);
   };
 
+  const handleRepair = async (broken: BrokenProject) => {
+    if (!confirm(`Perbaiki metadata proyek "${broken.id}"? Bagian yang tidak valid akan diganti dengan nilai bawaan atau dihapus; file proyek dipertahankan sebisa mungkin.`)) return;
+    setRepairingId(broken.id);
+    try {
+      await repairProject(broken.id);
+      await loadProjects();
+    } catch (error) {
+      console.error(`Repairing project ${broken.id} failed:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      setBrokenProjects(prev => prev.map(p => p.id === broken.id ? { ...p, error: `Repair failed: ${message}` } : p));
+    } finally {
+      setRepairingId(null);
+    }
+  };
+
   return (
     <>
       <div className="max-w-5xl mx-auto p-4 sm:p-6 lg:p-8">
@@ -109,22 +229,38 @@ const ProjectList: React.FC<ProjectListProps> = ({ onSelectProject }) => {
           <div className="flex items-center gap-4">
             {isLoading ? (
               <SpinnerIcon className="w-8 h-8 text-indigo-400" />
-            ) : isSignedIn && user ? (
+            ) : canUseProjects ? (
               <>
-                <span className="text-sm text-slate-400 hidden sm:inline">Hi, {user.username}</span>
+                {user && <span className="text-sm text-slate-400 hidden sm:inline">Hi, {user.username}</span>}
                 <button
-                  onClick={() => setIsCreating(true)}
-                  className="flex items-center gap-2 bg-gradient-to-r from-indigo-500 to-purple-600 hover:from-indigo-600 hover:to-purple-700 text-white font-semibold py-2 px-5 rounded-lg shadow-lg transition-transform transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-indigo-500/50"
+                  onClick={openImport}
+                  className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold py-2 px-5 rounded-lg transition-colors"
                 >
-                  <PlusIcon />
-                  New Project
+                  <UploadIcon className="w-5 h-5" />
+                  Import
                 </button>
                 <button
-                  onClick={signOut}
-                  className="bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold py-2 px-5 rounded-lg text-sm transition-colors"
+                  onClick={() => { closeImport(); setIsCreating(true); }}
+                  className="flex items-center gap-2 bg-gradient-to-r from-indigo-500 to-purple-600 hover:from-indigo-600 hover:to-purple-700 text-white font-semibold py-2 px-5 rounded-lg shadow-lg transition-transform transform hover:scale-105 focus:outline-none focus:ring-4 focus:ring-indigo-500/50"
                 >
-                  Sign Out
+                  <PlusIcon />
+                  New Project
                 </button>
+                {isSignedIn ? (
+                  <button
+                    onClick={signOut}
+                    className="bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold py-2 px-5 rounded-lg text-sm transition-colors"
+                  >
+                    Sign Out
+                  </button>
+                ) : (
+                  <button
+                    onClick={signIn}
+                    className="bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold py-2 px-5 rounded-lg text-sm transition-colors"
+                  >
+                    Sign In
+                  </button>
+                )}
               </>
             ) : (
               <button
@@ -137,7 +273,7 @@ const ProjectList: React.FC<ProjectListProps> = ({ onSelectProject }) => {
           </div>
         </header>
         
-        {!isSignedIn && !isLoading && (
+        {!canUseProjects && !isLoading && (
           <div className="text-center py-20 px-6 bg-slate-800/50 border border-slate-700 rounded-xl shadow-inner">
             <UserIcon className="w-20 h-20 mx-auto text-slate-600 mb-6" />
             <h2 className="text-2xl font-semibold text-slate-300">Welcome to the AI Web Builder</h2>
@@ -145,7 +281,7 @@ const ProjectList: React.FC<ProjectListProps> = ({ onSelectProject }) => {
           </div>
         )}
 
-        {isSignedIn && (
+        {canUseProjects && (
           <>
             {isCreating && (
               <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 p-6 rounded-xl mb-10 shadow-2xl transition-all duration-300">
@@ -198,7 +334,114 @@ const ProjectList: React.FC<ProjectListProps> = ({ onSelectProject }) => {
               </div>
             )}
 
-            {projects.length === 0 && !isCreating ? (
+            {isImporting && (
+              <div className="bg-slate-800/50 backdrop-blur-sm border border-slate-700 p-6 rounded-xl mb-10 shadow-2xl transition-all duration-300">
+                  <h2 className="text-2xl font-bold mb-6">Import a Project</h2>
+
+                  <div
+                    onDragOver={(e) => { e.preventDefault(); e.dataTransfer.dropEffect = 'copy'; setIsImportDragOver(true); }}
+                    onDragLeave={() => setIsImportDragOver(false)}
+                    onDrop={handleImportDrop}
+                    className={`mb-6 border-2 border-dashed rounded-lg p-8 text-center transition-colors ${isImportDragOver ? 'border-indigo-500 bg-indigo-900/20' : 'border-slate-600'}`}
+                  >
+                    {isReadingImport ? (
+                      <div className="flex items-center justify-center gap-3 text-slate-300">
+                        <SpinnerIcon className="w-6 h-6 text-indigo-400" /> Reading files...
+                      </div>
+                    ) : (
+                      <>
+                        <UploadIcon className="w-10 h-10 mx-auto text-slate-500 mb-3" />
+                        <p className="text-slate-300">Drop a ZIP file or a project folder here</p>
+                        <p className="text-sm text-slate-500 mt-1">Folder pembungkus, node_modules dan file sistem seperti .DS_Store dilewati.</p>
+                        <div className="flex justify-center gap-3 mt-4">
+                          <label className="cursor-pointer bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold py-2 px-4 rounded-lg text-sm transition-colors">
+                            Choose ZIP
+                            <input type="file" accept=".zip,application/zip" onChange={handleImportZip} className="hidden" />
+                          </label>
+                          <label className="cursor-pointer bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold py-2 px-4 rounded-lg text-sm transition-colors">
+                            Choose Folder
+                            <input type="file" ref={input => input?.setAttribute('webkitdirectory', '')} onChange={handleImportFolder} className="hidden" />
+                          </label>
+                        </div>
+                      </>
+                    )}
+                  </div>
+
+                  {importError && (
+                    <div className="mb-6 flex items-start gap-3 bg-red-500/10 border border-red-500/30 text-red-300 rounded-lg p-4 text-sm">
+                      <AlertTriangleIcon className="w-5 h-5 flex-shrink-0" />
+                      <p>Import gagal: {importError}</p>
+                    </div>
+                  )}
+
+                  {importResult && (
+                    <>
+                      <div className="mb-6 bg-slate-900/50 border border-slate-700 rounded-lg p-4 text-sm text-slate-300 space-y-1">
+                        <p>
+                          <strong className="text-slate-100">{importResult.summary.fileCount}</strong> file{importResult.summary.fileCount !== 1 ? 's' : ''}
+                          {importResult.summary.binaryCount > 0 && <> ({importResult.summary.binaryCount} binary)</>}
+                        </p>
+                        {importResult.summary.strippedRoot && <p>Root folder <code className="text-indigo-300">{importResult.summary.strippedRoot}/</code> removed from paths</p>}
+                        <p>
+                          {importResult.summary.entryPage
+                            ? <>Entry page: <code className="text-indigo-300">{importResult.summary.entryPage}</code></>
+                            : <span className="text-amber-300">No HTML page found</span>}
+                        </p>
+                        {importResult.summary.skipped.length > 0 && (
+                          <details>
+                            <summary className="cursor-pointer">Skipped {importResult.summary.skipped.length} item{importResult.summary.skipped.length !== 1 ? 's' : ''}</summary>
+                            <ul className="mt-1 ml-4 font-mono text-xs text-slate-400 max-h-32 overflow-y-auto">
+                              {importResult.summary.skipped.map(path => <li key={path}>{path}</li>)}
+                            </ul>
+                          </details>
+                        )}
+                      </div>
+
+                      <div className="mb-6">
+                        <label htmlFor="importName" className="block text-sm font-medium text-slate-300 mb-2">Project Name</label>
+                        <input
+                            id="importName"
+                            type="text"
+                            value={importName}
+                            onChange={(e) => setImportName(e.target.value)}
+                            className="w-full bg-slate-700/50 border border-slate-600 text-slate-100 rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition"
+                            onKeyDown={(e) => e.key === 'Enter' && handleCreateImportedProject()}
+                        />
+                      </div>
+
+                      <div className="mb-8">
+                        <label className="block text-sm font-medium text-slate-300 mb-3">Style CDN {importResult.styleLibrary !== 'none' && <span className="text-slate-500">(detected from {importResult.summary.entryPage})</span>}</label>
+                        <div className="flex flex-wrap gap-3">
+                            {styles.map(s => (
+                                <button key={s.id} onClick={() => setImportStyle(s.id)}
+                                    className={`px-4 py-2 text-sm font-semibold rounded-full border-2 transition-colors ${importStyle === s.id ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-700/50 border-slate-600 hover:border-slate-500 text-slate-200'}`}>
+                                    {s.name}
+                                </button>
+                            ))}
+                        </div>
+                      </div>
+                    </>
+                  )}
+
+                  <div className="flex justify-end gap-4">
+                      <button onClick={closeImport} className="bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-5 rounded-lg transition-colors">Cancel</button>
+                      <button onClick={handleCreateImportedProject} disabled={!importResult || !importName.trim() || isReadingImport} className="bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-2 px-5 rounded-lg disabled:bg-slate-500 disabled:cursor-not-allowed transition-colors">Import Project</button>
+                  </div>
+              </div>
+            )}
+
+            {listError ? (
+              <div className="flex flex-col items-center gap-4 text-center py-12 px-6 bg-red-500/10 border border-red-500/30 rounded-xl">
+                <AlertTriangleIcon className="w-10 h-10 text-red-400" />
+                <p className="text-red-300 whitespace-pre-line">Gagal memuat daftar proyek: {listError}</p>
+                <button
+                  onClick={loadProjects}
+                  className="bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold py-2 px-5 rounded-lg text-sm transition-colors"
+                >
+                  Retry
+                </button>
+              </div>
+            ) : projects.length === 0 && !isCreating && !isImporting ? (
               <div className="text-center py-20 px-6 bg-slate-800/50 border border-slate-700 rounded-xl shadow-inner">
                   <CodeIcon className="w-20 h-20 mx-auto text-slate-600 mb-6" />
                 <h2 className="text-2xl font-semibold text-slate-300">Your workspace is empty</h2>
@@ -220,8 +463,13 @@ const ProjectList: React.FC<ProjectListProps> = ({ onSelectProject }) => {
                             </div>
                             <h3 className="font-bold text-lg mt-4 text-slate-100">{project.name}</h3>
                         </div>
-                        <p className="text-sm text-slate-400 mt-2">
-                            {project.files.length} file{project.files.length !== 1 ? 's' : ''}
+                        <p className="text-sm text-slate-400 mt-2 flex items-center gap-2">
+                            {project.fileCount !== undefined && <>{project.fileCount} file{project.fileCount !== 1 ? 's' : ''}</>}
+                            {project.forkedFrom && (
+                                <span className="flex items-center gap-1 text-xs text-slate-500" title={`Forked from shared snapshot ${project.forkedFrom.shareId}`}>
+                                    <GitBranchIcon className="w-3.5 h-3.5" /> Fork
+                                </span>
+                            )}
                         </p>
                     </div>
                     <div className="bg-slate-800/30 px-5 py-3 border-t border-slate-700">
@@ -233,6 +481,41 @@ const ProjectList: React.FC<ProjectListProps> = ({ onSelectProject }) => {
                 ))}
               </div>
             )}
+
+            {brokenProjects.length > 0 && (
+              <div className="mt-10">
+                <h2 className="text-lg font-semibold text-amber-200 flex items-center gap-2 mb-1">
+                  <AlertTriangleIcon className="w-5 h-5" /> Projects that could not be loaded
+                </h2>
+                <p className="text-sm text-slate-400 mb-4">Metadata proyek berikut rusak atau tidak valid. Perbaiki agar bisa dibuka lagi, atau hapus.</p>
+                <ul className="space-y-3">
+                  {brokenProjects.map(broken => (
+                    <li key={broken.id} className="bg-slate-800 border border-amber-500/30 rounded-xl p-4 flex flex-col sm:flex-row sm:items-start gap-4">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-mono text-sm text-slate-200 truncate">{broken.id}</p>
+                        <p className="mt-2 text-xs text-amber-200/80 whitespace-pre-wrap break-words">{broken.error}</p>
+                      </div>
+                      <div className="flex gap-2 flex-shrink-0">
+                        <button
+                          onClick={() => handleRepair(broken)}
+                          disabled={repairingId !== null}
+                          className="flex items-center gap-2 bg-slate-700 hover:bg-slate-600 text-slate-200 font-semibold py-1.5 px-4 rounded-lg text-sm transition-colors disabled:opacity-50"
+                        >
+                          {repairingId === broken.id && <SpinnerIcon className="w-4 h-4" />} Repair
+                        </button>
+                        <button
+                          onClick={() => handleDeleteRequest({ id: broken.id, name: broken.id })}
+                          disabled={repairingId !== null}
+                          className="flex items-center gap-2 text-red-300 hover:bg-red-500/10 font-semibold py-1.5 px-4 rounded-lg text-sm transition-colors disabled:opacity-50"
+                        >
+                          <TrashIcon className="w-4 h-4" /> Delete
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </>
         )}
       </div>
@@ -1,18 +1,16 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import type { Project } from '../types';
+import type { ProjectFile } from '../types';
 import { getProject } from '../services/projectService';
-import { createPreviewHtml } from '../utils/fileUtils';
-import Loader from './Loader';
+import PreviewFrame from './PreviewFrame';
 
 interface ProjectPreviewProps {
     projectId: string;
 }
 
 const ProjectPreview: React.FC<ProjectPreviewProps> = ({ projectId }) => {
-    const [htmlContent, setHtmlContent] = useState<string | null>(null);
+    const [files, setFiles] = useState<ProjectFile[] | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
-    const [previewKey, setPreviewKey] = useState(Date.now());
 
     const loadProject = useCallback((isInitialLoad = false) => {
         if (isInitialLoad) {
@@ -22,21 +20,19 @@ const ProjectPreview: React.FC<ProjectPreviewProps> = ({ projectId }) => {
         getProject(projectId)
             .then(p => {
                 if (p && p.files.length > 0) {
-                    const content = createPreviewHtml(p.files);
-                    setHtmlContent(content);
-                    setPreviewKey(Date.now()); // Force iframe remount for reliable updates
+                    setFiles(p.files); // The frame hot reloads, keeping its page and scroll position
                 } else if (p) {
                     setError('Project has no files to preview.');
-                    setHtmlContent(null);
+                    setFiles(null);
                 } else {
                     setError('Project not found.');
-                    setHtmlContent(null);
+                    setFiles(null);
                 }
             })
             .catch(err => {
                 const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
                 setError(`Failed to load project: ${errorMessage}`);
-                setHtmlContent(null);
+                setFiles(null);
             })
             .finally(() => {
                 if (isInitialLoad) {
@@ -60,7 +56,7 @@ const ProjectPreview: React.FC<ProjectPreviewProps> = ({ projectId }) => {
             window.removeEventListener('storage', handleStorageChange);
         };
     }, [projectId, loadProject]);
-    
+
     if (isLoading) {
         return (
             <div className="w-screen h-screen flex flex-col justify-center items-center bg-slate-950">
@@ -70,7 +66,7 @@ const ProjectPreview: React.FC<ProjectPreviewProps> = ({ projectId }) => {
         );
     }
     
-    if (error || !htmlContent) {
+    if (error || !files) {
          return (
             <div className="w-screen h-screen flex flex-col justify-center items-center bg-slate-950 p-4">
                 <p className="text-red-400 text-center">{error || 'Project could not be loaded for preview.'}</p>
@@ -79,13 +75,9 @@ const ProjectPreview: React.FC<ProjectPreviewProps> = ({ projectId }) => {
     }
 
     return (
-        <iframe
-            key={previewKey}
-            srcDoc={htmlContent}
-            title={`Preview of project ${projectId}`}
-            className="w-full h-screen border-none bg-white"
-            sandbox="allow-scripts allow-same-origin allow-forms"
-        />
+        <div className="w-full h-screen">
+            <PreviewFrame files={files} title={`Preview of project ${projectId}`} />
+        </div>
     );
 };
 
@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import type { Project } from '../types';
+import { checkSubdomain, getSiteUrl, suggestSubdomain, validateSubdomain, SubdomainStatus } from '../services/publishService';
+import { XIcon, CloudUploadIcon, SpinnerIcon, ExternalLinkIcon, CheckCircleIcon, TrashIcon } from './Icons';
+import ConfirmModal from './ConfirmModal';
+
+interface PublishModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: Project;
+  isPublishing: boolean;
+  /** Publish the production build instead of the source files; shared with the build settings. */
+  useBuild: boolean;
+  onUseBuildChange: (useBuild: boolean) => void;
+  onPublish: (subdomain: string) => void;
+  onUnpublish: () => void;
+}
+
+const CHECK_DEBOUNCE_MS = 500;
+
+type CheckState = { status: 'idle' | 'checking' } | { status: SubdomainStatus } | { status: 'invalid' | 'error'; message: string };
+
+/** Publishing panel: the site's subdomain, publish/update, unpublish and the publish history. */
+const PublishModal: React.FC<PublishModalProps> = ({ isOpen, onClose, project, isPublishing, useBuild, onUseBuildChange, onPublish, onUnpublish }) => {
+  const [subdomain, setSubdomain] = useState('');
+  const [check, setCheck] = useState<CheckState>({ status: 'idle' });
+  const [isUnpublishConfirmOpen, setIsUnpublishConfirmOpen] = useState(false);
+  const current = project.publishedSubdomain;
+
+  useEffect(() => {
+    if (isOpen) setSubdomain(current || suggestSubdomain(project.name));
+  }, [isOpen, current, project.name]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const invalid = validateSubdomain(subdomain);
+    if (invalid) {
+      setCheck({ status: 'invalid', message: invalid });
+      return;
+    }
+    let isCancelled = false;
+    setCheck({ status: 'checking' });
+    const timer = setTimeout(() => {
+      checkSubdomain(subdomain, current)
+        .then(status => { if (!isCancelled) setCheck({ status }); })
+        .catch(e => { if (!isCancelled) setCheck({ status: 'error', message: e instanceof Error ? e.message : String(e) }); });
+    }, CHECK_DEBOUNCE_MS);
+    return () => { isCancelled = true; clearTimeout(timer); };
+  }, [isOpen, subdomain, current]);
+
+  if (!isOpen) return null;
+
+  // A failed check does not block publishing; Puter still rejects a name that is taken.
+  const canPublish = !isPublishing && (check.status === 'available' || check.status === 'current' || check.status === 'error');
+  const history = project.publishHistory || [];
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center backdrop-blur-sm transition-opacity duration-300"
+        onClick={onClose}
+        aria-modal="true"
+        role="dialog"
+      >
+        <div
+          className="bg-slate-800 rounded-xl shadow-2xl p-6 w-full max-w-lg m-4 ring-1 ring-slate-700 flex flex-col max-h-[90vh]"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-bold text-slate-100">Publish</h2>
+            <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-700" aria-label="Close">
+              <XIcon className="w-5 h-5" />
+            </button>
+          </div>
+
+          {current ? (
+            <div className="flex items-center gap-2 mb-5 text-sm bg-green-500/10 border border-green-500/30 rounded-lg px-3 py-2">
+              <CheckCircleIcon className="w-4 h-4 text-green-400 flex-shrink-0" />
+              <span className="text-slate-300">Live at</span>
+              <a href={getSiteUrl(current)} target="_blank" rel="noopener noreferrer" className="text-indigo-300 hover:underline truncate flex items-center gap-1">
+                {getSiteUrl(current)} <ExternalLinkIcon className="w-3.5 h-3.5 flex-shrink-0" />
+              </a>
+            </div>
+          ) : (
+            <p className="mb-5 text-sm text-slate-400">Proyek ini belum dipublikasikan.</p>
+          )}
+
+          <label htmlFor="subdomain" className="block text-sm font-medium text-slate-300 mb-2">Subdomain</label>
+          <div className="flex items-center bg-slate-900 border border-slate-600 rounded-lg focus-within:ring-2 focus-within:ring-indigo-500">
+            <span className="pl-3 text-sm text-slate-500">https://</span>
+            <input
+              id="subdomain"
+              type="text"
+              value={subdomain}
+              onChange={(e) => setSubdomain(e.target.value.toLowerCase().trim())}
+              onKeyDown={(e) => e.key === 'Enter' && canPublish && onPublish(subdomain)}
+              className="flex-1 min-w-0 bg-transparent text-slate-100 text-sm py-2 focus:outline-none"
+              spellCheck={false}
+            />
+            <span className="pr-3 text-sm text-slate-500">.puter.site</span>
+          </div>
+          <p className={`mt-2 text-xs min-h-[1rem] ${check.status === 'available' || check.status === 'current' ? 'text-green-400' : check.status === 'checking' || check.status === 'idle' ? 'text-slate-500' : 'text-amber-300'}`}>
+            {check.status === 'checking' && 'Checking availability...'}
+            {check.status === 'available' && 'Available'}
+            {check.status === 'current' && 'Subdomain situs ini saat ini'}
+            {check.status === 'taken' && 'Sudah dipakai oleh situs lain milik Anda. Pilih subdomain lain.'}
+            {(check.status === 'invalid' || check.status === 'error') && check.message}
+          </p>
+          {current && subdomain !== current && check.status === 'available' && (
+            <p className="mt-1 text-xs text-slate-400">Situs akan dipindah ke subdomain baru; {current}.puter.site tidak lagi aktif.</p>
+          )}
+
+          <label className="flex items-center gap-2 mt-4 text-sm text-slate-300 cursor-pointer">
+            <input type="checkbox" checked={useBuild} onChange={(e) => onUseBuildChange(e.target.checked)} className="accent-indigo-500" />
+            Publish the production build
+          </label>
+          <p className="mt-1 ml-6 text-xs text-slate-500">File yang sudah dihapus dari proyek juga dihapus dari situs.</p>
+
+          {history.length > 0 && (
+            <div className="mt-5 flex-1 min-h-0 flex flex-col">
+              <h3 className="text-sm font-semibold text-slate-300 mb-2">History</h3>
+              <ul className="flex-1 min-h-0 overflow-y-auto border border-slate-700 rounded-lg divide-y divide-slate-700/60 text-xs">
+                {history.map(record => (
+                  <li key={record.publishedAt} className="flex items-center gap-3 px-3 py-2">
+                    <span className="text-slate-300 whitespace-nowrap">{new Date(record.publishedAt).toLocaleString()}</span>
+                    <span className="text-slate-400 truncate flex-1">{record.subdomain}</span>
+                    <span className="text-slate-400 whitespace-nowrap">
+                      {record.fileCount} file{record.fileCount !== 1 ? 's' : ''}
+                      {record.removedCount > 0 && <>, {record.removedCount} removed</>}
+                    </span>
+                    <span className={`px-1.5 rounded ${record.isBuild ? 'bg-indigo-500/20 text-indigo-200' : 'bg-slate-700 text-slate-300'}`}>{record.isBuild ? 'build' : 'source'}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex items-center gap-3 mt-6">
+            {current && (
+              <button
+                onClick={() => setIsUnpublishConfirmOpen(true)}
+                disabled={isPublishing}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg text-red-300 hover:bg-red-500/10 disabled:opacity-50 transition-colors"
+              >
+                <TrashIcon className="w-4 h-4" /> Unpublish
+              </button>
+            )}
+            <button
+              onClick={() => onPublish(subdomain)}
+              disabled={!canPublish}
+              className="ml-auto flex items-center gap-2 px-5 py-2 bg-indigo-600 hover:bg-indigo-500 text-white font-semibold rounded-lg transition-colors text-sm disabled:bg-slate-500 disabled:cursor-not-allowed"
+            >
+              {isPublishing ? <><SpinnerIcon className="w-4 h-4" /> Publishing...</> : <><CloudUploadIcon className="w-4 h-4" /> {current ? (subdomain === current ? 'Update' : 'Move & Publish') : 'Publish'}</>}
+            </button>
+          </div>
+        </div>
+      </div>
+      <ConfirmModal
+        isOpen={isUnpublishConfirmOpen}
+        onClose={() => setIsUnpublishConfirmOpen(false)}
+        onConfirm={() => { setIsUnpublishConfirmOpen(false); onUnpublish(); }}
+        title="Unpublish Website"
+        confirmText="Unpublish"
+      >
+        <p>Situs <strong className="font-semibold text-slate-100">{current}.puter.site</strong> akan dihentikan dan folder hosting-nya dihapus.</p>
+        <p className="mt-2 text-sm text-slate-400">File proyek tidak terpengaruh. Anda bisa mempublikasikannya lagi kapan saja.</p>
+      </ConfirmModal>
+    </>
+  );
+};
+
+export default PublishModal;
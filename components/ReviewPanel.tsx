@@ -0,0 +1,142 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { FileOperation, ProjectFile } from '../types';
+import { diffLines, toSideBySide, SideBySideRow } from '../utils/diffUtils';
+import { FilePlusIcon, FileEditIcon, FileMinusIcon, CheckCircleIcon, XIcon } from './Icons';
+
+interface ReviewPanelProps {
+  isOpen: boolean;
+  operations: FileOperation[];
+  baseFiles: ProjectFile[];
+  onApply: (accepted: FileOperation[]) => void;
+  onDiscard: () => void;
+}
+
+type Decision = 'accepted' | 'rejected';
+
+const operationIcons: Record<FileOperation['operation'], React.ReactNode> = {
+  CREATE: <FilePlusIcon className="w-4 h-4 text-green-400" />,
+  UPDATE: <FileEditIcon className="w-4 h-4 text-blue-400" />,
+  DELETE: <FileMinusIcon className="w-4 h-4 text-red-400" />,
+};
+
+const cellClasses = {
+  equal: 'text-slate-300',
+  remove: 'bg-red-900/40 text-red-200',
+  add: 'bg-green-900/40 text-green-200',
+};
+
+const DiffCell: React.FC<{ cell: SideBySideRow['left'] }> = ({ cell }) => (
+  <>
+    <td className="w-10 px-2 text-right text-slate-600 select-none align-top">{cell?.number ?? ''}</td>
+    <td className={`px-2 whitespace-pre-wrap break-all align-top ${cell ? cellClasses[cell.type] : 'bg-slate-800/60'}`}>{cell?.text ?? ''}</td>
+  </>
+);
+
+export const SideBySideDiff: React.FC<{ before: string; after: string }> = ({ before, after }) => {
+  const rows = useMemo(() => toSideBySide(diffLines(before, after)), [before, after]);
+
+  return (
+    <table className="w-full table-fixed font-mono text-xs leading-relaxed">
+      <colgroup><col className="w-10" /><col /><col className="w-10" /><col /></colgroup>
+      <tbody>
+        {rows.map((row, i) => (
+          <tr key={i}>
+            <DiffCell cell={row.left} />
+            <DiffCell cell={row.right} />
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ isOpen, operations, baseFiles, onApply, onDiscard }) => {
+  const [decisions, setDecisions] = useState<Decision[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    setDecisions(operations.map(() => 'accepted'));
+    setActiveIndex(0);
+  }, [operations]);
+
+  if (!isOpen || operations.length === 0) return null;
+
+  const activeOperation = operations[activeIndex];
+  const before = baseFiles.find(f => f.path === activeOperation.path)?.content ?? '';
+  const after = activeOperation.operation === 'DELETE' ? '' : activeOperation.content ?? '';
+  const acceptedCount = decisions.filter(d => d === 'accepted').length;
+
+  const setDecision = (index: number, decision: Decision) => {
+    setDecisions(prev => prev.map((d, i) => i === index ? decision : d));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center backdrop-blur-sm" aria-modal="true" role="dialog">
+      <div className="bg-slate-800 rounded-xl shadow-2xl w-full max-w-6xl h-[85vh] m-4 ring-1 ring-slate-700 flex flex-col overflow-hidden">
+        <div className="flex justify-between items-center p-4 border-b border-slate-700 flex-shrink-0">
+          <h2 className="text-xl font-bold text-slate-100">Review AI Changes</h2>
+          <span className="text-sm text-slate-400">{acceptedCount} of {operations.length} accepted</span>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <ul className="w-64 flex-shrink-0 border-r border-slate-700 overflow-y-auto p-2 space-y-1">
+            {operations.map((op, index) => (
+              <li key={`${op.path}-${index}`}>
+                <div
+                  onClick={() => setActiveIndex(index)}
+                  className={`flex items-center gap-2 p-2 rounded-md cursor-pointer text-sm ${index === activeIndex ? 'bg-slate-700' : 'hover:bg-slate-700/50'} ${decisions[index] === 'rejected' ? 'opacity-50 line-through' : ''}`}
+                >
+                  {operationIcons[op.operation]}
+                  <span className="font-mono truncate flex-1">{op.path}</span>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); setDecision(index, 'accepted'); }}
+                    className={`p-1 rounded ${decisions[index] === 'accepted' ? 'text-green-400' : 'text-slate-500 hover:text-green-400'}`}
+                    title="Accept"
+                    aria-label={`Accept ${op.path}`}
+                  >
+                    <CheckCircleIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); setDecision(index, 'rejected'); }}
+                    className={`p-1 rounded ${decisions[index] === 'rejected' ? 'text-red-400' : 'text-slate-500 hover:text-red-400'}`}
+                    title="Reject"
+                    aria-label={`Reject ${op.path}`}
+                  >
+                    <XIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex-1 min-w-0 flex flex-col">
+            <div className="flex text-xs font-semibold text-slate-400 border-b border-slate-700 flex-shrink-0">
+              <div className="w-1/2 px-3 py-2 border-r border-slate-700">Before</div>
+              <div className="w-1/2 px-3 py-2">After ({activeOperation.operation})</div>
+            </div>
+            <div className="flex-1 overflow-auto bg-[#282c34]">
+              <SideBySideDiff before={before} after={after} />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-4 p-4 border-t border-slate-700 flex-shrink-0">
+          <button
+            onClick={onDiscard}
+            className="px-5 py-2 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-slate-500"
+          >
+            Discard All
+          </button>
+          <button
+            onClick={() => onApply(operations.filter((_, i) => decisions[i] === 'accepted'))}
+            className="px-5 py-2 bg-indigo-600 hover:bg-indigo-500 text-white font-semibold rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            Apply {acceptedCount} Change{acceptedCount !== 1 ? 's' : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewPanel;
@@ -6,9 +6,10 @@ interface ShareModalProps {
   onClose: () => void;
   title: string;
   url: string;
+  message?: string;
 }
 
-const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, title, url }) => {
+const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, title, url, message = 'Your website is now live! Share this URL with anyone to show off your creation.' }) => {
   const [copied, setCopied] = useState(false);
 
   const handleCopy = useCallback(() => {
@@ -39,7 +40,7 @@ const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, title, url })
             </button>
         </div>
         <div className="text-slate-300 mb-6">
-          <p>Your website is now live! Share this URL with anyone to show off your creation.</p>
+          <p>{message}</p>
         </div>
 
         <div className="flex items-center bg-slate-900 border border-slate-600 rounded-lg p-2 gap-2">
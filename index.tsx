@@ -2,6 +2,13 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { AuthProvider } from './auth';
+import { createProjectStore, resolveProjectStoreKind, setProjectStore } from './services/projectService';
+import { createAiProvider, resolveAiProviderConfig, setAiProvider } from './services/aiService';
+import { createShareBackend, resolveShareBackendKind, setShareBackend } from './services/shareService';
+
+setProjectStore(createProjectStore(resolveProjectStoreKind()));
+setAiProvider(createAiProvider(resolveAiProviderConfig()));
+setShareBackend(createShareBackend(resolveShareBackendKind()));
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
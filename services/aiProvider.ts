@@ -0,0 +1,30 @@
+export type AiProviderKind = 'puter' | 'openai-compatible' | 'scripted';
+
+export interface AiModelInfo {
+    id: string;
+    name: string;
+}
+
+export interface AiChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+/** One streamed piece of the model's reply. */
+export interface AiStreamPart {
+    text?: string;
+}
+
+export interface AiChatOptions {
+    model: string;
+    signal?: AbortSignal;
+}
+
+/**
+ * A chat model backend that streams its reply as text parts.
+ */
+export interface AiProvider {
+    readonly kind: AiProviderKind;
+    listModels(): Promise<AiModelInfo[]>;
+    streamChat(messages: AiChatMessage[], options: AiChatOptions): AsyncIterable<AiStreamPart>;
+}
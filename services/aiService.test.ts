@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import type { ProjectFile } from '../types';
+import { setAiProvider, streamAIAgentResponse, StreamChunk } from './aiService';
+import { createScriptedAiProvider } from './providers/scriptedAiProvider';
+
+// Too big to fit the prompt's file budget next to another one, so only an outline is sent.
+const bigFile = (path: string): ProjectFile => ({ path, content: `const answer = 1;\n${'// filler line\n'.repeat(7000)}` });
+
+const FILES: ProjectFile[] = [
+    { path: 'index.html', content: '<script src="app.js"></script>' },
+    { path: 'app.js', content: 'start();' },
+    bigFile('big.js'),
+];
+
+const RESPONSE = `-- rencana --
+Ubah app.js
+Tambah style.css
+-#
+-- penjelasan --
+Mengubah pemanggilan di app.js.
+-#
+-- patch: app.js --
+<<<<<<< SEARCH
+start();
+=======
+start(true);
+>>>>>>> REPLACE
+-#
+-- style.css --
+body { margin: 0; }
+-#
+`;
+const READ_BIG = '-- rencana --\nLihat big.js dulu\n-#\n-- baca --\nbig.js\n-#\n';
+const PATCH_BIG = `-- penjelasan --
+Mengubah jawaban di big.js.
+-#
+-- patch: big.js --
+<<<<<<< SEARCH
+const answer = 1;
+=======
+const answer = 2;
+>>>>>>> REPLACE
+-#
+`;
+
+const run = async (responses: string[], files = FILES) => {
+    const provider = createScriptedAiProvider(responses, { chunkSize: 7 });
+    setAiProvider(provider);
+    const chunks: StreamChunk[] = [];
+    for await (const chunk of streamAIAgentResponse('Ubah jawabannya', files, 'blank', 'none', 'scripted')) chunks.push(chunk);
+    const systemPrompts = provider.calls.map(messages => messages[0].content);
+    return { chunks, systemPrompts };
+};
+
+describe('streamAIAgentResponse', () => {
+    it('parses a response streamed in small parts', async () => {
+        const { chunks, systemPrompts } = await run([RESPONSE]);
+
+        expect(systemPrompts).toHaveLength(1);
+        expect(systemPrompts[0]).toContain('File: `app.js`');
+        expect(chunks).toEqual([
+            { type: 'thought', content: 'Ubah app.js' },
+            { type: 'thought', content: 'Tambah style.css' },
+            { type: 'explanation', content: 'Mengubah pemanggilan di app.js.' },
+            expect.objectContaining({ type: 'patch', path: 'app.js', hunks: [{ search: 'start();', replace: 'start(true);' }] }),
+            { type: 'file', path: 'style.css', content: 'body { margin: 0; }' },
+        ]);
+    });
+
+    it('adds files the model asks to read and repeats the request', async () => {
+        const { chunks, systemPrompts } = await run([READ_BIG, PATCH_BIG]);
+
+        expect(systemPrompts).toHaveLength(2);
+        expect(systemPrompts[0]).not.toContain('File: `big.js`');
+        expect(systemPrompts[0]).toContain('`big.js` (~');
+        expect(systemPrompts[1]).toContain('File: `big.js`');
+        expect(chunks).toEqual([
+            { type: 'thought', content: 'Lihat big.js dulu' },
+            { type: 'thought', content: 'Membaca file: big.js' },
+            { type: 'explanation', content: 'Mengubah jawaban di big.js.' },
+            expect.objectContaining({ type: 'patch', path: 'big.js', hunks: [{ search: 'const answer = 1;', replace: 'const answer = 2;' }] }),
+        ]);
+    });
+
+    it('answers without another round when nothing new is asked for', async () => {
+        const { chunks, systemPrompts } = await run(['-- baca --\nindex.html\nmissing.js\n-#\n', PATCH_BIG]);
+
+        expect(systemPrompts).toHaveLength(1);
+        expect(chunks).toEqual([]);
+    });
+
+    it('does not repeat a request that already changed files', async () => {
+        const { chunks, systemPrompts } = await run([`${PATCH_BIG}-- baca --\nbig.js\n-#\n`, PATCH_BIG]);
+
+        expect(systemPrompts).toHaveLength(1);
+        expect(chunks.map(c => c.type)).toEqual(['explanation', 'patch']);
+    });
+
+    it('stops asking after the last read round', async () => {
+        const files = [...FILES, bigFile('more.js'), bigFile('extra.js')];
+        const { chunks, systemPrompts } = await run(['-- baca --\nbig.js\n-#\n', '-- baca --\nmore.js\n-#\n', '-- baca --\nextra.js\n-#\n', PATCH_BIG], files);
+
+        expect(systemPrompts).toHaveLength(3);
+        expect(chunks).toEqual([
+            { type: 'thought', content: 'Membaca file: big.js' },
+            { type: 'thought', content: 'Membaca file: more.js' },
+        ]);
+    });
+});
@@ -1,9 +1,79 @@
 
 
-// Add a global declaration for the `puter` object from the script tag
-declare const puter: any;
+import type { ProjectFile, TemplateType, StyleLibrary, ChatMessage, PreviewError } from '../types';
+import type { StreamChunk } from './responseTokenizer';
+import { createResponseTokenizer, END_MARKER, SEARCH_MARKER, DIVIDER_MARKER, REPLACE_MARKER } from './responseTokenizer';
+import type { AiProvider, AiProviderKind, AiModelInfo, AiChatMessage } from './aiProvider';
+import { createPuterAiProvider } from './providers/puterAiProvider';
+import { createOpenAiCompatibleProvider } from './providers/openAiCompatibleProvider';
+import { createScriptedAiProvider } from './providers/scriptedAiProvider';
+import { buildHistoryMessages } from './promptBuilder';
+import { planContext, ContextPlan } from './contextPlanner';
+import { isBinaryFile } from '../utils/fileUtils';
+
+const PROVIDER_STORAGE_KEY = 'ai-provider';
+// How many times per request the model may ask to read outlined files before it must answer.
+const MAX_READ_ROUNDS = 2;
+
+interface AiProviderConfig {
+    kind: AiProviderKind;
+    baseUrl?: string;
+    apiKey?: string;
+    responses?: string[];
+}
+
+let activeProvider: AiProvider = createPuterAiProvider();
+
+export const createAiProvider = (config: AiProviderConfig): AiProvider => {
+    switch (config.kind) {
+        case 'openai-compatible':
+            return createOpenAiCompatibleProvider({ baseUrl: config.baseUrl || 'http://localhost:11434/v1', apiKey: config.apiKey });
+        case 'scripted':
+            return createScriptedAiProvider(config.responses || []);
+        case 'puter':
+        default:
+            return createPuterAiProvider();
+    }
+};
+
+/**
+ * Replaces the provider used by `streamAIAgentResponse`. Call before the app renders.
+ */
+export const setAiProvider = (provider: AiProvider): void => {
+    activeProvider = provider;
+};
+
+export const getAiProvider = (): AiProvider => activeProvider;
 
-import type { ProjectFile, FileOperation, TemplateType, StyleLibrary } from '../types';
+export const listAiModels = (): Promise<AiModelInfo[]> => activeProvider.listModels();
+
+/**
+ * Reads the provider config from the `?ai=` and `?aiBaseUrl=` query parameters, then from
+ * localStorage, falling back to Puter. A query parameter choice is remembered for later visits.
+ */
+export const resolveAiProviderConfig = (): AiProviderConfig => {
+    const params = new URLSearchParams(window.location.search);
+    const kind = params.get('ai') as AiProviderKind | null;
+    if (kind) {
+        const stored = readStoredProviderConfig();
+        const config: AiProviderConfig = { ...(stored?.kind === kind ? stored : {}), kind };
+        const baseUrl = params.get('aiBaseUrl');
+        if (baseUrl) config.baseUrl = baseUrl;
+        localStorage.setItem(PROVIDER_STORAGE_KEY, JSON.stringify(config));
+        return config;
+    }
+    return readStoredProviderConfig() || { kind: 'puter' };
+};
+
+const readStoredProviderConfig = (): AiProviderConfig | null => {
+    try {
+        const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+        return stored ? JSON.parse(stored) : null;
+    } catch (e) {
+        console.error('Ignoring invalid AI provider config:', e);
+        return null;
+    }
+};
 
 const getStackDescription = (template: TemplateType, styleLibrary: StyleLibrary): string => {
     let stack = 'HTML, CSS, and JavaScript';
@@ -15,36 +85,36 @@ const getStackDescription = (template: TemplateType, styleLibrary: StyleLibrary)
     return stack;
 };
 
-export interface StreamChunk {
-    type: 'thought' | 'explanation' | 'file' | 'error';
-    content: string;
-    path?: string;
-}
+export type { StreamChunk } from './responseTokenizer';
 
-/**
- * Calls the Puter AI with a streaming request and parses the structured response in real-time.
- * @returns An async generator yielding parsed chunks of data.
- */
-export async function* streamAIAgentResponse(
-    userGoal: string,
-    files: ProjectFile[],
-    template: TemplateType,
-    styleLibrary: StyleLibrary,
-    model: string,
-): AsyncGenerator<StreamChunk> {
-    
-    const stackDescription = getStackDescription(template, styleLibrary);
-    
-    const fileContentsWithPaths = files.length > 0
-        ? files.map(f => `File: \`${f.path}\`\n\`\`\`\n${f.content}\n\`\`\``).join('\n\n---\n\n')
-        : 'No files exist yet. You are starting from a blank slate.';
+const renderFileContext = (files: ProjectFile[], plan: ContextPlan): string => {
+    if (files.length === 0) return 'No files exist yet. You are starting from a blank slate.';
+
+    const fullFiles = plan.included
+        .map(f => `File: \`${f.path}\`\n\`\`\`\n${f.content}\n\`\`\``)
+        .join('\n\n---\n\n');
+    if (plan.outlined.length === 0) return fullFiles;
 
-    const systemPrompt = `You are an expert autonomous front-end developer AI. Your task is to achieve the user's goal by generating a single, complete, structured response that includes your plan, an explanation, and all necessary file modifications. The user is Indonesian.
+    const outlines = plan.outlined.map(o => `*   \`${o.path}\` (${o.binary ? 'binary asset, reference it by path only' : `~${o.tokens} tokens`}): ${o.summary}`).join('\n');
+    return `${fullFiles}
+
+**Other project files (outline only, content NOT shown):**
+${outlines}
+
+If you need the full content of an outlined file to do the task (you MUST have it before updating or patching that file), respond ONLY with this block and nothing else; the files will then be added and the request repeated:
+
+-- baca --
+path/of/file/one
+path/of/file/two
+-#`;
+};
+
+const buildSystemPrompt = (stackDescription: string, fileContext: string, hasOutlines: boolean): string => `You are an expert autonomous front-end developer AI. Your task is to achieve the user's goal by generating a single, complete, structured response that includes your plan, an explanation, and all necessary file modifications. The user is Indonesian.
 
 **PROJECT CONTEXT:**
 *   **Tech Stack:** The project is built using **${stackDescription}**.
-*   **Project Files & Content:** You have the full and complete content of all project files below.
-${fileContentsWithPaths}
+*   **Project Files & Content:** ${hasOutlines ? 'The full content of the most relevant project files is below; the remaining files are listed as outlines.' : 'You have the full and complete content of all project files below.'}
+${fileContext}
 
 **VERY STRICT RESPONSE FORMAT:**
 You MUST follow this exact format. Do not add any conversational text or introductions outside of this structure.
@@ -61,78 +131,115 @@ A brief, user-facing explanation of the changes being made, in Indonesian.
 The COMPLETE, new content for the file. This must be the entire file from start to finish. For deletions, the content must be the single word DELETE.
 -#
 
-(Repeat the file block for every file you need to create, update, or delete.)
+-- patch: [full_file_path] --
+${SEARCH_MARKER}
+The exact lines currently in the file that should be replaced.
+${DIVIDER_MARKER}
+The lines that replace them.
+${REPLACE_MARKER}
+-#
+
+(Repeat the file or patch block for every file you need to create, update, or delete.)
+
+Each header (\`-- ... --\`) and each end marker (\`${END_MARKER}\`) MUST be on a line of its own. If a file genuinely contains a line that is exactly \`${END_MARKER}\`, write that line as \`\\${END_MARKER}\` instead.
 
 **CORE PRINCIPLES:**
-*   You already have the full content of all files. Do not ask to read them.
-*   For file updates, you MUST provide the ENTIRE new file content.
+*   Do not ask to read files whose full content is shown above.
+*   Earlier turns of this conversation may precede the user request. Use them to understand follow-ups like "undo that" or "like before", but the file contents above are always the current truth.
+*   For small edits to an existing file, prefer a patch block. A patch block may contain several SEARCH/REPLACE hunks, applied in order.
+*   Each SEARCH section must match the current file content exactly (including indentation) and must be unique within the file. Include a few surrounding lines if needed to make it unique.
+*   For new files, deletions, or rewrites of most of a file, use a full file block with the ENTIRE new file content.
 *   If you are not changing a file, DO NOT include a block for it.
+*   Never write, patch, or ask to read binary assets (images, fonts); use them by referencing their paths.
 *   Write clean, production-quality code.`;
 
-    const fullPrompt = `${systemPrompt}\n\n**USER REQUEST:**\n${userGoal}`;
+const describePreviewError = (error: PreviewError): string => {
+    const position = error.line ? `line ${error.line}${error.column ? `:${error.column}` : ''}` : '';
+    const location = error.path ? ` (${error.path}${position ? `, ${position}` : ''})` : position ? ` (${position} of the preview page)` : '';
+    return `*   [${error.kind}] ${error.message}${location}`;
+};
 
-    try {
-        const responseStream = await puter.ai.chat(fullPrompt, {
-            model: model,
-            stream: true,
-        });
-
-        let buffer = '';
-        let currentSection: 'rencana' | 'penjelasan' | 'file' | null = null;
-        let currentFilePath: string | null = null;
-
-        for await (const part of responseStream) {
-            if (part?.text) {
-                buffer += part.text;
-
-                let changedInLoop = true;
-                while (changedInLoop) {
-                    changedInLoop = false;
-
-                    if (currentSection === null) {
-                        const match = buffer.match(/^--\s*([\s\S]+?)\s*--\n/);
-                        if (match) {
-                            const sectionName = match[1].trim();
-                            if (sectionName === 'rencana' || sectionName === 'penjelasan') {
-                                currentSection = sectionName;
-                            } else {
-                                currentSection = 'file';
-                                currentFilePath = sectionName;
-                            }
-                            buffer = buffer.substring(match[0].length);
-                            changedInLoop = true;
-                        }
-                    }
+/**
+ * Builds the request that asks the model to fix errors the preview reported, either right
+ * after its previous changes (`auto`) or when the user sends them from the preview console.
+ * Errors without a file have line numbers of the preview page, where local CSS and JS files
+ * are inlined into index.html.
+ */
+export const buildErrorFixGoal = (errors: PreviewError[], reportedBy: 'auto' | 'user' = 'auto'): string => `${reportedBy === 'auto'
+    ? 'The changes you just made were run in the browser preview, and it reported these errors:'
+    : 'The browser preview of the project reported these errors in its console:'}
+
+${errors.map(describePreviewError).join('\n')}
 
-                    if (currentSection !== null) {
-                        const endMatchIndex = buffer.indexOf('-#');
-                        if (endMatchIndex !== -1) {
-                            const content = buffer.substring(0, endMatchIndex).trim();
-                            
-                            if (currentSection === 'rencana') {
-                                // Fix: 'yield' is not allowed in a 'forEach' callback. Replaced with a for...of loop.
-                                const thoughts = content.split('\n').filter(t => t.trim());
-                                for (const t of thoughts) {
-                                    yield { type: 'thought', content: t.trim() };
-                                }
-                            } else if (currentSection === 'penjelasan') {
-                                yield { type: 'explanation', content };
-                            } else if (currentSection === 'file' && currentFilePath) {
-                                yield { type: 'file', path: currentFilePath, content };
-                            }
-
-                            buffer = buffer.substring(endMatchIndex + 2).trimStart();
-                            currentSection = null;
-                            currentFilePath = null;
-                            changedInLoop = true;
-                        }
+Fix the cause of these errors with the smallest necessary changes. Do not change unrelated behaviour or styling. If an error comes from an external resource that cannot be fixed in the project files, say so in your explanation and leave the files unchanged.`;
+
+/**
+ * Calls the active AI provider with a streaming request and parses the structured response in real-time.
+ * Large projects only get the most relevant files in full; if the model asks to read
+ * outlined files, they are added and the request is repeated (up to MAX_READ_ROUNDS times).
+ * Aborting `signal` ends the generator quietly after the chunk being parsed; blocks that
+ * were still open are reported as incomplete.
+ * @returns An async generator yielding parsed chunks of data.
+ */
+export async function* streamAIAgentResponse(
+    userGoal: string,
+    files: ProjectFile[],
+    template: TemplateType,
+    styleLibrary: StyleLibrary,
+    model: string,
+    history: ChatMessage[] = [],
+    sessionId = '',
+    signal?: AbortSignal,
+): AsyncGenerator<StreamChunk> {
+    
+    const stackDescription = getStackDescription(template, styleLibrary);
+    const pinnedPaths: string[] = [];
+
+    for (let round = 0; round <= MAX_READ_ROUNDS; round++) {
+        const plan = planContext(files, { userGoal, history, pinnedPaths });
+        const systemPrompt = buildSystemPrompt(stackDescription, renderFileContext(files, plan), plan.outlined.length > 0);
+        const messages: AiChatMessage[] = [
+            { role: 'system', content: systemPrompt },
+            ...buildHistoryMessages(history, sessionId),
+            { role: 'user', content: userGoal },
+        ];
+
+        const requestedPaths: string[] = [];
+        let madeChanges = false;
+        try {
+            const responseStream = activeProvider.streamChat(messages, { model, signal });
+            const tokenizer = createResponseTokenizer();
+            const handle = function* (chunks: StreamChunk[]): Generator<StreamChunk> {
+                for (const chunk of chunks) {
+                    if (chunk.type === 'read') {
+                        requestedPaths.push(...(chunk.paths || []));
+                        continue;
                     }
+                    if (chunk.type === 'file' || chunk.type === 'patch') madeChanges = true;
+                    yield chunk;
+                }
+            };
+
+            for await (const part of responseStream) {
+                if (signal?.aborted) break;
+                if (part?.text) {
+                    yield* handle(tokenizer.push(part.text));
                 }
             }
+            yield* handle(tokenizer.end());
+        } catch (error) {
+            if (signal?.aborted) return;
+            console.error("Error during AI stream:", error);
+            const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+            yield { type: 'error', content: `AI stream failed: ${errorMessage}` };
+            return;
         }
-    } catch (error) {
-        console.error("Error during AI stream:", error);
-        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
-        yield { type: 'error', content: `AI stream failed: ${errorMessage}` };
+
+        const included = new Set(plan.included.map(f => f.path));
+        const newPaths = [...new Set(requestedPaths)].filter(p => !included.has(p) && files.some(f => f.path === p && !isBinaryFile(f)));
+        if (signal?.aborted || madeChanges || newPaths.length === 0 || round === MAX_READ_ROUNDS) return;
+
+        pinnedPaths.push(...newPaths);
+        yield { type: 'thought', content: `Membaca file: ${newPaths.join(', ')}` };
     }
-}
\ No newline at end of file
+}
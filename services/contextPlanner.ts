@@ -0,0 +1,168 @@
+import type { ChatMessage, ProjectFile } from '../types';
+import { estimateTokens } from './promptBuilder';
+import { isBinaryFile, getFileSize } from '../utils/fileUtils';
+
+// Token budget for file contents inlined into the system prompt.
+const FILE_CONTEXT_TOKEN_BUDGET = 24000;
+const OUTLINE_MAX_CHARS = 240;
+// Average line length above which a file is treated as minified/generated.
+const MINIFIED_LINE_LENGTH = 400;
+
+export interface FileOutline {
+    path: string;
+    tokens: number;
+    summary: string;
+    /** Binary asset such as an image or font; it can be referenced but not read or edited. */
+    binary?: boolean;
+}
+
+export interface ContextPlan {
+    /** Files sent in full, in prompt order. */
+    included: ProjectFile[];
+    /** Files that only get a one-line outline. */
+    outlined: FileOutline[];
+}
+
+export interface ContextPlanOptions {
+    userGoal: string;
+    history: ChatMessage[];
+    /** Paths that must be sent in full, e.g. files the model asked to read. */
+    pinnedPaths?: string[];
+    tokenBudget?: number;
+}
+
+const normalizePath = (path: string) => path.replace(/^\.?\//, '').toLowerCase();
+
+/**
+ * Collects the local paths an HTML or CSS file points at (href, src, url(), imports).
+ */
+const findReferences = (content: string): Set<string> => {
+    const references = new Set<string>();
+    const patterns = [
+        /(?:href|src)\s*=\s*["']([^"'#?]+)/gi,
+        /url\(\s*["']?([^"')#?]+)/gi,
+        /(?:import|from)\s*["']([^"']+)["']/gi,
+    ];
+    for (const pattern of patterns) {
+        for (const match of content.matchAll(pattern)) {
+            const target = match[1].trim();
+            if (!/^(?:[a-z]+:|\/\/)/i.test(target)) references.add(normalizePath(target));
+        }
+    }
+    return references;
+};
+
+const goalKeywords = (userGoal: string): string[] =>
+    [...new Set(userGoal.toLowerCase().split(/[^a-z0-9_-]+/).filter(w => w.length >= 4))];
+
+const isMinified = (file: ProjectFile): boolean => {
+    const lines = file.content.split('\n').length;
+    return file.content.length > 2000 && file.content.length / lines > MINIFIED_LINE_LENGTH;
+};
+
+/**
+ * Ranks files by how recently the AI touched them: the latest turn scores highest.
+ */
+const recentEditScores = (history: ChatMessage[]): Map<string, number> => {
+    const scores = new Map<string, number>();
+    let weight = 4;
+    for (let i = history.length - 1; i >= 0 && weight > 0; i--) {
+        const operations = history[i].operations;
+        if (!operations?.length) continue;
+        for (const op of operations) {
+            const path = normalizePath(op.path);
+            if (!scores.has(path)) scores.set(path, weight);
+        }
+        weight--;
+    }
+    return scores;
+};
+
+const outlineFile = (file: ProjectFile): string => {
+    const extension = file.path.split('.').pop()?.toLowerCase();
+    let items: string[] = [];
+
+    if (isMinified(file)) {
+        return 'minified/generated file';
+    } else if (extension === 'css') {
+        items = [...file.content.matchAll(/([^{}@;]+)\{/g)].map(m => m[1].trim()).filter(Boolean);
+    } else if (extension === 'js' || extension === 'mjs' || extension === 'ts') {
+        items = [...file.content.matchAll(/(?:function\s+([\w$]+)|class\s+([\w$]+)|(?:const|let|var)\s+([\w$]+)\s*=\s*(?:async\s*)?(?:\(|function))/g)]
+            .map(m => m[1] || m[2] || m[3]);
+    } else if (extension === 'html' || extension === 'htm') {
+        const title = file.content.match(/<title>([^<]*)<\/title>/i)?.[1];
+        items = [...(title ? [`title: ${title.trim()}`] : []), ...[...file.content.matchAll(/<h[1-3][^>]*>([^<]+)</gi)].map(m => m[1].trim())];
+    } else {
+        items = [file.content.split('\n').find(l => l.trim())?.trim() || 'empty'];
+    }
+
+    const summary = items.join(', ');
+    return summary.length > OUTLINE_MAX_CHARS ? `${summary.substring(0, OUTLINE_MAX_CHARS)}…` : summary || 'no outline available';
+};
+
+/**
+ * Decides which files go into the prompt in full. `index.html` and pinned files are
+ * always included; the rest are ranked by relevance to the user goal (referenced from
+ * included HTML/CSS, named in the goal, recently edited) and added while they fit the
+ * token budget. Everything else is sent as a short outline.
+ */
+export const planContext = (files: ProjectFile[], options: ContextPlanOptions): ContextPlan => {
+    const { userGoal, history, pinnedPaths = [], tokenBudget = FILE_CONTEXT_TOKEN_BUDGET } = options;
+    const goal = userGoal.toLowerCase();
+    const keywords = goalKeywords(userGoal);
+    const recent = recentEditScores(history);
+    const pinned = new Set(pinnedPaths.map(normalizePath));
+
+    const references = new Set<string>();
+    for (const file of files) {
+        if (/\.(html?|css)$/i.test(file.path) && !isBinaryFile(file)) findReferences(file.content).forEach(r => references.add(r));
+    }
+
+    // Binary assets (images, fonts) are never sent; the model only needs to know they exist.
+    const binaryOutlines: FileOutline[] = files.filter(isBinaryFile).map(file => ({
+        path: file.path,
+        tokens: 0,
+        binary: true,
+        summary: `binary ${file.mimeType || 'file'}, ${Math.ceil(getFileSize(file) / 1024)} KB`,
+    }));
+
+    const scored = files.filter(file => !isBinaryFile(file)).map(file => {
+        const path = normalizePath(file.path);
+        const fileName = path.split('/').pop() || path;
+        const stem = fileName.replace(/\.[^.]+$/, '');
+        const tokens = estimateTokens(file.content);
+        const isRequired = path === 'index.html' || pinned.has(path);
+
+        let score = 0;
+        if (references.has(path)) score += 5;
+        if (goal.includes(fileName) || (stem.length >= 3 && goal.includes(stem))) score += 6;
+        score += keywords.filter(k => path.includes(k)).length * 2;
+        score += Math.min(3, keywords.filter(k => file.content.toLowerCase().includes(k)).length);
+        score += recent.get(path) || 0;
+        if (isMinified(file)) score -= 6;
+
+        return { file, tokens, score, isRequired };
+    });
+
+    scored.sort((a, b) => Number(b.isRequired) - Number(a.isRequired) || b.score - a.score || a.tokens - b.tokens);
+
+    const includedPaths = new Set<string>();
+    let usedTokens = 0;
+    for (const entry of scored) {
+        if (entry.isRequired || usedTokens + entry.tokens <= tokenBudget) {
+            includedPaths.add(entry.file.path);
+            usedTokens += entry.tokens;
+        }
+    }
+
+    return {
+        // Keep the project's own file order so the prompt reads naturally.
+        included: files.filter(f => includedPaths.has(f.path)),
+        outlined: [
+            ...scored
+                .filter(entry => !includedPaths.has(entry.file.path))
+                .map(entry => ({ path: entry.file.path, tokens: entry.tokens, summary: outlineFile(entry.file) })),
+            ...binaryOutlines,
+        ],
+    };
+};
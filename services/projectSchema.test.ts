@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { PROJECT_SCHEMA_VERSION, parseProjectMeta, repairProjectMeta } from './projectSchema';
+
+const VERSION_0 = { id: 'p1', name: 'Old', updatedAt: 1, chatHistory: [{ role: 'user' }], template: 'vanilla' };
+
+describe('parseProjectMeta', () => {
+    it('migrates metadata saved before versioning', () => {
+        expect(parseProjectMeta(VERSION_0, 'p1')).toEqual({
+            id: 'p1', name: 'Old', updatedAt: 1, template: 'blank', styleLibrary: 'none',
+            currentSessionId: 'legacy-p1', chatHistory: [{ role: 'user', content: null }],
+        });
+    });
+
+    it('gives a migrated project the same session id on every load', () => {
+        expect(parseProjectMeta(VERSION_0, 'p1').currentSessionId).toBe(parseProjectMeta(VERSION_0, 'p1').currentSessionId);
+    });
+
+    it('lists every problem with invalid metadata', () => {
+        const data = { ...parseProjectMeta(VERSION_0, 'p1'), schemaVersion: PROJECT_SCHEMA_VERSION, name: 3, chatHistory: [{ role: 'bot', content: null }] };
+        expect(() => parseProjectMeta(data, 'p1')).toThrow('Project metadata is invalid:\n- name must be a non-empty string.\n- chatHistory[0].role must be "user", "assistant" or "system".');
+    });
+
+    it('rejects metadata from a newer schema', () => {
+        expect(() => parseProjectMeta({ ...VERSION_0, schemaVersion: PROJECT_SCHEMA_VERSION + 1 }, 'p1')).toThrow('newer version');
+    });
+});
+
+describe('repairProjectMeta', () => {
+    it('keeps valid fields and resets or drops invalid ones', () => {
+        const data = { ...VERSION_0, schemaVersion: 'one', id: 'other', styleLibrary: 'bulma', publishedSubdomain: '', chatHistory: [{ role: 'user', content: 'Hi' }, null] };
+        expect(repairProjectMeta(data, 'p1')).toEqual({
+            id: 'p1', name: 'Old', updatedAt: 1, template: 'blank', styleLibrary: 'none',
+            currentSessionId: 'legacy-p1', chatHistory: [{ role: 'user', content: 'Hi' }],
+        });
+    });
+});
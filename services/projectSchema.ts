@@ -0,0 +1,152 @@
+import type { ProjectMeta, StyleLibrary, TemplateType } from '../types';
+
+/**
+ * Version of the stored project metadata: `project.json` in Puter FS, the project record in
+ * IndexedDB. Metadata saved before versioning counts as version 0. When the stored shape
+ * changes, bump this and add the migration from the previous version to MIGRATIONS.
+ */
+export const PROJECT_SCHEMA_VERSION = 1;
+
+export const TEMPLATES: TemplateType[] = ['blank', 'portfolio', 'blog', 'landing-page'];
+export const STYLE_LIBRARIES: StyleLibrary[] = ['none', 'bootstrap', 'tailwindcss'];
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isOneOf = <T>(values: readonly T[], value: unknown): value is T => (values as readonly unknown[]).includes(value);
+
+/** Migrations get the id the project is stored under, as `data.id` may be missing or wrong. */
+type Migration = (data: Record<string, unknown>, id: string) => Record<string, unknown>;
+
+/** `MIGRATIONS[n]` turns version n metadata into version n + 1. */
+const MIGRATIONS: Migration[] = [
+    // Projects from before templates and chat sessions have no template, styleLibrary or
+    // currentSessionId, and 'vanilla' is what the blank template was called then. The session
+    // id is derived from the project id, so it stays the same on every load until the project is saved.
+    (data, id) => ({
+        ...data,
+        template: data.template === undefined || data.template === 'vanilla' ? 'blank' : data.template,
+        styleLibrary: data.styleLibrary ?? 'none',
+        currentSessionId: data.currentSessionId || `legacy-${id}`,
+        chatHistory: Array.isArray(data.chatHistory)
+            ? data.chatHistory.map((m: unknown) => isObject(m) && m.content === undefined ? { ...m, content: null } : m)
+            : data.chatHistory ?? [],
+    }),
+];
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+const isTimestamp = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const check = (isValid: boolean, problem: string): string[] => isValid ? [] : [problem];
+
+const checkMessage = (message: unknown, label: string): string[] => {
+    if (!isObject(message)) return [`${label} is not an object.`];
+    return [
+        ...check(isOneOf(['user', 'assistant', 'system'], message.role), `${label}.role must be "user", "assistant" or "system".`),
+        ...check(message.content === null || typeof message.content === 'string', `${label}.content must be a string or null.`),
+        ...check(message.operations === undefined || (Array.isArray(message.operations) && message.operations.every((op: unknown) =>
+            isObject(op) && isOneOf(['CREATE', 'UPDATE', 'DELETE'], op.operation) && typeof op.path === 'string')),
+            `${label}.operations must be a list of file operations.`),
+        ...check(message.thoughts === undefined || isStringList(message.thoughts), `${label}.thoughts must be a list of strings.`),
+        ...check(message.sessionId === undefined || typeof message.sessionId === 'string', `${label}.sessionId must be a string.`),
+    ];
+};
+
+const isPublishRecord = (record: unknown) => isObject(record)
+    && isTimestamp(record.publishedAt) && typeof record.subdomain === 'string'
+    && typeof record.fileCount === 'number' && typeof record.removedCount === 'number' && typeof record.isBuild === 'boolean';
+
+interface FieldRule {
+    check: (value: unknown, id: string) => string[];
+    /** What a repair puts in place of a required field that is missing or invalid. Optional fields are removed instead. */
+    fallback?: (id: string) => unknown;
+}
+
+// Keyed by every ProjectMeta field, so adding a field to Project without a rule does not compile.
+const FIELDS: Record<keyof ProjectMeta, FieldRule> = {
+    id: {
+        check: (value, id) => !isNonEmptyString(value) ? ['id must be a non-empty string.']
+            : check(value === id, `id "${value}" does not match the id the project is stored under ("${id}").`),
+        fallback: id => id,
+    },
+    name: { check: value => check(isNonEmptyString(value), 'name must be a non-empty string.'), fallback: () => 'Recovered project' },
+    updatedAt: { check: value => check(isTimestamp(value), 'updatedAt must be a timestamp.'), fallback: () => Date.now() },
+    chatHistory: {
+        check: value => Array.isArray(value)
+            ? value.flatMap((message, i) => checkMessage(message, `chatHistory[${i}]`))
+            : ['chatHistory must be a list of messages.'],
+        fallback: () => [],
+    },
+    currentSessionId: {
+        check: value => check(isNonEmptyString(value), 'currentSessionId must be a non-empty string.'),
+        fallback: () => Math.random().toString(36).substring(2, 9),
+    },
+    template: { check: value => check(isOneOf(TEMPLATES, value), `template "${value}" is not known.`), fallback: () => 'blank' },
+    styleLibrary: { check: value => check(isOneOf(STYLE_LIBRARIES, value), `styleLibrary "${value}" is not known.`), fallback: () => 'none' },
+    folders: { check: value => check(value === undefined || isStringList(value), 'folders must be a list of paths.') },
+    publishedSubdomain: { check: value => check(value === undefined || isNonEmptyString(value), 'publishedSubdomain must be a non-empty string.') },
+    publishHistory: {
+        check: value => check(value === undefined || (Array.isArray(value) && value.every(isPublishRecord)), 'publishHistory must be a list of publish records.'),
+    },
+    forkedFrom: {
+        check: value => check(value === undefined || (isObject(value) && typeof value.shareId === 'string' && isTimestamp(value.forkedAt)
+            && (value.sourceProjectId === undefined || typeof value.sourceProjectId === 'string')), 'forkedFrom must name the shared snapshot it was forked from.'),
+    },
+};
+
+// Long chat histories can have many broken messages; the rest are summarised.
+const MAX_LISTED_PROBLEMS = 10;
+
+const formatProblems = (problems: string[]) => {
+    const listed = problems.slice(0, MAX_LISTED_PROBLEMS);
+    if (problems.length > listed.length) listed.push(`...and ${problems.length - listed.length} more.`);
+    return `Project metadata is invalid:\n- ${listed.join('\n- ')}`;
+};
+
+/** Runs the migrations from the version `data` was saved with up to the current one. */
+const migrate = (data: Record<string, unknown>, id: string): Record<string, unknown> => {
+    const version = data.schemaVersion ?? 0;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+        throw new Error(`Project metadata is invalid:\n- schemaVersion must be a whole number, not ${JSON.stringify(version)}.`);
+    }
+    if (version > PROJECT_SCHEMA_VERSION) {
+        throw new Error(`This project was saved by a newer version of the app (schema ${version}). Please reload to update.`);
+    }
+    const { schemaVersion, ...migrated } = MIGRATIONS.slice(version).reduce((current, migration) => migration(current, id), data);
+    return migrated;
+};
+
+/**
+ * Migrates stored project metadata to the current schema and checks it. Throws an Error
+ * listing every problem if it is invalid. Migrated metadata is written back the next time
+ * the project is saved.
+ * @param id The id the project is stored under.
+ */
+export const parseProjectMeta = (data: unknown, id: string): ProjectMeta => {
+    if (!isObject(data)) throw new Error('Project metadata is not a JSON object.');
+    const migrated = migrate(data, id);
+    const problems = (Object.keys(FIELDS) as (keyof ProjectMeta)[]).flatMap(field => FIELDS[field].check(migrated[field], id));
+    if (problems.length > 0) throw new Error(formatProblems(problems));
+    return migrated as ProjectMeta;
+};
+
+/**
+ * Makes valid metadata out of whatever can be read of `data`: valid fields are kept, invalid
+ * chat messages are dropped and other invalid fields are reset to their defaults or removed.
+ * Throws if the metadata is from a newer schema, which this version cannot know how to repair.
+ */
+export const repairProjectMeta = (data: unknown, id: string): ProjectMeta => {
+    const raw = isObject(data) ? data : {};
+    const hasValidVersion = typeof raw.schemaVersion === 'number' && Number.isInteger(raw.schemaVersion) && raw.schemaVersion >= 0;
+    const migrated = migrate(hasValidVersion ? raw : { ...raw, schemaVersion: 0 }, id);
+    const repaired: Record<string, unknown> = { ...migrated };
+    for (const field of Object.keys(FIELDS) as (keyof ProjectMeta)[]) {
+        const rule = FIELDS[field];
+        if (field === 'chatHistory' && Array.isArray(repaired.chatHistory)) {
+            repaired.chatHistory = repaired.chatHistory.filter((message: unknown) => checkMessage(message, '').length === 0);
+        } else if (rule.check(repaired[field], id).length > 0) {
+            if (rule.fallback) repaired[field] = rule.fallback(id);
+            else delete repaired[field];
+        }
+    }
+    return repaired as ProjectMeta;
+};
@@ -1,134 +1,87 @@
-import type { Project, ProjectFile } from '../types';
+import type { Project, ProjectFile, ProjectSnapshot } from '../types';
+import type { ProjectListing, ProjectStore, ProjectStoreKind, SnapshotDetails } from './projectStore';
+import { createPuterProjectStore } from './stores/puterProjectStore';
+import { createIndexedDbProjectStore } from './stores/indexedDbProjectStore';
+import { createMemoryProjectStore } from './stores/memoryProjectStore';
 
-declare const puter: any;
+const STORE_STORAGE_KEY = 'project-store';
+const storeKinds: ProjectStoreKind[] = ['puter', 'indexeddb', 'memory'];
 
-const BASE_PATH = '~/AppData/Autonomous AI Web Builder';
+let activeStore: ProjectStore = createPuterProjectStore();
 
-// Ensure the base directory exists
-const ensureBaseDir = async () => {
-    try {
-        await puter.fs.stat(BASE_PATH);
-    } catch (e) {
-        // If it doesn't exist, create it
-        await puter.fs.mkdir(BASE_PATH, { createMissingParents: true });
+export const createProjectStore = (kind: ProjectStoreKind): ProjectStore => {
+    switch (kind) {
+        case 'indexeddb':
+            return createIndexedDbProjectStore();
+        case 'memory':
+            return createMemoryProjectStore();
+        case 'puter':
+        default:
+            return createPuterProjectStore();
     }
 };
 
-const getProjectPath = (id: string) => `${BASE_PATH}/${id}`;
-const getProjectMetaPath = (id: string) => `${getProjectPath(id)}/project.json`;
-const getProjectFilesPath = (id: string) => `${getProjectPath(id)}/src`;
-
 /**
- * Fetches all projects from Puter FS.
+ * Replaces the store used by all project functions below. Call before the app renders.
  */
-export const getProjects = async (): Promise<Project[]> => {
-    await ensureBaseDir();
-    const projectDirs = await puter.fs.readdir(BASE_PATH);
-    const projects: Project[] = [];
+export const setProjectStore = (store: ProjectStore): void => {
+    activeStore = store;
+};
+
+export const getProjectStore = (): ProjectStore => activeStore;
 
-    for (const dir of projectDirs) {
-        if (dir.is_dir) {
-            try {
-                const metaPath = getProjectMetaPath(dir.name);
-                const metaBlob = await puter.fs.read(metaPath);
-                const metaContent = await metaBlob.text();
-                const projectMeta = JSON.parse(metaContent);
-                projects.push(projectMeta);
-            } catch (e) {
-                console.error(`Could not read project metadata for ${dir.name}:`, e);
-            }
-        }
+/**
+ * Picks the store kind from the `?store=` query parameter, then from localStorage,
+ * falling back to Puter. A query parameter choice is remembered for later visits.
+ */
+export const resolveProjectStoreKind = (): ProjectStoreKind => {
+    const fromQuery = new URLSearchParams(window.location.search).get('store') as ProjectStoreKind | null;
+    if (fromQuery && storeKinds.includes(fromQuery)) {
+        localStorage.setItem(STORE_STORAGE_KEY, fromQuery);
+        return fromQuery;
     }
-    return projects;
+    const fromStorage = localStorage.getItem(STORE_STORAGE_KEY) as ProjectStoreKind | null;
+    return fromStorage && storeKinds.includes(fromStorage) ? fromStorage : 'puter';
 };
 
 /**
- * Fetches a single project by its ID from Puter FS.
+ * Lists all projects in the active store, without their files, plus those that could not be read.
  */
-export const getProject = async (id: string): Promise<Project | null> => {
-    await ensureBaseDir();
-    try {
-        const metaPath = getProjectMetaPath(id);
-        const metaBlob = await puter.fs.read(metaPath);
-        const project = JSON.parse(await metaBlob.text());
+export const getProjects = (): Promise<ProjectListing> => activeStore.listProjects();
 
-        const filesPath = getProjectFilesPath(id);
-        const projectFiles: ProjectFile[] = [];
+/**
+ * Fetches a single project by its ID from the active store.
+ */
+export const getProject = (id: string): Promise<Project | null> => activeStore.getProject(id);
 
-        const readDirRecursive = async (currentPath: string) => {
-            try {
-                const items = await puter.fs.readdir(currentPath);
-                for (const item of items) {
-                    if (item.is_dir) {
-                        await readDirRecursive(item.path);
-                    } else {
-                        const fileBlob = await puter.fs.read(item.path);
-                        const content = await fileBlob.text();
-                        const relativePath = item.path.substring(filesPath.length + 1);
-                        projectFiles.push({ path: relativePath, content });
-                    }
-                }
-            } catch(e) {
-                if (e.code === 'subject_does_not_exist') {
-                     console.log(`Directory not found, skipping: ${currentPath}`);
-                } else {
-                    throw e;
-                }
-            }
-        }
-        
-        await readDirRecursive(filesPath);
-        project.files = projectFiles;
-        return project;
+/**
+ * Saves a new project or updates an existing one in the active store.
+ */
+export const saveProject = (project: Project): Promise<void> => activeStore.saveProject(project);
 
-    } catch (e) {
-        console.error(`Error fetching project ${id}:`, e);
-        return null;
-    }
-};
+/**
+ * Deletes a project by its ID from the active store.
+ */
+export const deleteProject = (id: string): Promise<void> => activeStore.deleteProject(id);
 
 /**
- * Saves a new project or updates an existing one in Puter FS.
+ * Rebuilds the metadata of a project listed as broken, keeping whatever is still valid.
  */
-export const saveProject = async (project: Project): Promise<void> => {
-    await ensureBaseDir();
-    const filesPath = getProjectFilesPath(project.id);
+export const repairProject = (id: string): Promise<void> => activeStore.repairProject(id);
 
-    // Separate files from the rest of the project metadata to store in project.json
-    const { files, ...meta } = project;
-    
-    // Write metadata
-    const metaPath = getProjectMetaPath(project.id);
-    await puter.fs.write(metaPath, JSON.stringify(meta, null, 2), { createMissingParents: true });
-    
-    // Clean the src directory before writing new files to ensure perfect sync
-    try {
-        await puter.fs.delete(filesPath, { recursive: true });
-    } catch(e) {
-        // It's okay if it doesn't exist. We check for the specific code.
-        if (e.code !== 'subject_does_not_exist') {
-            console.error('An unexpected error occurred while cleaning the project directory. The operation will proceed, but there might be leftover files.', e);
-        }
-    }
-    await puter.fs.mkdir(filesPath, { createMissingParents: true });
+/**
+ * Lists the saved snapshots of a project, oldest first.
+ */
+export const getSnapshots = (projectId: string): Promise<ProjectSnapshot[]> => activeStore.listSnapshots(projectId);
 
-    // Write all project files
-    for (const file of files) {
-        const filePath = `${filesPath}/${file.path}`;
-        await puter.fs.write(filePath, file.content, { createMissingParents: true });
-    }
-};
+/**
+ * Records the given files as a new snapshot and returns the updated snapshot list.
+ */
+export const createSnapshot = (projectId: string, files: ProjectFile[], details: SnapshotDetails): Promise<ProjectSnapshot[]> =>
+    activeStore.createSnapshot(projectId, files, details);
 
 /**
- * Deletes a project by its ID from Puter FS.
+ * Rebuilds the `files` array of a project exactly as it was when the snapshot was taken.
  */
-export const deleteProject = async (id: string): Promise<void> => {
-    await ensureBaseDir();
-    const projectPath = getProjectPath(id);
-    try {
-        await puter.fs.delete(projectPath, { recursive: true });
-    } catch (e) {
-        console.error(`Failed to delete project ${id}:`, e);
-        throw new Error(`Failed to delete project: ${e instanceof Error ? e.message : 'Unknown error'}`);
-    }
-};
\ No newline at end of file
+export const getSnapshotFiles = (projectId: string, snapshotId: string): Promise<ProjectFile[]> =>
+    activeStore.getSnapshotFiles(projectId, snapshotId);
@@ -0,0 +1,87 @@
+import type { Project, ProjectFile, ProjectSnapshot, ProjectSummary, SnapshotFileRef, SnapshotTrigger } from '../types';
+import { hashContent, isBinaryFile, getMimeType } from '../utils/fileUtils';
+
+export type ProjectStoreKind = 'puter' | 'indexeddb' | 'memory';
+
+export interface SnapshotDetails {
+    trigger: SnapshotTrigger;
+    message: string;
+}
+
+/** A stored project whose metadata could not be read or failed validation. */
+export interface BrokenProject {
+    id: string;
+    /** Why it could not be loaded; may span several lines. */
+    error: string;
+}
+
+export interface ProjectListing {
+    projects: ProjectSummary[];
+    broken: BrokenProject[];
+}
+
+/**
+ * Persistence backend for projects and their version history. Stores that persist projects
+ * check their metadata with parseProjectMeta when reading it and save it with the current
+ * PROJECT_SCHEMA_VERSION.
+ */
+export interface ProjectStore {
+    readonly kind: ProjectStoreKind;
+    /** Whether the store can only be used while signed in to Puter. */
+    readonly requiresAuth: boolean;
+    listProjects(): Promise<ProjectListing>;
+    getProject(id: string): Promise<Project | null>;
+    saveProject(project: Project): Promise<void>;
+    deleteProject(id: string): Promise<void>;
+    /** Rewrites the metadata of a broken project with repairProjectMeta, keeping its files where they can be found. */
+    repairProject(id: string): Promise<void>;
+    listSnapshots(projectId: string): Promise<ProjectSnapshot[]>;
+    /**
+     * Records the files as a new snapshot and returns the updated list, oldest first.
+     * Nothing is recorded if the files are unchanged since the latest snapshot.
+     */
+    createSnapshot(projectId: string, files: ProjectFile[], details: SnapshotDetails): Promise<ProjectSnapshot[]>;
+    getSnapshotFiles(projectId: string, snapshotId: string): Promise<ProjectFile[]>;
+}
+
+/** Maps each project file path to the hash of its content, in file order. */
+export type FileManifest = Record<string, string>;
+
+export const buildManifest = async (files: ProjectFile[]): Promise<FileManifest> => {
+    const hashes = await Promise.all(files.map(f => hashContent(f.content)));
+    return Object.fromEntries(files.map((f, i) => [f.path, hashes[i]]));
+};
+
+/** Maps the path of each binary file to its MIME type. Text files are not listed. */
+export type BinaryFileTypes = Record<string, string>;
+
+export const getBinaryFileTypes = (files: ProjectFile[]): BinaryFileTypes =>
+    Object.fromEntries(files.filter(isBinaryFile).map(f => [f.path, f.mimeType || getMimeType(f.path)]));
+
+export const manifestToRefs = (manifest: FileManifest, binaryFiles: BinaryFileTypes = {}): SnapshotFileRef[] =>
+    Object.entries(manifest).map(([path, hash]) => binaryFiles[path]
+        ? { path, hash, encoding: 'base64', mimeType: binaryFiles[path] }
+        : { path, hash });
+
+/** Rebuilds a project file from a stored ref and its content, keeping the encoding of binary files. */
+export const refToFile = (ref: SnapshotFileRef, content: string): ProjectFile =>
+    ref.encoding === 'base64' ? { path: ref.path, content, encoding: 'base64', mimeType: ref.mimeType } : { path: ref.path, content };
+
+/**
+ * Whether the latest snapshot already holds exactly these file refs.
+ */
+export const isUnchangedSinceLatest = (snapshots: ProjectSnapshot[], refs: SnapshotFileRef[]): boolean => {
+    const latest = snapshots[snapshots.length - 1];
+    return !!latest
+        && latest.files.length === refs.length
+        && refs.every(r => latest.files.some(f => f.path === r.path && f.hash === r.hash));
+};
+
+export const newSnapshot = (refs: SnapshotFileRef[], details: SnapshotDetails): ProjectSnapshot => ({
+    // Two snapshots can be created in the same millisecond, so the time alone is not unique.
+    id: `snap_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`,
+    createdAt: Date.now(),
+    trigger: details.trigger,
+    message: details.message,
+    files: refs,
+});
@@ -0,0 +1,93 @@
+import type { ChatMessage } from '../types';
+import type { AiChatMessage } from './aiProvider';
+
+// Token budget for previous turns sent verbatim; older turns are condensed into a summary.
+const RECENT_TURNS_TOKEN_BUDGET = 3000;
+const SUMMARY_TOKEN_BUDGET = 800;
+const SUMMARY_REQUEST_CHARS = 160;
+
+interface Turn {
+    user: ChatMessage;
+    assistant: ChatMessage | null;
+}
+
+/**
+ * Rough token estimate (about four characters per token for code and English/Indonesian prose).
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const groupTurns = (history: ChatMessage[], sessionId: string): Turn[] => {
+    const turns: Turn[] = [];
+    for (const msg of history) {
+        if (msg.role === 'system') continue;
+        // Messages saved before sessions were tracked belong to whatever session the project is in.
+        if (msg.sessionId && msg.sessionId !== sessionId) continue;
+        if (msg.role === 'user') {
+            turns.push({ user: msg, assistant: null });
+        } else if (turns.length > 0 && !turns[turns.length - 1].assistant) {
+            turns[turns.length - 1].assistant = msg;
+        }
+    }
+    return turns;
+};
+
+const describeOperations = (msg: ChatMessage | null): string => {
+    const operations = msg?.operations || [];
+    if (operations.length === 0) return 'No files were changed.';
+    return 'File changes: ' + operations.map(op => {
+        const rejected = op.rejectedHunks?.length ? ` (${op.rejectedHunks.length} patch hunk(s) did not match and were NOT applied)` : '';
+        return `${op.operation} ${op.path}${rejected}`;
+    }).join(', ');
+};
+
+const renderAssistant = (msg: ChatMessage | null): string => {
+    const parts: string[] = [];
+    if (msg?.thoughts?.length) parts.push(`Plan:\n${msg.thoughts.map(t => `- ${t}`).join('\n')}`);
+    if (msg?.content) parts.push(msg.content);
+    parts.push(describeOperations(msg));
+    return parts.join('\n\n');
+};
+
+const summarizeTurn = (turn: Turn): string => {
+    const request = (turn.user.content || '').replace(/\s+/g, ' ').trim();
+    const shortRequest = request.length > SUMMARY_REQUEST_CHARS ? `${request.substring(0, SUMMARY_REQUEST_CHARS)}…` : request;
+    return `- User asked: "${shortRequest}". ${describeOperations(turn.assistant)}`;
+};
+
+/**
+ * Turns the chat history of the current session into native chat messages. The most
+ * recent turns are sent in full as long as they fit the token budget; older turns are
+ * condensed into a single summary message, dropping the oldest lines first if needed.
+ */
+export const buildHistoryMessages = (history: ChatMessage[], sessionId: string): AiChatMessage[] => {
+    const turns = groupTurns(history, sessionId);
+
+    const recent: AiChatMessage[][] = [];
+    let usedTokens = 0;
+    let index = turns.length - 1;
+    for (; index >= 0; index--) {
+        const turn = turns[index];
+        const messages: AiChatMessage[] = [
+            { role: 'user', content: turn.user.content || '' },
+            { role: 'assistant', content: renderAssistant(turn.assistant) },
+        ];
+        const tokens = messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+        if (usedTokens + tokens > RECENT_TURNS_TOKEN_BUDGET && recent.length > 0) break;
+        recent.unshift(messages);
+        usedTokens += tokens;
+    }
+
+    const summaryLines: string[] = [];
+    let summaryTokens = 0;
+    for (; index >= 0; index--) {
+        const line = summarizeTurn(turns[index]);
+        if (summaryTokens + estimateTokens(line) > SUMMARY_TOKEN_BUDGET) break;
+        summaryLines.unshift(line);
+        summaryTokens += estimateTokens(line);
+    }
+
+    const summary: AiChatMessage[] = summaryLines.length > 0
+        ? [{ role: 'system', content: `Summary of earlier turns in this conversation (oldest first):\n${summaryLines.join('\n')}` }]
+        : [];
+    return [...summary, ...recent.flat()];
+};
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+
+/** Responds to every fetch with a body streamed in the given pieces. */
+const stubStreamingFetch = (pieces: string[]) => {
+    const encoder = new TextEncoder();
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new ReadableStream({
+        start(controller) {
+            pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+            controller.close();
+        },
+    }))));
+};
+
+const event = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}`;
+
+const streamText = async (pieces: string[]) => {
+    stubStreamingFetch(pieces);
+    const provider = createOpenAiCompatibleProvider({ baseUrl: 'http://localhost:11434/v1/' });
+    let text = '';
+    for await (const part of provider.streamChat([{ role: 'user', content: 'Hi' }], { model: 'local' })) text += part.text ?? '';
+    return text;
+};
+
+describe('createOpenAiCompatibleProvider', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('streams the content of each event, split anywhere', async () => {
+        const body = `${event('Halo')}\n\n: keep-alive\n${event(', dunia')}\r\n\ndata: [DONE]\n\n${event('ignored')}\n`;
+        expect(await streamText([body.substring(0, 9), body.substring(9, 40), body.substring(40)])).toBe('Halo, dunia');
+    });
+
+    it('reads the last event when the stream ends without a newline', async () => {
+        expect(await streamText([`${event('Halo')}\n`, event('!')])).toBe('Halo!');
+    });
+
+    it('sends the request to the chat completions endpoint', async () => {
+        await streamText(['data: [DONE]\n']);
+        expect(fetch).toHaveBeenCalledWith('http://localhost:11434/v1/chat/completions', expect.objectContaining({ method: 'POST' }));
+    });
+});
@@ -0,0 +1,66 @@
+import type { AiProvider, AiModelInfo } from '../aiProvider';
+
+export interface OpenAiCompatibleConfig {
+    /** e.g. `http://localhost:11434/v1` for Ollama or `http://localhost:8080/v1` for llama.cpp. */
+    baseUrl: string;
+    apiKey?: string;
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+/**
+ * Talks to any server implementing the OpenAI `/models` and streaming `/chat/completions` endpoints.
+ */
+export const createOpenAiCompatibleProvider = ({ baseUrl, apiKey }: OpenAiCompatibleConfig): AiProvider => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    return {
+        kind: 'openai-compatible',
+
+        listModels: async (): Promise<AiModelInfo[]> => {
+            const res = await fetch(`${trimSlash(baseUrl)}/models`, { headers });
+            if (!res.ok) {
+                throw new Error(`Could not list models: ${res.status} ${res.statusText}`);
+            }
+            const body = await res.json();
+            return (body.data || []).map((m: { id: string }) => ({ id: m.id, name: m.id }));
+        },
+
+        async *streamChat(messages, { model, signal }) {
+            const res = await fetch(`${trimSlash(baseUrl)}/chat/completions`, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({ model, messages, stream: true }),
+                signal,
+            });
+            if (!res.ok || !res.body) {
+                throw new Error(`Chat request failed: ${res.status} ${res.statusText}`);
+            }
+
+            const reader = res.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+
+            // The body is a stream of server-sent events: `data: {json}` lines, ending with `data: [DONE]`.
+            // Servers may end the stream without a newline after the last line, so it is parsed once the body is done.
+            while (true) {
+                const { done, value } = await reader.read();
+                buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = done ? '' : lines.pop() ?? '';
+
+                for (const rawLine of lines) {
+                    const line = rawLine.trim();
+                    if (!line.startsWith('data:')) continue;
+
+                    const data = line.substring(5).trim();
+                    if (data === '[DONE]') return;
+                    const text = JSON.parse(data).choices?.[0]?.delta?.content;
+                    if (text) yield { text };
+                }
+                if (done) return;
+            }
+        },
+    };
+};
@@ -0,0 +1,33 @@
+import type { AiProvider, AiModelInfo } from '../aiProvider';
+
+declare const puter: any;
+
+const puterModels: AiModelInfo[] = [
+    { id: 'gpt-5-nano', name: 'GPT-5 Nano' },
+    { id: 'gpt-4o-mini', name: 'GPT-4o Mini' },
+    { id: 'o1-mini', name: 'O1 Mini' },
+    { id: 'claude-sonnet-4', name: 'Claude Sonnet 4' },
+    { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash' },
+    { id: 'grok', name: 'Grok' },
+    { id: 'mistral-large', name: 'Mistral Large' },
+    { id: 'llama3-70b', name: 'Llama3 70B' },
+    { id: 'gpt-4o', name: 'GPT-4o' },
+    { id: 'gpt-5', name: 'GPT-5' },
+    { id: 'claude-opus-4', name: 'Claude Opus 4' },
+    { id: 'deepseek-coder', name: 'DeepSeek Coder' },
+];
+
+/**
+ * Streams chat completions through `puter.ai.chat`, billed to the signed-in Puter user.
+ */
+export const createPuterAiProvider = (): AiProvider => ({
+    kind: 'puter',
+    listModels: async () => puterModels,
+    async *streamChat(messages, { model, signal }) {
+        const responseStream = await puter.ai.chat(messages, { model, stream: true });
+        for await (const part of responseStream) {
+            if (signal?.aborted) return;
+            yield { text: part?.text };
+        }
+    },
+});
@@ -0,0 +1,29 @@
+import type { AiProvider, AiChatMessage } from '../aiProvider';
+
+export interface ScriptedAiProviderOptions {
+    /** Size of each streamed text part, so tests exercise chunk boundaries. */
+    chunkSize?: number;
+}
+
+/**
+ * Replays canned responses in order, one per `streamChat` call, repeating the last
+ * one once the script runs out. Received messages are recorded in `calls`.
+ */
+export const createScriptedAiProvider = (responses: string[], { chunkSize = 16 }: ScriptedAiProviderOptions = {}): AiProvider & { calls: AiChatMessage[][] } => {
+    const calls: AiChatMessage[][] = [];
+
+    return {
+        kind: 'scripted',
+        calls,
+        listModels: async () => [{ id: 'scripted', name: 'Scripted Replay' }],
+        async *streamChat(messages, { signal }) {
+            calls.push(messages);
+            const response = responses[Math.min(calls.length - 1, responses.length - 1)] ?? '';
+            for (let i = 0; i < response.length; i += chunkSize) {
+                if (signal?.aborted) return;
+                await Promise.resolve();
+                yield { text: response.substring(i, i + chunkSize) };
+            }
+        },
+    };
+};
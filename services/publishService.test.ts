@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Project } from '../types';
+import { publishSite, unpublishSite } from './publishService';
+
+const notFound = () => Object.assign(new Error('Not found'), { code: 'entity_not_found' });
+
+/** A Puter stand-in with the given sites (subdomain -> full path of the folder served). */
+const stubPuter = (sites: Record<string, string>) => {
+    const puter = {
+        fs: {
+            mkdir: vi.fn(async () => {}),
+            readdir: vi.fn(async () => { throw notFound(); }),
+            write: vi.fn(async () => {}),
+            delete: vi.fn(async () => {}),
+        },
+        hosting: {
+            get: vi.fn(async (subdomain: string) => {
+                if (!sites[subdomain]) throw notFound();
+                return { subdomain, root_dir: { path: sites[subdomain] } };
+            }),
+            list: vi.fn(async () => Object.entries(sites).map(([subdomain, path]) => ({ subdomain, root_dir: { path } }))),
+            create: vi.fn(async (subdomain: string) => { sites[subdomain] = '/user/Websites/p1'; }),
+            update: vi.fn(async (subdomain: string) => { sites[subdomain] = '/user/Websites/p1'; }),
+            delete: vi.fn(async (subdomain: string) => { delete sites[subdomain]; }),
+        },
+    };
+    vi.stubGlobal('puter', puter);
+    return puter;
+};
+
+const project = (overrides: Partial<Project> = {}): Project => ({
+    id: 'p1', name: 'My Site', files: [], updatedAt: 1, chatHistory: [], currentSessionId: 's1', template: 'blank', styleLibrary: 'none', ...overrides,
+});
+
+const FILES = [{ path: 'index.html', content: '<h1>Hi</h1>' }];
+
+describe('publishSite', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('moves a site published under the project name to the project id folder and deletes the old one', async () => {
+        const puter = stubPuter({ 'my-site': '/user/Websites/my-site' });
+        const published = await publishSite(project({ publishedSubdomain: 'my-site' }), FILES, 'my-site', false);
+
+        expect(puter.hosting.update).toHaveBeenCalledWith('my-site', '~/Websites/p1');
+        expect(puter.fs.delete).toHaveBeenCalledWith('/user/Websites/my-site', { recursive: true });
+        expect(published.publishHistory).toHaveLength(1);
+    });
+
+    it('keeps an old folder that another site is still served from', async () => {
+        const puter = stubPuter({ 'my-site': '/user/Websites/my-site', 'my-site-copy': '/user/Websites/my-site' });
+        await publishSite(project({ publishedSubdomain: 'my-site' }), FILES, 'my-site', false);
+
+        expect(puter.fs.delete).not.toHaveBeenCalled();
+    });
+
+    it('leaves other folders alone once the project has been published by id', async () => {
+        const puter = stubPuter({ 'my-site': '/user/Websites/p1' });
+        const record = { publishedAt: 1, subdomain: 'my-site', fileCount: 1, removedCount: 0, isBuild: false };
+        await publishSite(project({ publishedSubdomain: 'my-site', publishHistory: [record] }), FILES, 'new-site', false);
+
+        expect(puter.hosting.get).not.toHaveBeenCalled();
+        expect(puter.hosting.delete).toHaveBeenCalledWith('my-site');
+        expect(puter.fs.delete).not.toHaveBeenCalled();
+    });
+});
+
+describe('unpublishSite', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('deletes the old folder of a site published under the project name', async () => {
+        const puter = stubPuter({ 'my-site': '/user/Websites/my-site' });
+        const unpublished = await unpublishSite(project({ publishedSubdomain: 'my-site' }));
+
+        expect(puter.fs.delete).toHaveBeenCalledWith('/user/Websites/my-site', { recursive: true });
+        expect(unpublished.publishedSubdomain).toBeUndefined();
+    });
+});
@@ -0,0 +1,191 @@
+import type { Project, ProjectFile, PublishRecord } from '../types';
+import { getFileData } from '../utils/fileUtils';
+import { runWithConcurrency, IO_CONCURRENCY } from '../utils/concurrency';
+
+declare const puter: any;
+
+const HOSTING_BASE_PATH = '~/Websites';
+export const MAX_PUBLISH_HISTORY = 20;
+
+/** The folder a project's site is served from. Keyed by id, so projects with similar names never share one. */
+export const getHostingDir = (projectId: string) => `${HOSTING_BASE_PATH}/${projectId}`;
+
+export const getSiteUrl = (subdomain: string) => `https://${subdomain}.puter.site`;
+
+/** Suggests a subdomain for a project from its name, e.g. `My Portfolio!` -> `my-portfolio`. */
+export const suggestSubdomain = (projectName: string): string =>
+    projectName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 63);
+
+/**
+ * Checks that `subdomain` can be used as a Puter subdomain. Returns a user-facing message
+ * if it cannot, or null if it can.
+ */
+export const validateSubdomain = (subdomain: string): string | null => {
+    if (!subdomain) return 'Subdomain tidak boleh kosong.';
+    if (subdomain.length < 3 || subdomain.length > 63) return 'Subdomain harus 3 sampai 63 karakter.';
+    if (!/^[a-z0-9-]+$/.test(subdomain)) return 'Subdomain hanya boleh berisi huruf kecil, angka dan tanda hubung.';
+    if (subdomain.startsWith('-') || subdomain.endsWith('-')) return 'Subdomain tidak boleh diawali atau diakhiri tanda hubung.';
+    return null;
+};
+
+const isNotFound = (e: any) => e?.code === 'entity_not_found' || e?.code === 'subject_does_not_exist' || e?.error?.code === 'entity_not_found';
+
+/**
+ * `current` is the project's own subdomain. Puter only shows the signed-in user's subdomains,
+ * so a name taken by someone else reads as available and is only rejected when publishing.
+ */
+export type SubdomainStatus = 'available' | 'current' | 'taken';
+
+export const checkSubdomain = async (subdomain: string, currentSubdomain?: string): Promise<SubdomainStatus> => {
+    if (subdomain === currentSubdomain) return 'current';
+    try {
+        await puter.hosting.get(subdomain);
+        return 'taken';
+    } catch (e) {
+        if (isNotFound(e)) return 'available';
+        throw e;
+    }
+};
+
+/** Lists the files under `dir` as paths relative to it, plus the folders. */
+const listHostedPaths = async (dir: string): Promise<{ files: string[]; folders: string[] }> => {
+    const files: string[] = [];
+    const folders: string[] = [];
+    const walk = async (path: string, prefix: string) => {
+        let items: any[];
+        try {
+            items = await puter.fs.readdir(path);
+        } catch (e) {
+            if (isNotFound(e)) return;
+            throw e;
+        }
+        for (const item of items) {
+            const relativePath = `${prefix}${item.name}`;
+            if (item.is_dir) {
+                folders.push(relativePath);
+                await walk(item.path, `${relativePath}/`);
+            } else {
+                files.push(relativePath);
+            }
+        }
+    };
+    await walk(dir, '');
+    return { files, folders };
+};
+
+/**
+ * Makes the hosting folder an exact copy of `files`: writes every file and deletes files
+ * and folders that are no longer in the project. Returns how many files were removed.
+ */
+export const syncHostingDir = async (dir: string, files: ProjectFile[]): Promise<number> => {
+    await puter.fs.mkdir(dir, { createMissingParents: true });
+    const hosted = await listHostedPaths(dir);
+
+    await runWithConcurrency(files, IO_CONCURRENCY, file =>
+        puter.fs.write(`${dir}/${file.path}`, getFileData(file), { createMissingParents: true }));
+
+    const paths = new Set(files.map(f => f.path));
+    const staleFolders = hosted.folders.filter(folder => !files.some(f => f.path.startsWith(`${folder}/`)));
+    // Deleting a folder deletes everything in it, so only the outermost stale folders are deleted.
+    const outerStaleFolders = staleFolders.filter(folder => !staleFolders.some(other => folder.startsWith(`${other}/`)));
+    const isInStaleFolder = (path: string) => outerStaleFolders.some(folder => path.startsWith(`${folder}/`));
+    const staleFiles = hosted.files.filter(path => !paths.has(path));
+
+    await runWithConcurrency(staleFiles.filter(path => !isInStaleFolder(path)), IO_CONCURRENCY, path => puter.fs.delete(`${dir}/${path}`));
+    await runWithConcurrency(outerStaleFolders, IO_CONCURRENCY, folder => puter.fs.delete(`${dir}/${folder}`, { recursive: true }));
+    return staleFiles.length;
+};
+
+/**
+ * Sites published before hosting folders were keyed by project id are served from a folder
+ * named after the project, e.g. `~/Websites/my-portfolio`. Their projects have a subdomain
+ * but no publish history yet.
+ */
+const isLegacyPublish = (project: Project) => !!project.publishedSubdomain && !project.publishHistory?.length;
+
+/** The full path of the folder `subdomain` is served from, or null if there is no such site. */
+const getSiteDir = async (subdomain: string): Promise<string | null> => {
+    try {
+        const site = await puter.hosting.get(subdomain);
+        return site?.root_dir?.path ?? null;
+    } catch (e) {
+        if (isNotFound(e)) return null;
+        throw e;
+    }
+};
+
+/**
+ * Deletes a legacy hosting folder once its site has moved or been taken down. Projects with
+ * the same name shared such folders, so it is kept while any other site is still served from it.
+ * Failures are only logged: the site itself is already up to date.
+ */
+const deleteLegacyHostingDir = async (legacyDir: string | null, projectId: string) => {
+    const folderName = legacyDir?.match(/\/Websites\/([^/]+)$/)?.[1];
+    if (!legacyDir || !folderName || folderName === projectId) return;
+    try {
+        const sites: any[] = await puter.hosting.list();
+        if (sites.some(site => site?.root_dir?.path === legacyDir)) return;
+        await puter.fs.delete(legacyDir, { recursive: true });
+    } catch (e) {
+        if (!isNotFound(e)) console.error(`Could not delete the old hosting folder ${legacyDir}:`, e);
+    }
+};
+
+/**
+ * Publishes `files` at `subdomain` and returns the project with the new subdomain and a
+ * publish record. Changing the subdomain moves the site: the new one is created before the
+ * old one is released.
+ */
+export const publishSite = async (project: Project, files: ProjectFile[], subdomain: string, isBuild: boolean): Promise<Project> => {
+    const dir = getHostingDir(project.id);
+    const legacyDir = isLegacyPublish(project) ? await getSiteDir(project.publishedSubdomain!) : null;
+    const removedCount = await syncHostingDir(dir, files);
+
+    const previous = project.publishedSubdomain;
+    if (previous === subdomain) {
+        // Legacy sites still point at the old folder.
+        await puter.hosting.update(subdomain, dir);
+    } else {
+        try {
+            await puter.hosting.create(subdomain, dir);
+        } catch (e: any) {
+            const message = e?.message || e?.error?.message || '';
+            throw new Error(/already|taken|exist/i.test(message) ? `Subdomain "${subdomain}" sudah dipakai.` : message || 'Subdomain tidak bisa dibuat.');
+        }
+        if (previous) {
+            try {
+                await puter.hosting.delete(previous);
+            } catch (e) {
+                console.error(`Could not release the old subdomain ${previous}:`, e);
+            }
+        }
+    }
+    await deleteLegacyHostingDir(legacyDir, project.id);
+
+    const record: PublishRecord = { publishedAt: Date.now(), subdomain, fileCount: files.length, removedCount, isBuild };
+    return {
+        ...project,
+        publishedSubdomain: subdomain,
+        publishHistory: [record, ...(project.publishHistory || [])].slice(0, MAX_PUBLISH_HISTORY),
+    };
+};
+
+/** Takes the site offline and deletes its hosting folder. Returns the project without a subdomain. */
+export const unpublishSite = async (project: Project): Promise<Project> => {
+    const legacyDir = isLegacyPublish(project) ? await getSiteDir(project.publishedSubdomain!) : null;
+    if (project.publishedSubdomain) {
+        try {
+            await puter.hosting.delete(project.publishedSubdomain);
+        } catch (e) {
+            if (!isNotFound(e)) throw e;
+        }
+    }
+    try {
+        await puter.fs.delete(getHostingDir(project.id), { recursive: true });
+    } catch (e) {
+        if (!isNotFound(e)) throw e;
+    }
+    await deleteLegacyHostingDir(legacyDir, project.id);
+    const { publishedSubdomain, ...unpublished } = project;
+    return unpublished;
+};
@@ -0,0 +1,87 @@
+import { readdirSync, readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { describe, expect, it } from 'vitest';
+import { createResponseTokenizer, StreamChunk } from './responseTokenizer';
+
+// Each fixture is a model response (`name.txt`) and the chunks it must produce (`name.json`).
+const FIXTURES_DIR = fileURLToPath(new URL('./__fixtures__/responseTokenizer/', import.meta.url));
+
+const fixtures = readdirSync(FIXTURES_DIR)
+    .filter(name => name.endsWith('.txt'))
+    .map(name => ({
+        name: name.replace(/\.txt$/, ''),
+        text: readFileSync(`${FIXTURES_DIR}${name}`, 'utf8'),
+        expected: JSON.parse(readFileSync(`${FIXTURES_DIR}${name.replace(/\.txt$/, '.json')}`, 'utf8')) as StreamChunk[],
+    }));
+
+/** Feeds `pieces` in order and returns every chunk, including those from end(). */
+const tokenize = (pieces: string[]): StreamChunk[] => {
+    const tokenizer = createResponseTokenizer();
+    return [...pieces.flatMap(piece => tokenizer.push(piece)), ...tokenizer.end()];
+};
+
+describe('createResponseTokenizer', () => {
+    it('has fixtures to run', () => {
+        expect(fixtures.length).toBeGreaterThan(0);
+    });
+
+    describe.each(fixtures)('fixture $name', ({ text, expected }) => {
+        it('parses the whole response', () => {
+            expect(tokenize([text])).toEqual(expected);
+        });
+
+        it('gives the same chunks when split at every position', () => {
+            for (let i = 0; i <= text.length; i++) {
+                expect(tokenize([text.substring(0, i), text.substring(i)]), `split at ${i}`).toEqual(expected);
+            }
+        });
+
+        it('gives the same chunks when streamed one character at a time', () => {
+            expect(tokenize(Array.from(text))).toEqual(expected);
+        });
+
+        it('gives the same chunks with CRLF line endings', () => {
+            const crlf = text.replace(/\n/g, '\r\n');
+            for (let i = 0; i <= crlf.length; i++) {
+                expect(tokenize([crlf.substring(0, i), crlf.substring(i)]), `split at ${i}`).toEqual(expected);
+            }
+        });
+    });
+
+    describe('end()', () => {
+        it('reports an unterminated file block as incomplete', () => {
+            expect(tokenize(['-- a.js --\nconst a = 1;\n'])).toEqual([{ type: 'incomplete', path: 'a.js', content: 'const a = 1;' }]);
+        });
+
+        it('processes the last line when it has no newline', () => {
+            expect(tokenize(['-- a.js --\nconst a = 1;\n-#'])).toEqual([{ type: 'file', path: 'a.js', content: 'const a = 1;' }]);
+        });
+
+        it('drops unterminated plan and read blocks', () => {
+            expect(tokenize(['-- rencana --\nLangkah satu\n'])).toEqual([{ type: 'thought', content: 'Langkah satu' }]);
+            expect(tokenize(['-- baca --\na.js\n'])).toEqual([]);
+        });
+
+        it('returns nothing when called again', () => {
+            const tokenizer = createResponseTokenizer();
+            tokenizer.push('-- penjelasan --\nHalo');
+            expect(tokenizer.end()).toEqual([{ type: 'explanation', content: 'Halo' }]);
+            expect(tokenizer.end()).toEqual([]);
+        });
+
+        it('rejects text pushed after it', () => {
+            const tokenizer = createResponseTokenizer();
+            tokenizer.end();
+            expect(() => tokenizer.push('-- a.js --\n')).toThrow();
+        });
+    });
+
+    it('removes one backslash from escaped end markers only', () => {
+        const chunks = tokenize(['-- a.txt --\n\\-#\n\\\\\\-#\nx \\-#\n-#\n']);
+        expect(chunks).toEqual([{ type: 'file', path: 'a.txt', content: '-#\n\\\\-#\nx \\-#' }]);
+    });
+
+    it('ignores text outside blocks and stray end markers', () => {
+        expect(tokenize(['Tentu!\n-#\n-- penjelasan --\nOk\n-#\nTerima kasih.\n'])).toEqual([{ type: 'explanation', content: 'Ok' }]);
+    });
+});
@@ -0,0 +1,195 @@
+import type { PatchHunk } from '../types';
+
+export interface StreamChunk {
+    type: 'thought' | 'explanation' | 'file' | 'patch' | 'read' | 'incomplete' | 'error';
+    content: string;
+    path?: string;
+    hunks?: PatchHunk[];
+    paths?: string[]; // for 'read': files the model wants to see in full
+}
+
+/*
+ * Response format, one block per section:
+ *
+ *   -- rencana --            plan, one thought per line
+ *   -- penjelasan --         user-facing explanation
+ *   -- path/to/file --       full file content (or the single word DELETE)
+ *   -- patch: path/to/file --  SEARCH/REPLACE hunks
+ *   -- baca --               paths of outlined files the model wants to read, one per line
+ *
+ * Every block ends with a line that is exactly `-#` (surrounding whitespace allowed).
+ * Headers and end markers are only recognised as whole lines, so `-#` or `-- x --`
+ * inside a line of code is plain content. A content line that is exactly `-#` is
+ * written as `\-#`; in general, one backslash is removed from any line of the form `\…\-#`.
+ */
+
+export const END_MARKER = '-#';
+export const PATCH_HEADER_PREFIX = 'patch:';
+export const SEARCH_MARKER = '<<<<<<< SEARCH';
+export const DIVIDER_MARKER = '=======';
+export const REPLACE_MARKER = '>>>>>>> REPLACE';
+
+const HEADER_PATTERN = /^--\s*(.+?)\s*--$/;
+const ESCAPED_END_PATTERN = /^\\+-#$/;
+
+type Section =
+    | { kind: 'rencana' }
+    | { kind: 'penjelasan'; lines: string[] }
+    | { kind: 'baca'; lines: string[] }
+    | { kind: 'file'; path: string; lines: string[] }
+    | { kind: 'patch'; path: string; lines: string[] };
+
+/**
+ * Parses the body of a patch block into search/replace hunks.
+ * Lines outside of a SEARCH/REPLACE pair are ignored.
+ */
+export const parsePatchHunks = (body: string): PatchHunk[] => {
+    const hunks: PatchHunk[] = [];
+    const lines = body.replace(/\r\n/g, '\n').split('\n');
+    let state: 'idle' | 'search' | 'replace' = 'idle';
+    let searchLines: string[] = [];
+    let replaceLines: string[] = [];
+
+    for (const line of lines) {
+        const marker = line.trim();
+        if (state === 'idle' && marker === SEARCH_MARKER) {
+            state = 'search';
+            searchLines = [];
+            replaceLines = [];
+        } else if (state === 'search' && marker === DIVIDER_MARKER) {
+            state = 'replace';
+        } else if (state === 'replace' && marker === REPLACE_MARKER) {
+            hunks.push({ search: searchLines.join('\n'), replace: replaceLines.join('\n') });
+            state = 'idle';
+        } else if (state === 'search') {
+            searchLines.push(line);
+        } else if (state === 'replace') {
+            replaceLines.push(line);
+        }
+    }
+    return hunks;
+};
+
+const unescapeLine = (line: string): string => {
+    if (!ESCAPED_END_PATTERN.test(line.trim())) return line;
+    const backslashIndex = line.indexOf('\\');
+    return line.substring(0, backslashIndex) + line.substring(backslashIndex + 1);
+};
+
+// Drops blank lines around a block body while keeping the indentation of its first line.
+const joinBody = (lines: string[]): string => {
+    let start = 0;
+    let end = lines.length;
+    while (start < end && lines[start].trim() === '') start++;
+    while (end > start && lines[end - 1].trim() === '') end--;
+    return lines.slice(start, end).join('\n');
+};
+
+const openSection = (name: string): Section => {
+    const cleanName = name.replace(/^\[(.*)\]$/, '$1').trim();
+    if (cleanName === 'rencana') return { kind: 'rencana' };
+    if (cleanName === 'penjelasan') return { kind: 'penjelasan', lines: [] };
+    if (cleanName === 'baca') return { kind: 'baca', lines: [] };
+    if (cleanName.startsWith(PATCH_HEADER_PREFIX)) {
+        return { kind: 'patch', path: cleanName.substring(PATCH_HEADER_PREFIX.length).trim().replace(/^\[(.*)\]$/, '$1'), lines: [] };
+    }
+    return { kind: 'file', path: cleanName, lines: [] };
+};
+
+const closeSection = (section: Section): StreamChunk[] => {
+    switch (section.kind) {
+        case 'rencana':
+            return [];
+        case 'penjelasan':
+            return [{ type: 'explanation', content: joinBody(section.lines) }];
+        case 'baca': {
+            const paths = section.lines.map(l => l.trim().replace(/^[-*]\s*/, '').replace(/^`(.*)`$/, '$1')).filter(Boolean);
+            return [{ type: 'read', content: paths.join('\n'), paths }];
+        }
+        case 'file':
+            return [{ type: 'file', path: section.path, content: joinBody(section.lines) }];
+        case 'patch': {
+            const content = joinBody(section.lines);
+            return [{ type: 'patch', path: section.path, content, hunks: parsePatchHunks(content) }];
+        }
+    }
+};
+
+export interface ResponseTokenizer {
+    /** Feeds the next piece of streamed text and returns the chunks it completed. */
+    push(text: string): StreamChunk[];
+    /** Signals the end of the stream and returns any remaining chunks, including incomplete blocks. */
+    end(): StreamChunk[];
+}
+
+/**
+ * Creates an incremental tokenizer for the rencana/penjelasan/file response format.
+ * Input may be split at any position; output does not depend on how it was split.
+ */
+export const createResponseTokenizer = (): ResponseTokenizer => {
+    let pending = '';
+    let section: Section | null = null;
+    let ended = false;
+
+    const processLine = (rawLine: string): StreamChunk[] => {
+        const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+        const trimmed = line.trim();
+
+        if (section === null) {
+            const header = trimmed.match(HEADER_PATTERN);
+            if (header) section = openSection(header[1]);
+            // Anything else outside a block (stray prose, stray end markers) is ignored.
+            return [];
+        }
+
+        if (trimmed === END_MARKER) {
+            const chunks = closeSection(section);
+            section = null;
+            return chunks;
+        }
+
+        if (section.kind === 'rencana') {
+            return trimmed ? [{ type: 'thought', content: trimmed }] : [];
+        }
+        section.lines.push(unescapeLine(line));
+        return [];
+    };
+
+    return {
+        push(text: string): StreamChunk[] {
+            if (ended) throw new Error('Cannot push to a response tokenizer after end().');
+            pending += text;
+            const chunks: StreamChunk[] = [];
+            let newlineIndex: number;
+            while ((newlineIndex = pending.indexOf('\n')) !== -1) {
+                const line = pending.substring(0, newlineIndex);
+                pending = pending.substring(newlineIndex + 1);
+                chunks.push(...processLine(line));
+            }
+            return chunks;
+        },
+
+        end(): StreamChunk[] {
+            if (ended) return [];
+            ended = true;
+            const chunks = pending ? processLine(pending) : [];
+            pending = '';
+
+            if (section !== null) {
+                const unterminated: Section = section;
+                section = null;
+                if (unterminated.kind === 'file' || unterminated.kind === 'patch') {
+                    chunks.push({
+                        type: 'incomplete',
+                        path: unterminated.path,
+                        content: joinBody(unterminated.lines),
+                    });
+                } else if (unterminated.kind === 'penjelasan') {
+                    // The explanation is still useful to show even if the closing marker never arrived.
+                    chunks.push(...closeSection(unterminated));
+                }
+            }
+            return chunks;
+        },
+    };
+};
@@ -0,0 +1,119 @@
+import type { ProjectFile, StyleLibrary, TemplateType } from '../types';
+import { STYLE_LIBRARIES, TEMPLATES } from './projectSchema';
+
+export type ShareBackendKind = 'jsonblob' | 'local';
+
+/**
+ * Where shared snapshots are uploaded to and loaded from. Payloads are stored as given;
+ * validating them is up to the caller.
+ */
+export interface ShareBackend {
+    readonly kind: ShareBackendKind;
+    /** Stores the payload and returns the id it can be loaded with. */
+    upload(payload: SharePayload): Promise<string>;
+    /** Loads a stored payload as it was uploaded, or throws if there is none with this id. */
+    download(id: string): Promise<unknown>;
+}
+
+export const SHARE_PAYLOAD_VERSION = 1;
+
+/**
+ * A shared project snapshot: the files and a ready-to-render preview of the entry page.
+ * The chat history is never included.
+ */
+export interface SharePayload {
+    version: typeof SHARE_PAYLOAD_VERSION;
+    name: string;
+    /** The project the snapshot was taken from. */
+    sourceProjectId: string;
+    createdAt: number;
+    template: TemplateType;
+    styleLibrary: StyleLibrary;
+    /** The entry page as rendered by the sharer. Untrusted; viewers build their own preview from `files`. */
+    previewHtml: string;
+    files: ProjectFile[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+/** Reads a ProjectFile from untrusted data, collecting problems in `errors`. */
+const readFile = (value: unknown, index: number, errors: string[]): ProjectFile | null => {
+    const label = `files[${index}]`;
+    if (!isRecord(value)) {
+        errors.push(`${label} is not an object.`);
+        return null;
+    }
+    const { path, content, encoding, mimeType } = value;
+    if (typeof path !== 'string' || !path.trim()) errors.push(`${label}.path must be a non-empty string.`);
+    else if (path.startsWith('/') || path.split('/').some(part => part === '..')) errors.push(`${label}.path "${path}" must be relative and must not contain "..".`);
+    if (typeof content !== 'string') errors.push(`${label}.content must be a string.`);
+    if (encoding !== undefined && encoding !== 'utf-8' && encoding !== 'base64') errors.push(`${label}.encoding must be "utf-8" or "base64".`);
+    if (mimeType !== undefined && typeof mimeType !== 'string') errors.push(`${label}.mimeType must be a string.`);
+    if (typeof path !== 'string' || typeof content !== 'string') return null;
+    return {
+        path,
+        content,
+        ...(encoding === 'base64' && { encoding }),
+        ...(typeof mimeType === 'string' && { mimeType }),
+    };
+};
+
+/**
+ * Turns payloads written before versioning into the current shape: `{ previewHtml, files, ... }`
+ * from the first share links, and `{ html }` from single-page shares.
+ */
+const upgradeLegacyPayload = (data: Record<string, unknown>): Record<string, unknown> => {
+    if (data.version !== undefined) return data;
+    if (typeof data.html === 'string' && !Array.isArray(data.files)) {
+        return { version: SHARE_PAYLOAD_VERSION, previewHtml: data.html, files: [{ path: 'index.html', content: data.html }], template: 'blank', styleLibrary: 'none' };
+    }
+    // 'vanilla' is what the blank template was called then.
+    return { ...data, version: SHARE_PAYLOAD_VERSION, template: data.template === 'vanilla' ? 'blank' : data.template };
+};
+
+const isTemplate = (value: unknown): value is TemplateType => TEMPLATES.includes(value as TemplateType);
+const isStyleLibrary = (value: unknown): value is StyleLibrary => STYLE_LIBRARIES.includes(value as StyleLibrary);
+
+/**
+ * Checks that downloaded data is a share payload this app can open. Older payloads are
+ * upgraded; missing optional fields get defaults. Throws an Error listing every problem found.
+ */
+export const parseSharePayload = (data: unknown, fallbackName: string): SharePayload => {
+    if (!isRecord(data)) {
+        throw new Error('The shared content is not a project snapshot.');
+    }
+    const payload = upgradeLegacyPayload(data);
+    const { version, previewHtml, template, styleLibrary, name, sourceProjectId, createdAt } = payload;
+    const errors: string[] = [];
+
+    if (typeof version === 'number' && version > SHARE_PAYLOAD_VERSION) {
+        throw new Error(`This snapshot was made by a newer version of the app (format ${version}). Please reload to update.`);
+    }
+    if (version !== SHARE_PAYLOAD_VERSION) {
+        throw new Error(`Unknown snapshot format: ${JSON.stringify(version)}.`);
+    }
+    if (typeof previewHtml !== 'string') errors.push('previewHtml must be a string.');
+    if (!Array.isArray(payload.files) || payload.files.length === 0) errors.push('files must be a non-empty array.');
+    if (template !== undefined && !isTemplate(template)) errors.push(`template "${template}" is not known.`);
+    if (styleLibrary !== undefined && !isStyleLibrary(styleLibrary)) errors.push(`styleLibrary "${styleLibrary}" is not known.`);
+
+    const files = Array.isArray(payload.files)
+        ? payload.files.map((file, i) => readFile(file, i, errors)).filter((f): f is ProjectFile => f !== null)
+        : [];
+    const duplicates = files.filter((f, i) => files.findIndex(other => other.path === f.path) !== i);
+    if (duplicates.length > 0) errors.push(`Duplicate file paths: ${[...new Set(duplicates.map(f => f.path))].join(', ')}.`);
+
+    if (errors.length > 0 || typeof previewHtml !== 'string') {
+        throw new Error(`The shared snapshot is invalid:\n- ${errors.join('\n- ')}`);
+    }
+    return {
+        version: SHARE_PAYLOAD_VERSION,
+        name: typeof name === 'string' && name.trim() ? name : fallbackName,
+        sourceProjectId: typeof sourceProjectId === 'string' ? sourceProjectId : '',
+        createdAt: typeof createdAt === 'number' ? createdAt : 0,
+        template: isTemplate(template) ? template : 'blank',
+        styleLibrary: isStyleLibrary(styleLibrary) ? styleLibrary : 'none',
+        previewHtml,
+        files,
+    };
+};
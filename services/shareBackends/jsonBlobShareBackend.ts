@@ -0,0 +1,36 @@
+import type { ShareBackend, SharePayload } from '../shareBackend';
+
+const API_URL = 'https://jsonblob.com/api/jsonBlob';
+
+/**
+ * Stores snapshots on jsonblob.com: public, anonymous and readable by anyone with the id.
+ */
+export const createJsonBlobShareBackend = (): ShareBackend => ({
+    kind: 'jsonblob',
+
+    upload: async (payload: SharePayload) => {
+        const res = await fetch(API_URL, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+            body: JSON.stringify(payload),
+        });
+        if (!res.ok) {
+            throw new Error(`Could not upload to JSONBlob: ${res.status} ${res.statusText}`);
+        }
+        // The id is the last segment of the new blob's URL.
+        const location = res.headers.get('Location') || res.headers.get('X-jsonblob-id') || '';
+        const id = location.split('/').filter(Boolean).pop();
+        if (!id) {
+            throw new Error('JSONBlob did not return an id for the snapshot.');
+        }
+        return id;
+    },
+
+    download: async (id: string) => {
+        const res = await fetch(`${API_URL}/${encodeURIComponent(id)}`);
+        if (!res.ok) {
+            throw new Error(res.status === 404 ? 'This shared snapshot does not exist or has expired.' : `Could not fetch content from JSONBlob: ${res.statusText}`);
+        }
+        return res.json();
+    },
+});
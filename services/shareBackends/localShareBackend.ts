@@ -0,0 +1,29 @@
+import type { ShareBackend, SharePayload } from '../shareBackend';
+
+const KEY_PREFIX = 'shared-snapshot:';
+
+/**
+ * Keeps snapshots in this browser's localStorage. Links only open in the same browser,
+ * which is enough for development and for trying the share flow offline.
+ */
+export const createLocalShareBackend = (storage: Storage = localStorage): ShareBackend => ({
+    kind: 'local',
+
+    upload: async (payload: SharePayload) => {
+        const id = `local-${Date.now().toString(36)}${Math.random().toString(36).substring(2, 7)}`;
+        try {
+            storage.setItem(`${KEY_PREFIX}${id}`, JSON.stringify(payload));
+        } catch (e) {
+            throw new Error('The snapshot is too large for local storage.');
+        }
+        return id;
+    },
+
+    download: async (id: string) => {
+        const stored = storage.getItem(`${KEY_PREFIX}${id}`);
+        if (stored === null) {
+            throw new Error('This shared snapshot is not stored in this browser.');
+        }
+        return JSON.parse(stored);
+    },
+});
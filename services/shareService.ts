@@ -0,0 +1,73 @@
+import type { Project } from '../types';
+import type { ShareBackend, ShareBackendKind, SharePayload } from './shareBackend';
+import { SHARE_PAYLOAD_VERSION, parseSharePayload } from './shareBackend';
+import { createJsonBlobShareBackend } from './shareBackends/jsonBlobShareBackend';
+import { createLocalShareBackend } from './shareBackends/localShareBackend';
+import { createPreviewHtml } from '../utils/previewBuilder';
+
+const SHARE_BACKEND_STORAGE_KEY = 'share-backend';
+const backendKinds: ShareBackendKind[] = ['jsonblob', 'local'];
+
+let activeBackend: ShareBackend = createJsonBlobShareBackend();
+
+export const createShareBackend = (kind: ShareBackendKind): ShareBackend => {
+    switch (kind) {
+        case 'local':
+            return createLocalShareBackend();
+        case 'jsonblob':
+        default:
+            return createJsonBlobShareBackend();
+    }
+};
+
+/**
+ * Replaces the backend used to share and load snapshots. Call before the app renders.
+ */
+export const setShareBackend = (backend: ShareBackend): void => {
+    activeBackend = backend;
+};
+
+export const getShareBackend = (): ShareBackend => activeBackend;
+
+/**
+ * Picks the backend kind from the `?share=` query parameter, then from localStorage,
+ * falling back to JSONBlob. A query parameter choice is remembered for later visits.
+ */
+export const resolveShareBackendKind = (): ShareBackendKind => {
+    const fromQuery = new URLSearchParams(window.location.search).get('share') as ShareBackendKind | null;
+    if (fromQuery && backendKinds.includes(fromQuery)) {
+        localStorage.setItem(SHARE_BACKEND_STORAGE_KEY, fromQuery);
+        return fromQuery;
+    }
+    const fromStorage = localStorage.getItem(SHARE_BACKEND_STORAGE_KEY) as ShareBackendKind | null;
+    return fromStorage && backendKinds.includes(fromStorage) ? fromStorage : 'jsonblob';
+};
+
+/** The link that opens a shared snapshot in this app. */
+export const getShareUrl = (shareId: string): string =>
+    `${window.location.origin}${window.location.pathname}#/share/${encodeURIComponent(shareId)}`;
+
+/**
+ * Uploads a snapshot of the project's files (without its chat) and returns the share id.
+ */
+export const shareSnapshot = async (project: Project): Promise<string> => {
+    const payload: SharePayload = {
+        version: SHARE_PAYLOAD_VERSION,
+        name: project.name,
+        sourceProjectId: project.id,
+        createdAt: Date.now(),
+        template: project.template,
+        styleLibrary: project.styleLibrary,
+        previewHtml: createPreviewHtml(project.files),
+        files: project.files.map(({ path, content, encoding, mimeType }) => ({ path, content, ...(encoding && { encoding }), ...(mimeType && { mimeType }) })),
+    };
+    // Checked with the same rules as on loading, so a link never leads to a snapshot that cannot be opened.
+    return activeBackend.upload(parseSharePayload(payload, project.name));
+};
+
+/**
+ * Loads and validates a shared snapshot. Throws an Error with a readable message if it is
+ * missing or not valid.
+ */
+export const loadSharedSnapshot = async (shareId: string): Promise<SharePayload> =>
+    parseSharePayload(await activeBackend.download(shareId), `Fork of ${shareId.substring(0, 8)}`);
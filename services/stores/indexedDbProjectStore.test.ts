@@ -0,0 +1,50 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, expect, it, vi } from 'vitest';
+import { describeProjectStoreContract } from './projectStore.contract';
+
+// The store keeps its database connection in a module variable, so each test gets a fresh
+// database and a fresh copy of the module.
+const createStore = async () => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    const { createIndexedDbProjectStore } = await import('./indexedDbProjectStore');
+    return createIndexedDbProjectStore();
+};
+
+const clearObjects = () => new Promise<void>((resolve, reject) => {
+    const request = indexedDB.open('autonomous-ai-web-builder');
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+        const tx = request.result.transaction('objects', 'readwrite');
+        tx.objectStore('objects').clear();
+        tx.oncomplete = () => {
+            request.result.close();
+            resolve();
+        };
+        tx.onerror = () => reject(tx.error);
+    };
+});
+
+describeProjectStoreContract('IndexedDB', createStore);
+
+describe('IndexedDB project store', () => {
+    it('lists a project with invalid metadata as broken', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const store = await createStore();
+        await store.saveProject({ id: 'a', name: 'A', files: [], updatedAt: 1, chatHistory: [], currentSessionId: '', template: 'blank', styleLibrary: 'none' });
+
+        const { projects, broken } = await store.listProjects();
+        expect(projects).toEqual([]);
+        expect(broken).toEqual([{ id: 'a', error: expect.stringContaining('currentSessionId must be a non-empty string.') }]);
+        await expect(store.getProject('a')).rejects.toThrow('currentSessionId');
+    });
+
+    it('rejects reading a snapshot whose file contents are missing', async () => {
+        const store = await createStore();
+        const [snapshot] = await store.createSnapshot('a', [{ path: 'index.html', content: '<h1>Hi</h1>' }], { trigger: 'manual', message: 'First' });
+        await clearObjects();
+
+        await expect(store.getSnapshotFiles('a', snapshot.id)).rejects.toThrow('index.html');
+    });
+});
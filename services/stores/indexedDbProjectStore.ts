@@ -0,0 +1,170 @@
+import type { Project, ProjectFile, ProjectSnapshot } from '../../types';
+import type { ProjectStore, SnapshotDetails, ProjectListing } from '../projectStore';
+import { buildManifest, manifestToRefs, getBinaryFileTypes, refToFile, isUnchangedSinceLatest, newSnapshot } from '../projectStore';
+import { PROJECT_SCHEMA_VERSION, parseProjectMeta, repairProjectMeta } from '../projectSchema';
+
+const DB_NAME = 'autonomous-ai-web-builder';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const SNAPSHOTS = 'snapshots';
+const OBJECTS = 'objects';
+
+/** A project as stored: the project itself plus the schema version it was saved with. */
+type ProjectRecord = Project & { schemaVersion?: number };
+
+interface SnapshotRecord {
+    projectId: string;
+    snapshots: ProjectSnapshot[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+                if (!db.objectStoreNames.contains(SNAPSHOTS)) db.createObjectStore(SNAPSHOTS, { keyPath: 'projectId' });
+                // Keyed by `${projectId}:${hash}` so a project's objects can be removed with a key range.
+                if (!db.objectStoreNames.contains(OBJECTS)) db.createObjectStore(OBJECTS);
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted.'));
+});
+
+const objectKey = (projectId: string, hash: string) => `${projectId}:${hash}`;
+const projectObjectRange = (projectId: string) => IDBKeyRange.bound(`${projectId}:`, `${projectId}:\uffff`);
+
+/** Checks a stored record against the project schema; throws an Error describing the problems if it is invalid. */
+const readRecord = (record: ProjectRecord): Project => {
+    const { files, ...rest } = record;
+    const meta = parseProjectMeta(rest, record.id);
+    if (!Array.isArray(files)) throw new Error('Project metadata is invalid:\n- files must be a list of files.');
+    return { ...meta, files };
+};
+
+const getProjects = async (): Promise<ProjectListing> => {
+    const db = await openDatabase();
+    const records = await requestToPromise<ProjectRecord[]>(db.transaction(PROJECTS).objectStore(PROJECTS).getAll());
+    const listing: ProjectListing = { projects: [], broken: [] };
+    for (const record of records) {
+        try {
+            const { files, ...meta } = readRecord(record);
+            listing.projects.push({ ...meta, fileCount: files.length });
+        } catch (e) {
+            console.error(`Could not read project metadata for ${record.id}:`, e);
+            listing.broken.push({ id: record.id, error: e instanceof Error ? e.message : String(e) });
+        }
+    }
+    return listing;
+};
+
+const getProject = async (id: string): Promise<Project | null> => {
+    const db = await openDatabase();
+    const record = await requestToPromise<ProjectRecord | undefined>(db.transaction(PROJECTS).objectStore(PROJECTS).get(id));
+    return record ? readRecord(record) : null;
+};
+
+// A single put is atomic, so a failed save always leaves the previous record in place.
+const saveProject = async (project: Project): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(PROJECTS, 'readwrite');
+    tx.objectStore(PROJECTS).put({ schemaVersion: PROJECT_SCHEMA_VERSION, ...project } satisfies ProjectRecord);
+    await transactionDone(tx);
+};
+
+// Files that are not even shaped like files cannot be salvaged and are dropped.
+const repairProject = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const record = await requestToPromise<ProjectRecord | undefined>(db.transaction(PROJECTS).objectStore(PROJECTS).get(id));
+    if (!record) throw new Error(`Project ${id} not found.`);
+    const { files, ...rest } = record;
+    const validFiles = Array.isArray(files) ? files.filter(f => f && typeof f.path === 'string' && typeof f.content === 'string') : [];
+    await saveProject({ ...repairProjectMeta(rest, id), files: validFiles });
+};
+
+const deleteProject = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([PROJECTS, SNAPSHOTS, OBJECTS], 'readwrite');
+    tx.objectStore(PROJECTS).delete(id);
+    tx.objectStore(SNAPSHOTS).delete(id);
+    tx.objectStore(OBJECTS).delete(projectObjectRange(id));
+    await transactionDone(tx);
+};
+
+const getSnapshots = async (projectId: string): Promise<ProjectSnapshot[]> => {
+    const db = await openDatabase();
+    const record = await requestToPromise<SnapshotRecord | undefined>(db.transaction(SNAPSHOTS).objectStore(SNAPSHOTS).get(projectId));
+    return record?.snapshots ?? [];
+};
+
+// The index is read and written in one transaction, so overlapping snapshots cannot drop each other's entries.
+const createSnapshot = async (projectId: string, files: ProjectFile[], details: SnapshotDetails): Promise<ProjectSnapshot[]> => {
+    const manifest = await buildManifest(files);
+    const refs = manifestToRefs(manifest, getBinaryFileTypes(files));
+    const db = await openDatabase();
+    const tx = db.transaction([SNAPSHOTS, OBJECTS], 'readwrite');
+    const snapshots = (await requestToPromise<SnapshotRecord | undefined>(tx.objectStore(SNAPSHOTS).get(projectId)))?.snapshots ?? [];
+    if (isUnchangedSinceLatest(snapshots, refs)) return snapshots;
+
+    const updatedSnapshots = [...snapshots, newSnapshot(refs, details)];
+    const objects = tx.objectStore(OBJECTS);
+    for (const file of files) {
+        objects.put(file.content, objectKey(projectId, manifest[file.path]));
+    }
+    tx.objectStore(SNAPSHOTS).put({ projectId, snapshots: updatedSnapshots } satisfies SnapshotRecord);
+    await transactionDone(tx);
+    return updatedSnapshots;
+};
+
+const getSnapshotFiles = async (projectId: string, snapshotId: string): Promise<ProjectFile[]> => {
+    const snapshot = (await getSnapshots(projectId)).find(s => s.id === snapshotId);
+    if (!snapshot) {
+        throw new Error(`Snapshot ${snapshotId} not found.`);
+    }
+
+    const db = await openDatabase();
+    const objects = db.transaction(OBJECTS).objectStore(OBJECTS);
+    const contents = await Promise.all(snapshot.files.map(ref => requestToPromise<string | undefined>(objects.get(objectKey(projectId, ref.hash)))));
+    return snapshot.files.map((ref, i) => {
+        const content = contents[i];
+        if (content === undefined) throw new Error(`The stored content of ${ref.path} in snapshot ${snapshotId} is missing.`);
+        return refToFile(ref, content);
+    });
+};
+
+/**
+ * Stores projects in the browser's IndexedDB, so they can be used offline and
+ * without a Puter account.
+ */
+export const createIndexedDbProjectStore = (): ProjectStore => ({
+    kind: 'indexeddb',
+    requiresAuth: false,
+    listProjects: getProjects,
+    getProject,
+    saveProject,
+    deleteProject,
+    repairProject,
+    listSnapshots: getSnapshots,
+    createSnapshot,
+    getSnapshotFiles,
+});
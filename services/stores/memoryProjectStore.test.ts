@@ -0,0 +1,4 @@
+import { describeProjectStoreContract } from './projectStore.contract';
+import { createMemoryProjectStore } from './memoryProjectStore';
+
+describeProjectStoreContract('memory', async () => createMemoryProjectStore());
@@ -0,0 +1,81 @@
+import type { Project, ProjectFile, ProjectSnapshot } from '../../types';
+import type { ProjectStore, SnapshotDetails } from '../projectStore';
+import { buildManifest, manifestToRefs, getBinaryFileTypes, refToFile, isUnchangedSinceLatest, newSnapshot } from '../projectStore';
+import { repairProjectMeta } from '../projectSchema';
+
+const cloneProject = (project: Project): Project => ({
+    ...project,
+    files: project.files.map(f => ({ ...f })),
+    chatHistory: project.chatHistory.map(m => ({ ...m })),
+});
+
+/**
+ * Keeps projects in memory for the lifetime of the page. Nothing survives a reload,
+ * which makes it suitable for unit tests and quick local experiments.
+ * Pass `initialProjects` to seed the store.
+ */
+export const createMemoryProjectStore = (initialProjects: Project[] = []): ProjectStore => {
+    const projects = new Map<string, Project>(initialProjects.map(p => [p.id, cloneProject(p)]));
+    const snapshots = new Map<string, ProjectSnapshot[]>();
+    // Content-addressed file contents, shared by all projects.
+    const objects = new Map<string, string>();
+
+    return {
+        kind: 'memory',
+        requiresAuth: false,
+
+        // Projects never leave memory, so there is no stored metadata that could be broken.
+        listProjects: async () => ({
+            projects: [...projects.values()].map(cloneProject).map(({ files, ...meta }) => ({ ...meta, fileCount: files.length })),
+            broken: [],
+        }),
+
+        getProject: async (id) => {
+            const project = projects.get(id);
+            return project ? cloneProject(project) : null;
+        },
+
+        saveProject: async (project) => {
+            projects.set(project.id, cloneProject(project));
+        },
+
+        deleteProject: async (id) => {
+            projects.delete(id);
+            snapshots.delete(id);
+        },
+
+        repairProject: async (id) => {
+            const project = projects.get(id);
+            if (!project) throw new Error(`Project ${id} not found.`);
+            const { files, ...meta } = project;
+            projects.set(id, { ...repairProjectMeta(meta, id), files });
+        },
+
+        listSnapshots: async (projectId) => [...(snapshots.get(projectId) || [])],
+
+        createSnapshot: async (projectId: string, files: ProjectFile[], details: SnapshotDetails) => {
+            const manifest = await buildManifest(files);
+            // Read after hashing, so a snapshot recorded meanwhile is not overwritten.
+            const existing = snapshots.get(projectId) || [];
+            const refs = manifestToRefs(manifest, getBinaryFileTypes(files));
+            if (isUnchangedSinceLatest(existing, refs)) return [...existing];
+
+            for (const file of files) objects.set(manifest[file.path], file.content);
+            const updated = [...existing, newSnapshot(refs, details)];
+            snapshots.set(projectId, updated);
+            return [...updated];
+        },
+
+        getSnapshotFiles: async (projectId, snapshotId) => {
+            const snapshot = snapshots.get(projectId)?.find(s => s.id === snapshotId);
+            if (!snapshot) {
+                throw new Error(`Snapshot ${snapshotId} not found.`);
+            }
+            return snapshot.files.map(ref => {
+                const content = objects.get(ref.hash);
+                if (content === undefined) throw new Error(`The stored content of ${ref.path} in snapshot ${snapshotId} is missing.`);
+                return refToFile(ref, content);
+            });
+        },
+    };
+};
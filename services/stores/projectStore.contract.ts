@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import type { Project } from '../../types';
+import type { ProjectStore } from '../projectStore';
+
+const makeProject = (id: string, overrides: Partial<Project> = {}): Project => ({
+    id,
+    name: `Project ${id}`,
+    files: [
+        { path: 'index.html', content: '<h1>Hi</h1>' },
+        { path: 'style.css', content: 'h1 { color: red; }' },
+    ],
+    updatedAt: 1_700_000_000_000,
+    chatHistory: [],
+    currentSessionId: 'session1',
+    template: 'blank',
+    styleLibrary: 'none',
+    ...overrides,
+});
+
+const LOGO = { path: 'logo.png', content: 'iVBORw0KGgo=', encoding: 'base64', mimeType: 'image/png' } as const;
+
+/**
+ * Runs the behaviour every ProjectStore must share. `createStore` must return a store
+ * with no projects in it.
+ */
+export const describeProjectStoreContract = (name: string, createStore: () => Promise<ProjectStore>) => {
+    describe(`${name} project store`, () => {
+        describe('saveProject', () => {
+            it('returns the saved project from getProject and listProjects', async () => {
+                const store = await createStore();
+                await store.saveProject(makeProject('a'));
+
+                expect(await store.getProject('a')).toEqual(makeProject('a'));
+                const { projects, broken } = await store.listProjects();
+                expect(broken).toEqual([]);
+                expect(projects).toEqual([expect.objectContaining({ id: 'a', name: 'Project a', fileCount: 2 })]);
+            });
+
+            it('replaces the files of an earlier save, dropping removed ones', async () => {
+                const store = await createStore();
+                await store.saveProject(makeProject('a'));
+                const files = [{ path: 'index.html', content: '<h1>Changed</h1>' }, { path: 'app.js', content: 'go();' }];
+                await store.saveProject(makeProject('a', { files, updatedAt: 1_700_000_000_001 }));
+
+                expect(await store.getProject('a')).toEqual(makeProject('a', { files, updatedAt: 1_700_000_000_001 }));
+            });
+
+            it('keeps binary files base64 encoded', async () => {
+                const store = await createStore();
+                await store.saveProject(makeProject('a', { files: [LOGO] }));
+
+                expect((await store.getProject('a'))?.files).toEqual([LOGO]);
+            });
+
+            it('does not share objects with the caller', async () => {
+                const store = await createStore();
+                const project = makeProject('a');
+                await store.saveProject(project);
+                project.files[0].content = 'changed after saving';
+
+                expect((await store.getProject('a'))?.files[0].content).toBe('<h1>Hi</h1>');
+            });
+        });
+
+        it('returns null for a project that does not exist', async () => {
+            const store = await createStore();
+            expect(await store.getProject('missing')).toBeNull();
+        });
+
+        it('deletes a project and its snapshots', async () => {
+            const store = await createStore();
+            await store.saveProject(makeProject('a'));
+            await store.createSnapshot('a', makeProject('a').files, { trigger: 'manual', message: 'First' });
+            await store.deleteProject('a');
+
+            expect(await store.getProject('a')).toBeNull();
+            expect((await store.listProjects()).projects).toEqual([]);
+            expect(await store.listSnapshots('a')).toEqual([]);
+        });
+
+        it('repairs invalid metadata and keeps the files', async () => {
+            const store = await createStore();
+            const broken = { ...makeProject('a'), name: '', template: 'unknown' } as unknown as Project;
+            await store.saveProject(broken);
+            await store.repairProject('a');
+
+            expect(await store.getProject('a')).toEqual(makeProject('a', { name: 'Recovered project' }));
+            expect((await store.listProjects()).broken).toEqual([]);
+        });
+
+        it('rejects repairing a project that does not exist', async () => {
+            const store = await createStore();
+            await expect(store.repairProject('missing')).rejects.toThrow('not found');
+        });
+
+        describe('snapshots', () => {
+            it('records a snapshot and returns its files', async () => {
+                const store = await createStore();
+                const files = [...makeProject('a').files, LOGO];
+                const snapshots = await store.createSnapshot('a', files, { trigger: 'manual', message: 'First' });
+
+                expect(snapshots).toEqual([expect.objectContaining({ trigger: 'manual', message: 'First' })]);
+                expect(await store.listSnapshots('a')).toEqual(snapshots);
+                expect(await store.getSnapshotFiles('a', snapshots[0].id)).toEqual(files);
+            });
+
+            it('does not record files that are unchanged since the latest snapshot', async () => {
+                const store = await createStore();
+                const files = makeProject('a').files;
+                const first = await store.createSnapshot('a', files, { trigger: 'manual', message: 'First' });
+                const second = await store.createSnapshot('a', files.map(f => ({ ...f })), { trigger: 'ai', message: 'Same files' });
+
+                expect(second).toEqual(first);
+                expect(await store.listSnapshots('a')).toHaveLength(1);
+            });
+
+            it('records files that match an older snapshot but not the latest', async () => {
+                const store = await createStore();
+                const files = makeProject('a').files;
+                await store.createSnapshot('a', files, { trigger: 'manual', message: 'First' });
+                await store.createSnapshot('a', files.slice(0, 1), { trigger: 'manual', message: 'Second' });
+                const snapshots = await store.createSnapshot('a', files, { trigger: 'restore', message: 'Back to first' });
+
+                expect(snapshots.map(s => s.message)).toEqual(['First', 'Second', 'Back to first']);
+                expect(await store.getSnapshotFiles('a', snapshots[2].id)).toEqual(files);
+            });
+
+            it('keeps every snapshot when they are created at the same time', async () => {
+                const store = await createStore();
+                const files = makeProject('a').files;
+                await Promise.all([
+                    store.createSnapshot('a', files, { trigger: 'manual', message: 'One' }),
+                    store.createSnapshot('a', files.slice(0, 1), { trigger: 'manual', message: 'Two' }),
+                ]);
+
+                expect((await store.listSnapshots('a')).map(s => s.message).sort()).toEqual(['One', 'Two']);
+            });
+
+            it('keeps the snapshots of each project apart', async () => {
+                const store = await createStore();
+                await store.createSnapshot('a', makeProject('a').files, { trigger: 'manual', message: 'A' });
+
+                expect(await store.listSnapshots('b')).toEqual([]);
+            });
+
+            it('rejects reading a snapshot that does not exist', async () => {
+                const store = await createStore();
+                await expect(store.getSnapshotFiles('a', 'snap_missing')).rejects.toThrow('Snapshot snap_missing not found.');
+            });
+        });
+    });
+};
@@ -0,0 +1,364 @@
+import type { Project, ProjectFile, ProjectMeta, ProjectSnapshot, ProjectSummary, SnapshotFileRef } from '../../types';
+import type { ProjectStore, FileManifest, BinaryFileTypes, SnapshotDetails, ProjectListing, BrokenProject } from '../projectStore';
+import { buildManifest, manifestToRefs, getBinaryFileTypes, refToFile, isUnchangedSinceLatest, newSnapshot } from '../projectStore';
+import { PROJECT_SCHEMA_VERSION, parseProjectMeta, repairProjectMeta } from '../projectSchema';
+import { getFileData, bytesToBase64, getMimeType } from '../../utils/fileUtils';
+import { runWithConcurrency, IO_CONCURRENCY } from '../../utils/concurrency';
+
+declare const puter: any;
+
+const BASE_PATH = '~/AppData/Autonomous AI Web Builder';
+
+// Ensure the base directory exists
+const ensureBaseDir = async () => {
+    try {
+        await puter.fs.stat(BASE_PATH);
+    } catch (e) {
+        // If it doesn't exist, create it
+        await puter.fs.mkdir(BASE_PATH, { createMissingParents: true });
+    }
+};
+
+const getProjectPath = (id: string) => `${BASE_PATH}/${id}`;
+const getProjectMetaPath = (id: string) => `${getProjectPath(id)}/project.json`;
+// Legacy layout: files mirrored as a plain directory tree. Only read for projects saved before the object store existed.
+const getProjectFilesPath = (id: string) => `${getProjectPath(id)}/src`;
+const getObjectPath = (id: string, hash: string) => `${getProjectPath(id)}/objects/${hash}`;
+const getHistoryPath = (id: string) => `${getProjectPath(id)}/history`;
+const getSnapshotIndexPath = (id: string) => `${getHistoryPath(id)}/snapshots.json`;
+
+type StoredProjectMeta = ProjectMeta & { schemaVersion?: number; fileManifest?: FileManifest; binaryFiles?: BinaryFileTypes };
+
+// The last queued write of each project; see runExclusive.
+const projectQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs `task` once every earlier write of the same project has settled. Saves and snapshots
+ * decide which objects to write or delete from the stored manifest and snapshot index, so
+ * two overlapping ones could delete objects the other has just committed a reference to.
+ */
+const runExclusive = <T>(projectId: string, task: () => Promise<T>): Promise<T> => {
+    const run = (projectQueues.get(projectId) ?? Promise.resolve()).then(task);
+    const settled = run.catch(() => {});
+    projectQueues.set(projectId, settled);
+    settled.then(() => {
+        if (projectQueues.get(projectId) === settled) projectQueues.delete(projectId);
+    });
+    return run;
+};
+
+/** Reads project.json as it was written, without checking it; use readProjectMeta for that. */
+const readStoredMeta = async (id: string): Promise<StoredProjectMeta | null> => {
+    let metaContent: string;
+    try {
+        const metaBlob = await puter.fs.read(getProjectMetaPath(id));
+        metaContent = await metaBlob.text();
+    } catch (e) {
+        if (e.code === 'subject_does_not_exist') return null;
+        throw e;
+    }
+    try {
+        return JSON.parse(metaContent);
+    } catch (e) {
+        throw new Error(`project.json is not valid JSON: ${e instanceof Error ? e.message : e}`);
+    }
+};
+
+const isStringMap = (value: unknown): value is Record<string, string> =>
+    !!value && typeof value === 'object' && !Array.isArray(value) && Object.values(value).every(v => typeof v === 'string');
+
+/**
+ * Reads project.json and checks it against the project schema. Returns null if the project
+ * does not exist and throws an Error describing the problems if it is invalid.
+ */
+const readProjectMeta = async (id: string): Promise<{ meta: ProjectMeta; fileManifest?: FileManifest; binaryFiles?: BinaryFileTypes } | null> => {
+    const stored = await readStoredMeta(id);
+    if (!stored) return null;
+    const { fileManifest, binaryFiles, ...rest } = stored;
+    const meta = parseProjectMeta(rest, id);
+    if ((fileManifest !== undefined && !isStringMap(fileManifest)) || (binaryFiles !== undefined && !isStringMap(binaryFiles))) {
+        throw new Error('Project metadata is invalid:\n- fileManifest and binaryFiles must map file paths to strings.');
+    }
+    return { meta, fileManifest, binaryFiles };
+};
+
+/**
+ * Writes the content of every file whose hash is not in `existingHashes` to the object store.
+ */
+const writeObjects = async (id: string, files: ProjectFile[], manifest: FileManifest, existingHashes: Set<string>): Promise<void> => {
+    const pending = new Map<string, ProjectFile>();
+    for (const file of files) {
+        const hash = manifest[file.path];
+        if (!existingHashes.has(hash)) pending.set(hash, file);
+    }
+    // Binary files are written as raw bytes, so objects are real copies of the files.
+    await runWithConcurrency([...pending.entries()], IO_CONCURRENCY, async ([hash, file]) => {
+        await puter.fs.write(getObjectPath(id, hash), getFileData(file), { createMissingParents: true });
+    });
+};
+
+const readObjects = async (id: string, refs: SnapshotFileRef[]): Promise<ProjectFile[]> => {
+    const files: ProjectFile[] = new Array(refs.length);
+    await runWithConcurrency(refs.map((ref, index) => ({ ref, index })), IO_CONCURRENCY, async ({ ref, index }) => {
+        const blob = await puter.fs.read(getObjectPath(id, ref.hash));
+        const content = ref.encoding === 'base64' ? bytesToBase64(new Uint8Array(await blob.arrayBuffer())) : await blob.text();
+        files[index] = refToFile(ref, content);
+    });
+    return files;
+};
+
+const readLegacyFiles = async (id: string): Promise<ProjectFile[]> => {
+    const filesPath = getProjectFilesPath(id);
+    const projectFiles: ProjectFile[] = [];
+
+    const readDirRecursive = async (currentPath: string) => {
+        try {
+            const items = await puter.fs.readdir(currentPath);
+            await runWithConcurrency(items, IO_CONCURRENCY, async (item: any) => {
+                if (item.is_dir) {
+                    await readDirRecursive(item.path);
+                } else {
+                    const fileBlob = await puter.fs.read(item.path);
+                    const content = await fileBlob.text();
+                    const relativePath = item.path.substring(filesPath.length + 1);
+                    projectFiles.push({ path: relativePath, content });
+                }
+            });
+        } catch(e) {
+            if (e.code === 'subject_does_not_exist') {
+                 console.log(`Directory not found, skipping: ${currentPath}`);
+            } else {
+                throw e;
+            }
+        }
+    }
+
+    await readDirRecursive(filesPath);
+    return projectFiles.sort((a, b) => a.path.localeCompare(b.path));
+};
+
+/**
+ * Lists all projects in Puter FS without reading their files. Project folders whose
+ * project.json is missing or invalid are listed as broken.
+ */
+const getProjects = async (): Promise<ProjectListing> => {
+    await ensureBaseDir();
+    const projectDirs = await puter.fs.readdir(BASE_PATH);
+    const projects: ProjectSummary[] = [];
+    const broken: BrokenProject[] = [];
+
+    for (const dir of projectDirs) {
+        if (dir.is_dir) {
+            try {
+                const stored = await readProjectMeta(dir.name);
+                if (!stored) throw new Error('project.json not found.');
+                projects.push({ ...stored.meta, ...(stored.fileManifest && { fileCount: Object.keys(stored.fileManifest).length }) });
+            } catch (e) {
+                console.error(`Could not read project metadata for ${dir.name}:`, e);
+                broken.push({ id: dir.name, error: e instanceof Error ? e.message : String(e) });
+            }
+        }
+    }
+    return { projects, broken };
+};
+
+/**
+ * Fetches a single project by its ID from Puter FS. Returns null if there is no such project.
+ */
+const getProject = async (id: string): Promise<Project | null> => {
+    await ensureBaseDir();
+    const stored = await readProjectMeta(id);
+    if (!stored) return null;
+    const { meta, fileManifest, binaryFiles } = stored;
+
+    const files = fileManifest
+        ? await readObjects(id, manifestToRefs(fileManifest, binaryFiles))
+        : await readLegacyFiles(id);
+    return { ...meta, files };
+};
+
+/**
+ * Saves a new project or updates an existing one in Puter FS.
+ *
+ * File contents live in a content-addressed object store and `project.json` holds a
+ * manifest of path -> hash. Only content that is not already stored is written, and
+ * `project.json` is written last, so if any write fails the previously saved state
+ * is still complete and intact.
+ */
+const saveProject = async (project: Project): Promise<void> => {
+    await ensureBaseDir();
+
+    // Separate files from the rest of the project metadata to store in project.json
+    const { files, ...meta } = project;
+
+    const previous = await readStoredMeta(project.id);
+    const previousManifest = previous?.fileManifest;
+    const manifest = await buildManifest(files);
+
+    await writeObjects(project.id, files, manifest, new Set(Object.values(previousManifest || {})));
+
+    // Commit: from here on the new manifest is the saved state.
+    const binaryFiles = getBinaryFileTypes(files);
+    const stored: StoredProjectMeta = { schemaVersion: PROJECT_SCHEMA_VERSION, ...meta, fileManifest: manifest, ...(Object.keys(binaryFiles).length > 0 && { binaryFiles }) };
+    await puter.fs.write(getProjectMetaPath(project.id), JSON.stringify(stored, null, 2), { createMissingParents: true });
+
+    // Cleanup never affects the committed state, so failures are only logged.
+    try {
+        if (previous && !previousManifest) {
+            await puter.fs.delete(getProjectFilesPath(project.id), { recursive: true });
+        }
+        if (previousManifest) {
+            await deleteUnreferencedObjects(project.id, previousManifest, manifest);
+        }
+    } catch (e) {
+        if (e.code !== 'subject_does_not_exist') {
+            console.error('Saved successfully, but cleaning up old project files failed.', e);
+        }
+    }
+};
+
+/**
+ * Deletes the objects of paths that were removed or changed, unless they are still
+ * referenced by the new manifest or by a history snapshot. The snapshot index is read
+ * right before deleting, and nothing is deleted if it cannot be read.
+ */
+const deleteUnreferencedObjects = async (id: string, previousManifest: FileManifest, manifest: FileManifest): Promise<void> => {
+    const referenced = new Set(Object.values(manifest));
+    const candidates = new Set(Object.values(previousManifest).filter(hash => !referenced.has(hash)));
+    if (candidates.size === 0) return;
+
+    const snapshots = await readSnapshotIndex(id);
+    for (const snapshot of snapshots) {
+        for (const ref of snapshot.files) candidates.delete(ref.hash);
+    }
+    await runWithConcurrency([...candidates], IO_CONCURRENCY, async hash => {
+        await puter.fs.delete(getObjectPath(id, hash));
+    });
+};
+
+/**
+ * Deletes a project by its ID from Puter FS.
+ */
+const deleteProject = async (id: string): Promise<void> => {
+    await ensureBaseDir();
+    const projectPath = getProjectPath(id);
+    try {
+        await puter.fs.delete(projectPath, { recursive: true });
+    } catch (e) {
+        console.error(`Failed to delete project ${id}:`, e);
+        throw new Error(`Failed to delete project: ${e instanceof Error ? e.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Rewrites project.json from whatever can still be read of it. Without a usable file manifest
+ * the project gets the files of its latest snapshot, or those of the legacy layout if it has none.
+ */
+const repairProject = async (id: string): Promise<void> => {
+    await ensureBaseDir();
+    let stored: unknown = null;
+    try {
+        stored = await readStoredMeta(id);
+    } catch (e) {
+        console.error(`project.json of ${id} is unreadable and will be rebuilt:`, e);
+    }
+    const { fileManifest, binaryFiles, ...rest } = stored && typeof stored === 'object' && !Array.isArray(stored) ? stored as StoredProjectMeta : {} as Partial<StoredProjectMeta>;
+    const meta = repairProjectMeta(rest, id);
+
+    let fileFields: Pick<StoredProjectMeta, 'fileManifest' | 'binaryFiles'> = {};
+    if (isStringMap(fileManifest)) {
+        fileFields = { fileManifest, ...(isStringMap(binaryFiles) && { binaryFiles }) };
+    } else {
+        const latest = (await getSnapshots(id)).pop();
+        if (latest) {
+            const binaryRefs = latest.files.filter(ref => ref.encoding === 'base64');
+            fileFields = {
+                fileManifest: Object.fromEntries(latest.files.map(ref => [ref.path, ref.hash])),
+                ...(binaryRefs.length > 0 && { binaryFiles: Object.fromEntries(binaryRefs.map(ref => [ref.path, ref.mimeType || getMimeType(ref.path)])) }),
+            };
+        }
+    }
+
+    const repaired: StoredProjectMeta = { schemaVersion: PROJECT_SCHEMA_VERSION, ...meta, ...fileFields };
+    await puter.fs.write(getProjectMetaPath(id), JSON.stringify(repaired, null, 2), { createMissingParents: true });
+};
+
+/**
+ * Reads the snapshot index; an empty list if there is none yet. Throws if it exists but cannot
+ * be read, so callers that delete objects or rewrite the index never act on a partial history.
+ */
+const readSnapshotIndex = async (projectId: string): Promise<ProjectSnapshot[]> => {
+    try {
+        const indexBlob = await puter.fs.read(getSnapshotIndexPath(projectId));
+        return JSON.parse(await indexBlob.text());
+    } catch (e) {
+        if (e.code === 'subject_does_not_exist') return [];
+        throw e;
+    }
+};
+
+/**
+ * Lists the saved snapshots of a project, oldest first.
+ */
+const getSnapshots = async (projectId: string): Promise<ProjectSnapshot[]> => {
+    try {
+        return await readSnapshotIndex(projectId);
+    } catch (e) {
+        console.error(`Could not read snapshot history for ${projectId}:`, e);
+        return [];
+    }
+};
+
+/**
+ * Records the given files as a new snapshot. File contents are stored by hash,
+ * so content that is already saved or part of an earlier snapshot is not written again.
+ */
+const createSnapshot = async (projectId: string, files: ProjectFile[], details: SnapshotDetails): Promise<ProjectSnapshot[]> => {
+    const snapshots = await readSnapshotIndex(projectId);
+    const stored = await readStoredMeta(projectId);
+    const storedHashes = new Set([
+        ...snapshots.flatMap(s => s.files.map(f => f.hash)),
+        ...Object.values(stored?.fileManifest || {}),
+    ]);
+
+    const manifest = await buildManifest(files);
+    const refs = manifestToRefs(manifest, getBinaryFileTypes(files));
+    if (isUnchangedSinceLatest(snapshots, refs)) {
+        return snapshots;
+    }
+
+    await writeObjects(projectId, files, manifest, storedHashes);
+
+    const updatedSnapshots = [...snapshots, newSnapshot(refs, details)];
+    await puter.fs.write(getSnapshotIndexPath(projectId), JSON.stringify(updatedSnapshots, null, 2), { createMissingParents: true });
+    return updatedSnapshots;
+};
+
+/**
+ * Rebuilds the `files` array of a project exactly as it was when the snapshot was taken.
+ */
+const getSnapshotFiles = async (projectId: string, snapshotId: string): Promise<ProjectFile[]> => {
+    const snapshots = await getSnapshots(projectId);
+    const snapshot = snapshots.find(s => s.id === snapshotId);
+    if (!snapshot) {
+        throw new Error(`Snapshot ${snapshotId} not found.`);
+    }
+
+    return readObjects(projectId, snapshot.files);
+};
+
+/**
+ * Stores projects in the signed-in user's Puter FS under AppData.
+ */
+export const createPuterProjectStore = (): ProjectStore => ({
+    kind: 'puter',
+    requiresAuth: true,
+    listProjects: getProjects,
+    getProject,
+    saveProject: project => runExclusive(project.id, () => saveProject(project)),
+    deleteProject: id => runExclusive(id, () => deleteProject(id)),
+    repairProject: id => runExclusive(id, () => repairProject(id)),
+    listSnapshots: getSnapshots,
+    createSnapshot: (projectId, files, details) => runExclusive(projectId, () => createSnapshot(projectId, files, details)),
+    getSnapshotFiles,
+});
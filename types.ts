@@ -1,7 +1,11 @@
 
+export type FileEncoding = 'utf-8' | 'base64';
+
 export interface ProjectFile {
   path: string;
-  content: string;
+  content: string; // for binary files, the bytes as base64
+  encoding?: FileEncoding; // defaults to 'utf-8' (plain text)
+  mimeType?: string;
 }
 
 export type TemplateType = 'blank' | 'portfolio' | 'blog' | 'landing-page';
@@ -11,12 +15,43 @@ export interface Project {
   id: string;
   name: string;
   files: ProjectFile[];
+  folders?: string[]; // folders with no files in them; others are implied by file paths
   updatedAt: number;
   chatHistory: ChatMessage[];
   currentSessionId: string;
   template: TemplateType;
   styleLibrary: StyleLibrary;
   publishedSubdomain?: string;
+  publishHistory?: PublishRecord[]; // newest first
+  forkedFrom?: ForkSource;
+}
+
+/** A project without its files: the metadata stored next to them. */
+export type ProjectMeta = Omit<Project, 'files'>;
+
+/** A project as listed on the home page, without loading its files. */
+export interface ProjectSummary extends ProjectMeta {
+  /** Unknown for projects still in the legacy Puter FS layout. */
+  fileCount?: number;
+}
+
+/** Where a forked project came from. Only ids are kept; the source's chat is never copied. */
+export interface ForkSource {
+  shareId: string;
+  /** The project the shared snapshot was taken from, if the snapshot recorded it. */
+  sourceProjectId?: string;
+  forkedAt: number;
+}
+
+/** One publish of a project to Puter hosting. */
+export interface PublishRecord {
+  publishedAt: number;
+  subdomain: string;
+  fileCount: number;
+  /** Files deleted from the site because they are no longer in the project. */
+  removedCount: number;
+  /** Whether the production build was published instead of the source files. */
+  isBuild: boolean;
 }
 
 export interface ChatMessage {
@@ -24,6 +59,7 @@ export interface ChatMessage {
   content: string | null;
   operations?: FileOperation[];
   thoughts?: string[];
+  sessionId?: string; // chat session the message belongs to; see Project.currentSessionId
 }
 
 export type FileOperationType = 'CREATE' | 'UPDATE' | 'DELETE';
@@ -33,6 +69,41 @@ export interface FileOperation {
   path: string;
   content?: string; // content is optional for DELETE
   reasoning?: string;
+  rejectedHunks?: PatchHunk[]; // hunks from a patch block that could not be applied
+}
+
+export interface PatchHunk {
+  search: string;
+  replace: string;
+}
+
+export type PreviewErrorKind = 'runtime' | 'promise' | 'resource' | 'console';
+
+/** A problem reported by the page while it ran in the preview. */
+export interface PreviewError {
+  kind: PreviewErrorKind;
+  message: string;
+  /** Project file `line` refers to; without it, `line` is a line of the preview page. */
+  path?: string;
+  line?: number;
+  column?: number;
+}
+
+export type SnapshotTrigger = 'ai' | 'manual' | 'restore';
+
+export interface SnapshotFileRef {
+  path: string;
+  hash: string;
+  encoding?: FileEncoding; // only set for binary files
+  mimeType?: string;
+}
+
+export interface ProjectSnapshot {
+  id: string;
+  createdAt: number;
+  trigger: SnapshotTrigger;
+  message: string;
+  files: SnapshotFileRef[];
 }
 
 export interface BlueprintFile {
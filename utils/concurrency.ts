@@ -0,0 +1,25 @@
+// Maximum number of file reads/writes in flight against Puter FS at once.
+export const IO_CONCURRENCY = 6;
+
+/**
+ * Runs `worker` over all items with at most `limit` calls pending at a time.
+ * Rejects with the first error once all started calls have settled.
+ */
+export const runWithConcurrency = async <T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> => {
+    let nextIndex = 0;
+    let firstError: unknown = null;
+
+    const runNext = async (): Promise<void> => {
+        while (nextIndex < items.length && firstError === null) {
+            const item = items[nextIndex++];
+            try {
+                await worker(item);
+            } catch (e) {
+                firstError = firstError ?? e;
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, runNext));
+    if (firstError !== null) throw firstError;
+};
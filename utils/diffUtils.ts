@@ -0,0 +1,196 @@
+export type DiffLineType = 'equal' | 'add' | 'remove';
+
+export interface DiffLine {
+    type: DiffLineType;
+    text: string;
+}
+
+export interface SideBySideRow {
+    left: { number: number; text: string; type: DiffLineType } | null;
+    right: { number: number; text: string; type: DiffLineType } | null;
+}
+
+// Above this many line pairs the LCS table gets too large to build in the browser.
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Computes a line-based diff between two texts using the longest common subsequence.
+ * Very large inputs fall back to a plain "everything removed, everything added" diff.
+ */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+    const a = oldText === '' ? [] : oldText.split('\n');
+    const b = newText === '' ? [] : newText.split('\n');
+
+    // Trim the common prefix and suffix so the LCS table only covers the changed region.
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+    const prefix: DiffLine[] = a.slice(0, start).map(text => ({ type: 'equal', text }));
+    const suffix: DiffLine[] = a.slice(endA).map(text => ({ type: 'equal', text }));
+    const midA = a.slice(start, endA);
+    const midB = b.slice(start, endB);
+
+    if (midA.length * midB.length > MAX_LCS_CELLS) {
+        return [
+            ...prefix,
+            ...midA.map(text => ({ type: 'remove' as const, text })),
+            ...midB.map(text => ({ type: 'add' as const, text })),
+            ...suffix,
+        ];
+    }
+
+    const rows = midA.length + 1;
+    const cols = midB.length + 1;
+    const lcs = new Uint32Array(rows * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+        for (let j = midB.length - 1; j >= 0; j--) {
+            lcs[i * cols + j] = midA[i] === midB[j]
+                ? lcs[(i + 1) * cols + j + 1] + 1
+                : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+        }
+    }
+
+    const middle: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+        if (midA[i] === midB[j]) {
+            middle.push({ type: 'equal', text: midA[i] });
+            i++; j++;
+        } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+            middle.push({ type: 'remove', text: midA[i++] });
+        } else {
+            middle.push({ type: 'add', text: midB[j++] });
+        }
+    }
+    while (i < midA.length) middle.push({ type: 'remove', text: midA[i++] });
+    while (j < midB.length) middle.push({ type: 'add', text: midB[j++] });
+
+    return [...prefix, ...middle, ...suffix];
+};
+
+/**
+ * Arranges a diff into rows for a two-column view, pairing each run of removed
+ * lines with the run of added lines that follows it.
+ */
+export const toSideBySide = (diff: DiffLine[]): SideBySideRow[] => {
+    const rows: SideBySideRow[] = [];
+    let leftNumber = 1;
+    let rightNumber = 1;
+    let index = 0;
+
+    while (index < diff.length) {
+        const line = diff[index];
+        if (line.type === 'equal') {
+            rows.push({
+                left: { number: leftNumber++, text: line.text, type: 'equal' },
+                right: { number: rightNumber++, text: line.text, type: 'equal' },
+            });
+            index++;
+            continue;
+        }
+
+        const removed: string[] = [];
+        const added: string[] = [];
+        while (index < diff.length && diff[index].type === 'remove') removed.push(diff[index++].text);
+        while (index < diff.length && diff[index].type === 'add') added.push(diff[index++].text);
+
+        for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+            rows.push({
+                left: k < removed.length ? { number: leftNumber++, text: removed[k], type: 'remove' } : null,
+                right: k < added.length ? { number: rightNumber++, text: added[k], type: 'add' } : null,
+            });
+        }
+    }
+    return rows;
+};
+
+/** A change to a range of base lines: base lines `start..end` (exclusive) become `lines`. */
+interface Hunk {
+    start: number;
+    end: number;
+    lines: string[];
+}
+
+const toHunks = (diff: DiffLine[]): Hunk[] => {
+    const hunks: Hunk[] = [];
+    let baseLine = 0;
+    let current: Hunk | null = null;
+    for (const line of diff) {
+        if (line.type === 'equal') {
+            current = null;
+            baseLine++;
+            continue;
+        }
+        if (!current) {
+            current = { start: baseLine, end: baseLine, lines: [] };
+            hunks.push(current);
+        }
+        if (line.type === 'remove') {
+            current.end++;
+            baseLine++;
+        } else {
+            current.lines.push(line.text);
+        }
+    }
+    return hunks;
+};
+
+const applyHunks = (baseLines: string[], start: number, end: number, hunks: Hunk[]): string[] => {
+    const result: string[] = [];
+    let position = start;
+    for (const hunk of hunks) {
+        result.push(...baseLines.slice(position, hunk.start), ...hunk.lines);
+        position = hunk.end;
+    }
+    return [...result, ...baseLines.slice(position, end)];
+};
+
+const sameHunks = (a: Hunk[], b: Hunk[]) =>
+    a.length === b.length && a.every((h, i) => h.start === b[i].start && h.end === b[i].end && h.lines.join('\n') === b[i].lines.join('\n'));
+
+/**
+ * Three-way line merge of two texts that were both edited from `base`. Changes to different
+ * lines are combined; where both sides changed the same lines differently, both versions are
+ * kept between git-style conflict markers.
+ */
+export const mergeTexts = (base: string, mine: string, theirs: string, labels = { mine: 'mine', theirs: 'theirs' }): { text: string; conflicts: number } => {
+    const baseLines = base === '' ? [] : base.split('\n'); // diffLines treats '' as no lines
+    const mineHunks = toHunks(diffLines(base, mine));
+    const theirHunks = toHunks(diffLines(base, theirs));
+    const all = [...mineHunks.map(hunk => ({ hunk, isMine: true })), ...theirHunks.map(hunk => ({ hunk, isMine: false }))]
+        .sort((a, b) => a.hunk.start - b.hunk.start || a.hunk.end - b.hunk.end);
+
+    const result: string[] = [];
+    let position = 0;
+    let conflicts = 0;
+    let index = 0;
+    while (index < all.length) {
+        // Group hunks that touch the same base lines (insertions at the same line count as touching).
+        const group = [all[index++]];
+        let end = group[0].hunk.end;
+        while (index < all.length && (all[index].hunk.start < end || all[index].hunk.start === group[0].hunk.start)) {
+            end = Math.max(end, all[index].hunk.end);
+            group.push(all[index++]);
+        }
+        const start = group[0].hunk.start;
+        const mineGroup = group.filter(g => g.isMine).map(g => g.hunk);
+        const theirGroup = group.filter(g => !g.isMine).map(g => g.hunk);
+
+        result.push(...baseLines.slice(position, start));
+        if (theirGroup.length === 0 || sameHunks(mineGroup, theirGroup)) {
+            result.push(...applyHunks(baseLines, start, end, mineGroup));
+        } else if (mineGroup.length === 0) {
+            result.push(...applyHunks(baseLines, start, end, theirGroup));
+        } else {
+            conflicts++;
+            result.push(`<<<<<<< ${labels.mine}`, ...applyHunks(baseLines, start, end, mineGroup), '=======', ...applyHunks(baseLines, start, end, theirGroup), `>>>>>>> ${labels.theirs}`);
+        }
+        position = end;
+    }
+    result.push(...baseLines.slice(position));
+    return { text: result.join('\n'), conflicts };
+};
@@ -0,0 +1,64 @@
+import type { ProjectFile } from '../types';
+import { mergeTexts } from './diffUtils';
+
+/** A file open in the editor. `baseContent` is the saved content the edits in `content` started from. */
+export interface EditorTab {
+    path: string;
+    content: string;
+    baseContent: string;
+    isDirty: boolean;
+}
+
+/** A file that changed outside the editor (e.g. by the AI) while its tab had unsaved edits. */
+export interface TabConflict {
+    path: string;
+    theirs: string | null; // null if the file was deleted
+}
+
+export type ConflictChoice = 'mine' | 'theirs' | 'merge';
+
+/**
+ * How open tabs follow a new set of project files. Clean tabs always take the new content
+ * (and close if their file is gone); dirty tabs are reported as conflicts (`external`),
+ * reset (`discard`) or left alone (`keep`).
+ */
+export type TabSyncMode = 'external' | 'discard' | 'keep';
+
+const isInside = (path: string, folder: string) => path === folder || path.startsWith(`${folder}/`);
+
+export const createTab = (file: ProjectFile): EditorTab => ({ path: file.path, content: file.content, baseContent: file.content, isDirty: false });
+
+export const syncTabs = (tabs: EditorTab[], files: ProjectFile[], mode: TabSyncMode): { tabs: EditorTab[]; conflicts: TabConflict[] } => {
+    const conflicts: TabConflict[] = [];
+    const synced = tabs.flatMap((tab): EditorTab[] => {
+        const file = files.find(f => f.path === tab.path);
+        if (!tab.isDirty || mode === 'discard') return file ? [createTab(file)] : [];
+        if (mode === 'keep' || file?.content === tab.baseContent) return [tab];
+        // The new content already matches the unsaved edits, so there is nothing to resolve.
+        if (file?.content === tab.content) return [createTab(file)];
+        conflicts.push({ path: tab.path, theirs: file ? file.content : null });
+        return [tab];
+    });
+    return { tabs: synced, conflicts };
+};
+
+/** Follows a rename or move of `from` to `to`, keeping unsaved edits. */
+export const renameTabs = (tabs: EditorTab[], from: string, to: string): EditorTab[] =>
+    tabs.map(tab => isInside(tab.path, from) ? { ...tab, path: to + tab.path.substring(from.length) } : tab);
+
+export const closeTabsInside = (tabs: EditorTab[], path: string): EditorTab[] => tabs.filter(tab => !isInside(tab.path, path));
+
+/**
+ * Resolves a conflict for `tab`. Returns the updated tab (null to close it) and the number
+ * of conflicting regions left as markers when merging.
+ */
+export const resolveConflict = (tab: EditorTab, conflict: TabConflict, choice: ConflictChoice): { tab: EditorTab | null; conflicts: number } => {
+    const { theirs } = conflict;
+    if (choice === 'theirs') return { tab: theirs === null ? null : { ...tab, content: theirs, baseContent: theirs, isDirty: false }, conflicts: 0 };
+    // Keeping my edits on top of the new version: saving will overwrite it (or recreate a deleted file).
+    const baseContent = theirs ?? '';
+    if (choice === 'mine' || theirs === null) return { tab: { ...tab, baseContent, isDirty: true }, conflicts: 0 };
+
+    const merged = mergeTexts(tab.baseContent, tab.content, theirs, { mine: 'perubahan saya', theirs: 'versi AI' });
+    return { tab: { ...tab, content: merged.text, baseContent, isDirty: merged.text !== baseContent }, conflicts: merged.conflicts };
+};
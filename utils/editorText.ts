@@ -0,0 +1,271 @@
+import type { EditorLanguage } from './syntaxHighlighter';
+
+export const INDENT = '  ';
+
+export interface TextRange {
+    start: number;
+    end: number;
+}
+
+/** Offsets at which each line of `text` starts. */
+export const getLineStarts = (text: string): number[] => {
+    const starts = [0];
+    for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) starts.push(i + 1);
+    return starts;
+};
+
+/** Index of the line containing `offset`, by binary search over `lineStarts`. */
+export const lineAt = (lineStarts: number[], offset: number): number => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (lineStarts[mid] <= offset) low = mid;
+        else high = mid - 1;
+    }
+    return low;
+};
+
+const indentWidth = (line: string) => line.length - line.trimStart().length;
+const isBlank = (line: string) => line.trim() === '';
+
+/**
+ * Maps each foldable line to the last line its fold hides. Markdown folds by heading level;
+ * everything else folds by indentation, so closing brackets and tags stay visible.
+ */
+export const getFoldRanges = (lines: string[], language: EditorLanguage): Map<number, number> => {
+    const ranges = new Map<number, number>();
+
+    if (language === 'markdown') {
+        const headings = lines.map(line => line.match(/^(#{1,6})\s/)?.[1].length || 0);
+        headings.forEach((level, i) => {
+            if (!level) return;
+            let end = i;
+            for (let j = i + 1; j < lines.length && !(headings[j] && headings[j] <= level); j++) {
+                if (!isBlank(lines[j])) end = j;
+            }
+            if (end > i) ranges.set(i, end);
+        });
+        return ranges;
+    }
+
+    lines.forEach((line, i) => {
+        if (isBlank(line)) return;
+        const indent = indentWidth(line);
+        let end = i;
+        for (let j = i + 1; j < lines.length; j++) {
+            if (isBlank(lines[j])) continue;
+            if (indentWidth(lines[j]) <= indent) break;
+            end = j;
+        }
+        if (end > i) ranges.set(i, end);
+    });
+    return ranges;
+};
+
+/**
+ * The editor's text with folded regions left out. `lines` holds the full-text line index
+ * of every visible line; offsets convert between the two texts.
+ */
+export interface FoldedView {
+    text: string;
+    lines: number[];
+    /** Full-text offset to view offset, or null if it lies in a folded region. */
+    toView: (offset: number) => number | null;
+    toFull: (offset: number) => number;
+}
+
+export const buildFoldedView = (content: string, folds: Set<number>, ranges: Map<number, number>): FoldedView => {
+    const allLines = content.split('\n');
+    const fullStarts = getLineStarts(content);
+    const visible: number[] = [];
+    for (let i = 0; i < allLines.length; i = folds.has(i) && ranges.has(i) ? ranges.get(i)! + 1 : i + 1) visible.push(i);
+
+    if (visible.length === allLines.length) {
+        return { text: content, lines: visible, toView: offset => offset, toFull: offset => offset };
+    }
+
+    const text = visible.map(i => allLines[i]).join('\n');
+    const viewStarts = getLineStarts(text);
+    const viewLineOf = new Map(visible.map((line, v) => [line, v]));
+    return {
+        text,
+        lines: visible,
+        toView: offset => {
+            const line = lineAt(fullStarts, offset);
+            const v = viewLineOf.get(line);
+            return v === undefined ? null : viewStarts[v] + offset - fullStarts[line];
+        },
+        toFull: offset => {
+            const v = lineAt(viewStarts, offset);
+            return fullStarts[visible[v]] + offset - viewStarts[v];
+        },
+    };
+};
+
+/**
+ * Turns an edit of the folded view into an edit of the full text. Lines hidden under a fold
+ * travel with their header line; if the edit adds or removes lines around a folded header,
+ * that fold is opened instead, so hidden text is never lost. Returns the new full text, the
+ * folds (by full-text line) that are still closed, and a mapping from offsets in
+ * `newViewText` to offsets in the new full text.
+ */
+export const applyFoldedEdit = (content: string, view: FoldedView, newViewText: string): { content: string; folds: Set<number>; toFull: (offset: number) => number } => {
+    const allLines = content.split('\n');
+    const oldView = view.text.split('\n');
+    const newView = newViewText.split('\n');
+    const hiddenAfter = (v: number) => allLines.slice(view.lines[v] + 1, v + 1 < view.lines.length ? view.lines[v + 1] : allLines.length);
+
+    let prefix = 0;
+    const shortest = Math.min(oldView.length, newView.length);
+    while (prefix < shortest && oldView[prefix] === newView[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < shortest - prefix && oldView[oldView.length - 1 - suffix] === newView[newView.length - 1 - suffix]) suffix++;
+
+    const result: string[] = [];
+    const folds = new Set<number>();
+    const viewLines: number[] = []; // full-text line of every line in newViewText
+    const pushLine = (line: string, hidden: string[], keepFold: boolean) => {
+        if (keepFold && hidden.length > 0) folds.add(result.length);
+        viewLines.push(result.length);
+        result.push(line, ...hidden);
+    };
+
+    for (let v = 0; v < prefix; v++) pushLine(oldView[v], hiddenAfter(v), true);
+
+    const oldCount = oldView.length - prefix - suffix;
+    const newCount = newView.length - prefix - suffix;
+    if (oldCount === newCount) {
+        // Lines were changed in place: every line keeps its fold.
+        for (let r = 0; r < newCount; r++) pushLine(newView[prefix + r], hiddenAfter(prefix + r), true);
+    } else {
+        const reopened: string[][] = Array.from({ length: newCount }, () => []);
+        for (let r = 0; r < oldCount; r++) {
+            const hidden = hiddenAfter(prefix + r);
+            if (hidden.length > 0 && newCount > 0) reopened[Math.min(r, newCount - 1)].push(...hidden);
+        }
+        for (let r = 0; r < newCount; r++) pushLine(newView[prefix + r], reopened[r], false);
+    }
+
+    for (let v = oldView.length - suffix; v < oldView.length; v++) pushLine(oldView[v], hiddenAfter(v), true);
+
+    const newContent = result.join('\n');
+    const fullStarts = getLineStarts(newContent);
+    const viewStarts = getLineStarts(newViewText);
+    return {
+        content: newContent,
+        folds,
+        toFull: offset => {
+            const v = lineAt(viewStarts, offset);
+            return fullStarts[viewLines[v]] + offset - viewStarts[v];
+        },
+    };
+};
+
+const OPENING_BRACKETS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSING_BRACKETS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+const MAX_BRACKET_SCAN = 20000;
+
+/** Finds the bracket next to `offset` (before it first) and its partner, if both exist. */
+export const findMatchingBracket = (text: string, offset: number): [number, number] | null => {
+    for (const position of [offset - 1, offset]) {
+        const char = text[position];
+        const forward = OPENING_BRACKETS[char];
+        const backward = CLOSING_BRACKETS[char];
+        if (!forward && !backward) continue;
+
+        const partner = forward || backward;
+        const step = forward ? 1 : -1;
+        let depth = 0;
+        for (let i = position, scanned = 0; i >= 0 && i < text.length && scanned < MAX_BRACKET_SCAN; i += step, scanned++) {
+            if (text[i] === char) depth++;
+            else if (text[i] === partner && --depth === 0) return [position, i];
+        }
+        return null;
+    }
+    return null;
+};
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+/**
+ * What Enter inserts at `start..end`: a newline with the current line's indentation, one
+ * level deeper after an opening bracket or tag, and the closing part pushed onto its own
+ * line when the cursor sits between a pair.
+ */
+export const getEnterInsertion = (text: string, start: number, end: number): { insert: string; caret: number } => {
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    const before = text.substring(lineStart, start);
+    const after = text.substring(end, text.indexOf('\n', end) === -1 ? text.length : text.indexOf('\n', end));
+    const indent = before.match(/^\s*/)![0];
+
+    const openTag = before.match(/<([A-Za-z][\w-]*)(?:\s[^<>]*)?>\s*$/);
+    const opensBlock = /[{[(]\s*$/.test(before) || (!!openTag && !openTag[0].endsWith('/>') && !VOID_ELEMENTS.has(openTag[1].toLowerCase()));
+    if (!opensBlock) return { insert: `\n${indent}`, caret: indent.length + 1 };
+
+    const inner = `\n${indent}${INDENT}`;
+    if (/^\s*(?:[}\])]|<\/)/.test(after)) return { insert: `${inner}\n${indent}`, caret: inner.length };
+    return { insert: inner, caret: inner.length };
+};
+
+export interface SearchOptions {
+    query: string;
+    isRegex: boolean;
+    isCaseSensitive: boolean;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Compiles the search into a global RegExp, or returns the regex syntax error. */
+export const buildSearchPattern = ({ query, isRegex, isCaseSensitive }: SearchOptions): { pattern: RegExp | null; error: string | null } => {
+    if (!query) return { pattern: null, error: null };
+    try {
+        return { pattern: new RegExp(isRegex ? query : escapeRegExp(query), isCaseSensitive ? 'gm' : 'gim'), error: null };
+    } catch (e) {
+        return { pattern: null, error: e instanceof Error ? e.message : String(e) };
+    }
+};
+
+const MAX_MATCHES = 5000;
+
+export const findMatches = (text: string, pattern: RegExp): TextRange[] => {
+    const matches: TextRange[] = [];
+    pattern.lastIndex = 0;
+    for (let match = pattern.exec(text); match && matches.length < MAX_MATCHES; match = pattern.exec(text)) {
+        if (match[0].length === 0) {
+            pattern.lastIndex++; // empty matches (e.g. `^`) are skipped
+            continue;
+        }
+        matches.push({ start: match.index, end: match.index + match[0].length });
+    }
+    return matches;
+};
+
+/**
+ * The text that replaces `range`. For regex searches `$1`, `$<name>`, `$&` and `$$` in
+ * `replacement` are expanded from the match, as in String.prototype.replace.
+ */
+export const getReplacement = (text: string, range: TextRange, pattern: RegExp, replacement: string, isRegex: boolean): string => {
+    if (!isRegex) return replacement;
+    const sticky = new RegExp(pattern.source, pattern.flags.replace('g', '') + 'y');
+    sticky.lastIndex = range.start;
+    const match = sticky.exec(text);
+    if (!match) return replacement;
+    return replacement.replace(/\$(\$|&|\d{1,2}|<[^>]+>)/g, (token, ref: string) => {
+        if (ref === '$') return '$';
+        if (ref === '&') return match[0];
+        if (ref.startsWith('<')) return match.groups?.[ref.slice(1, -1)] ?? '';
+        return match[Number(ref)] ?? token;
+    });
+};
+
+/** Replaces every match of `pattern`, returning the new text and the number of replacements. */
+export const replaceAllMatches = (text: string, pattern: RegExp, replacement: string, isRegex: boolean): { text: string; count: number } => {
+    const matches = findMatches(text, pattern);
+    let result = text;
+    for (let i = matches.length - 1; i >= 0; i--) {
+        const range = matches[i];
+        result = result.substring(0, range.start) + getReplacement(text, range, pattern, replacement, isRegex) + result.substring(range.end);
+    }
+    return { text: result, count: matches.length };
+};
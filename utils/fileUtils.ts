@@ -3,53 +3,109 @@ import type { ProjectFile } from '../types';
 declare const JSZip: any;
 
 /**
- * Creates a single HTML string for previewing in an iframe's srcdoc.
- * It inlines all local CSS and JS files directly into the HTML.
- * @param files The project files.
- * @returns A single HTML string ready for preview.
+ * Origin that relative URLs in the preview resolve against. It never loads; it only lets
+ * page links be recognised and mapped back to project files.
  */
-export const createPreviewHtml = (files: ProjectFile[]): string => {
-    const htmlFile = files.find(f => f.path.toLowerCase() === 'index.html');
-    if (!htmlFile) {
-        return '<html><body><h1>No index.html file found.</h1></body></html>';
+export const PREVIEW_BASE_ORIGIN = 'https://preview.invalid';
+
+/**
+ * Resolves a URL written in `fromPath` (e.g. `../css/site.css` in `blog/post.html`) to a
+ * project file path. Returns null for external URLs.
+ */
+export const resolveProjectPath = (fromPath: string, target: string): string | null => {
+    if (/^(?:[a-z][a-z0-9+.-]*:|\/\/)/i.test(target)) return null;
+    try {
+        const url = new URL(target, `${PREVIEW_BASE_ORIGIN}/${fromPath}`);
+        return decodeURIComponent(url.pathname.substring(1));
+    } catch {
+        return null;
     }
+};
+
+export const isHtmlFile = (path: string) => /\.html?$/i.test(path);
+
+/**
+ * Finds the page a virtual path refers to, like a static file server would:
+ * `about` and `about/` also match `about.html` and `about/index.html`.
+ */
+export const findPageFile = (files: ProjectFile[], path: string): ProjectFile | undefined => {
+    const cleanPath = path.replace(/^\.?\//, '');
+    const candidates = cleanPath === '' || cleanPath.endsWith('/')
+        ? [`${cleanPath}index.html`]
+        : [cleanPath, `${cleanPath}.html`, `${cleanPath}/index.html`];
+    return candidates.map(c => files.find(f => f.path === c && isHtmlFile(f.path))).find(Boolean);
+};
+
+/**
+ * Inserts markup at the start of the document head (or the document, if it has no head).
+ */
+export const injectIntoHead = (html: string, markup: string): string => {
+    const tag = html.match(/<head[^>]*>/i) || html.match(/<html[^>]*>/i);
+    if (!tag || tag.index === undefined) return markup + html;
+    const at = tag.index + tag[0].length;
+    return html.substring(0, at) + markup + html.substring(at);
+};
+
+const MIME_TYPES: Record<string, string> = {
+    html: 'text/html', htm: 'text/html', css: 'text/css', js: 'text/javascript', mjs: 'text/javascript',
+    json: 'application/json', txt: 'text/plain', md: 'text/markdown', xml: 'application/xml',
+    svg: 'image/svg+xml', png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif',
+    webp: 'image/webp', avif: 'image/avif', ico: 'image/x-icon', bmp: 'image/bmp',
+    woff: 'font/woff', woff2: 'font/woff2', ttf: 'font/ttf', otf: 'font/otf',
+    mp3: 'audio/mpeg', wav: 'audio/wav', ogg: 'audio/ogg', mp4: 'video/mp4', webm: 'video/webm',
+};
+
+export const getMimeType = (path: string): string =>
+    MIME_TYPES[path.split('.').pop()?.toLowerCase() || ''] || 'application/octet-stream';
+
+// Uploaded files with these extensions are kept as editable text; everything else is stored as binary.
+const TEXT_EXTENSIONS = new Set(['html', 'htm', 'css', 'js', 'mjs', 'ts', 'json', 'txt', 'md', 'xml', 'svg', 'csv', 'webmanifest', 'map']);
+
+export const isBinaryFile = (file: ProjectFile): boolean => file.encoding === 'base64';
 
-    let content = htmlFile.content;
-    const fileMap = new Map(files.map(f => [f.path.replace(/^\.\//, ''), f]));
-
-    // Inline stylesheets
-    content = content.replace(/<link[^>]+?href="([^"]+)"[^>]*>/g, (match, path) => {
-        // Only replace local, non-http, stylesheet links
-        if (path.startsWith('http') || path.startsWith('//') || !match.includes('rel="stylesheet"')) {
-            return match;
-        }
-        const cleanPath = path.replace(/^\.\//, '');
-        const cssFile = fileMap.get(cleanPath);
-        if (cssFile) {
-            return `<style>\n${cssFile.content}\n</style>`;
-        }
-        console.warn(`Could not find CSS file to inline: ${path}`);
-        return match;
-    });
-
-    // Inline scripts
-    content = content.replace(/<script[^>]+?src="([^"]+)"[^>]*>\s*<\/script>/g, (match, path) => {
-        // Only replace local, non-http scripts
-        if (path.startsWith('http') || path.startsWith('//')) {
-            return match;
-        }
-        const cleanPath = path.replace(/^\.\//, '');
-        const jsFile = fileMap.get(cleanPath);
-        if (jsFile) {
-            // Reconstruct the script tag without src, preserving other attributes
-            const tagWithAttrs = match.substring(0, match.indexOf('>') + 1).replace(/src="[^"]+"/, '');
-            return `${tagWithAttrs}\n${jsFile.content}\n</script>`;
-        }
-        console.warn(`Could not find JS file to inline: ${path}`);
-        return match;
-    });
-    
-    return content;
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked, since spreading a large array into fromCharCode overflows the call stack.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+/**
+ * Returns what to hand to a file writer for this file: the text itself, or a Blob of the decoded bytes.
+ */
+export const getFileData = (file: ProjectFile): string | Blob =>
+  isBinaryFile(file) ? new Blob([base64ToBytes(file.content)], { type: file.mimeType || getMimeType(file.path) }) : file.content;
+
+/**
+ * Approximate size of a file in bytes, as it would be written to disk.
+ */
+export const getFileSize = (file: ProjectFile): number =>
+  isBinaryFile(file) ? Math.floor(file.content.length * 3 / 4) - (file.content.match(/=*$/)?.[0].length || 0) : new TextEncoder().encode(file.content).length;
+
+export const formatFileSize = (bytes: number) => bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/** Largest file that can be uploaded or imported into a project. */
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Reads a file picked or dropped by the user (or unpacked from a ZIP) into a ProjectFile stored at `path`.
+ */
+export const readUploadedFile = async (file: Blob, path: string): Promise<ProjectFile> => {
+  const extension = path.split('.').pop()?.toLowerCase() || '';
+  if (TEXT_EXTENSIONS.has(extension)) {
+    return { path, content: await file.text() };
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return { path, content: bytesToBase64(bytes), encoding: 'base64', mimeType: file.type || getMimeType(path) };
 };
 
 
@@ -59,7 +115,14 @@ export const createProjectZip = async (files: ProjectFile[]): Promise<Blob> => {
     }
   const zip = new JSZip();
   files.forEach(file => {
-    zip.file(file.path, file.content);
+    zip.file(file.path, file.content, { base64: isBinaryFile(file) });
   });
   return zip.generateAsync({ type: 'blob' });
-};
\ No newline at end of file
+};
+/**
+ * Returns the hex-encoded SHA-256 digest of a file's content.
+ */
+export const hashContent = async (content: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,220 @@
+/*
+ * Conservative minifiers for the production build. They only remove comments and
+ * whitespace, so they cannot change what the code does; names are never shortened.
+ */
+
+const isIdentifierChar = (char: string | undefined) => !!char && /[\w$\u0080-\uffff]/.test(char);
+
+// After these, a `/` starts a regular expression rather than a division.
+const REGEX_PREFIX_KEYWORDS = new Set(['return', 'typeof', 'case', 'do', 'else', 'in', 'of', 'new', 'delete', 'void', 'throw', 'instanceof', 'yield', 'await']);
+
+/** Index just past the string literal that starts at `start` (quote included). */
+const skipString = (code: string, start: number): number => {
+    const quote = code[start];
+    let i = start + 1;
+    while (i < code.length && code[i] !== quote && code[i] !== '\n') i += code[i] === '\\' ? 2 : 1;
+    return i + 1;
+};
+
+/** Index just past the template literal that starts at `start`, including `${...}` expressions. */
+const skipTemplate = (code: string, start: number): number => {
+    let i = start + 1;
+    while (i < code.length && code[i] !== '`') {
+        if (code[i] === '\\') {
+            i += 2;
+        } else if (code[i] === '$' && code[i + 1] === '{') {
+            let depth = 1;
+            i += 2;
+            while (i < code.length && depth > 0) {
+                const char = code[i];
+                if (char === '"' || char === "'") i = skipString(code, i);
+                else if (char === '`') i = skipTemplate(code, i);
+                else {
+                    if (char === '{') depth++;
+                    else if (char === '}') depth--;
+                    i++;
+                }
+            }
+        } else {
+            i++;
+        }
+    }
+    return i + 1;
+};
+
+/** Index just past the regular expression literal (with flags) that starts at `start`. */
+const skipRegex = (code: string, start: number): number => {
+    let i = start + 1;
+    let inClass = false;
+    while (i < code.length && code[i] !== '\n') {
+        const char = code[i];
+        if (char === '\\') { i += 2; continue; }
+        if (char === '[') inClass = true;
+        else if (char === ']') inClass = false;
+        else if (char === '/' && !inClass) break;
+        i++;
+    }
+    i++;
+    while (isIdentifierChar(code[i])) i++;
+    return i;
+};
+
+/**
+ * Removes comments and indentation from JavaScript. Line breaks are kept where they may end
+ * a statement, so automatic semicolon insertion works as before. `/*!` comments (licenses)
+ * are kept.
+ */
+export const minifyJs = (code: string): string => {
+    let out = '';
+    let lastWord = '';
+    let i = 0;
+
+    const allowsRegex = () => {
+        const last = out.trimEnd().slice(-1);
+        if (!last) return true;
+        if (isIdentifierChar(last)) return REGEX_PREFIX_KEYWORDS.has(lastWord);
+        return !')]}'.includes(last) && last !== '"' && last !== "'" && last !== '`';
+    };
+
+    while (i < code.length) {
+        const char = code[i];
+        const next = code[i + 1];
+
+        if (char === '"' || char === "'" || char === '`') {
+            const end = char === '`' ? skipTemplate(code, i) : skipString(code, i);
+            out += code.substring(i, end);
+            lastWord = '';
+            i = end;
+        } else if (char === '/' && next === '/') {
+            while (i < code.length && code[i] !== '\n') i++;
+        } else if (char === '/' && next === '*') {
+            const end = code.indexOf('*/', i + 2);
+            const stop = end === -1 ? code.length : end + 2;
+            const comment = code.substring(i, stop);
+            if (comment.startsWith('/*!')) out += comment;
+            else if (comment.includes('\n')) out += '\n';
+            else if (!/\s$/.test(out)) out += ' ';
+            i = stop;
+        } else if (char === '/' && allowsRegex()) {
+            const end = skipRegex(code, i);
+            out += code.substring(i, end);
+            lastWord = '';
+            i = end;
+        } else if (/\s/.test(char)) {
+            let end = i;
+            while (end < code.length && /\s/.test(code[end])) end++;
+            const hasNewline = code.substring(i, end).includes('\n');
+            const prev = out.trimEnd().slice(-1);
+            const following = code[end];
+            const endsLine = hasNewline && prev !== '' && !'{[(,;'.includes(prev) && !'}]),;'.includes(following ?? '');
+            out = out.trimEnd();
+            if (endsLine) out += '\n';
+            else if ((isIdentifierChar(prev) && isIdentifierChar(following)) || (prev === following && (prev === '+' || prev === '-'))) out += ' ';
+            i = end;
+        } else {
+            if (isIdentifierChar(char)) {
+                let end = i;
+                while (isIdentifierChar(code[end])) end++;
+                lastWord = code.substring(i, end);
+                out += lastWord;
+                i = end;
+            } else {
+                lastWord = '';
+                out += char;
+                i++;
+            }
+        }
+    }
+    return out.trim();
+};
+
+/** Removes comments and unneeded whitespace from CSS. `/*!` comments are kept. */
+export const minifyCss = (css: string): string => {
+    let out = '';
+    let i = 0;
+    while (i < css.length) {
+        const char = css[i];
+        if (char === '"' || char === "'") {
+            const end = skipString(css, i);
+            out += css.substring(i, end);
+            i = end;
+        } else if (char === '/' && css[i + 1] === '*') {
+            const end = css.indexOf('*/', i + 2);
+            const stop = end === -1 ? css.length : end + 2;
+            if (css.startsWith('/*!', i)) out += css.substring(i, stop);
+            i = stop;
+        } else if (/\s/.test(char)) {
+            while (i < css.length && /\s/.test(css[i])) i++;
+            const prev = out.slice(-1);
+            // A space before `:` matters in selectors (`a :hover`), so only these are safe to drop.
+            if (prev && !'{};,>~:'.includes(prev) && !'{};,>~!'.includes(css[i] ?? '')) out += ' ';
+        } else {
+            if (char === '}' && out.endsWith(';')) out = out.slice(0, -1);
+            out += char;
+            i++;
+        }
+    }
+    return out.trim();
+};
+
+// Whitespace between these elements is not rendered, so it can be removed entirely.
+const BLOCK_TAGS = new Set([
+    'html', 'head', 'body', 'meta', 'link', 'title', 'base', 'script', 'style', 'noscript', 'template',
+    'div', 'p', 'section', 'article', 'aside', 'header', 'footer', 'nav', 'main', 'figure', 'figcaption',
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'table', 'thead', 'tbody',
+    'tfoot', 'tr', 'th', 'td', 'form', 'fieldset', 'hr', 'br', 'blockquote', 'address', 'details', 'summary',
+]);
+
+const tagNameOf = (tag: string) => tag.match(/^<\/?([a-zA-Z][\w:-]*)/)?.[1].toLowerCase() ?? '';
+
+const minifyScriptBody = (attrs: string, body: string): string => {
+    const type = (attrs.match(/\btype\s*=\s*["']?([^"'\s>]+)/i)?.[1] || '').toLowerCase();
+    if (!type || type === 'module' || /javascript|ecmascript/.test(type)) return minifyJs(body);
+    if (type.endsWith('json') || type === 'importmap') {
+        try {
+            return JSON.stringify(JSON.parse(body)).replace(/<\/script/gi, '<\\/script');
+        } catch {
+            return body;
+        }
+    }
+    return body; // templates and other data blocks are left exactly as written
+};
+
+/**
+ * Removes comments and collapses whitespace in HTML. Inline scripts and styles are minified;
+ * `<pre>` and `<textarea>` content and conditional comments are kept as they are.
+ */
+export const minifyHtml = (html: string): string => {
+    const parts: string[] = [];
+    const pattern = /<(script|style|pre|textarea)\b((?:[^>"']|"[^"]*"|'[^']*')*)>([\s\S]*?)<\/\1\s*>|<!--[\s\S]*?-->|<[/!]?[a-zA-Z](?:[^>"']|"[^"]*"|'[^']*')*>/gi;
+    let last = 0;
+    for (const match of html.matchAll(pattern)) {
+        const index = match.index ?? 0;
+        if (index > last) parts.push(html.substring(last, index));
+        const [whole, rawTag, attrs, body] = match;
+        if (rawTag) {
+            const tagName = rawTag.toLowerCase();
+            const content = tagName === 'script' ? minifyScriptBody(attrs, body) : tagName === 'style' ? minifyCss(body) : body;
+            const closing = whole.substring(whole.lastIndexOf('</'));
+            parts.push(`${collapseTag(whole.substring(0, 1 + rawTag.length + attrs.length + 1))}${content}${closing}`);
+        } else if (whole.startsWith('<!--')) {
+            if (whole.startsWith('<!--[if')) parts.push(whole);
+        } else {
+            parts.push(collapseTag(whole));
+        }
+        last = index + whole.length;
+    }
+    if (last < html.length) parts.push(html.substring(last));
+
+    return parts.map((part, index) => {
+        if (part.startsWith('<')) return part;
+        const text = part.replace(/\s+/g, ' ');
+        if (text !== ' ') return text;
+        const isBlockAround = [parts[index - 1], parts[index + 1]].some(neighbour => neighbour !== undefined && BLOCK_TAGS.has(tagNameOf(neighbour)));
+        return isBlockAround || index === 0 || index === parts.length - 1 ? '' : text;
+    }).join('').trim();
+};
+
+// Collapses whitespace between attributes, leaving quoted values alone.
+const collapseTag = (tag: string): string =>
+    tag.replace(/("[^"]*"|'[^']*')|\s+/g, (match, quoted) => quoted ?? ' ').replace(/\s+(\/?>)$/, '$1');
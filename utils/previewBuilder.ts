@@ -0,0 +1,295 @@
+import type { ProjectFile } from '../types';
+import { PREVIEW_BASE_ORIGIN, resolveProjectPath, injectIntoHead, getMimeType, isBinaryFile } from './fileUtils';
+
+/** A local reference in the project that does not match any project file. */
+export interface UnresolvedReference {
+    /** File that contains the reference. */
+    from: string;
+    reference: string;
+}
+
+/** A script in the preview, by the URL it reports in errors and stack traces. */
+export interface PreviewScriptSource {
+    url: string;
+    /** Project file the script comes from. */
+    path: string;
+    /** Lines before the script in that file; non-zero for scripts written inline in a page. */
+    lineOffset: number;
+}
+
+export interface PreviewBuild {
+    html: string;
+    unresolved: UnresolvedReference[];
+    scripts: PreviewScriptSource[];
+}
+
+// Data URLs rather than blob URLs: they need no cleanup and also load in frames sandboxed
+// without allow-same-origin, where the parent's blob URLs are not readable by module scripts.
+const toDataUrl = (content: string, mimeType: string): string =>
+    `data:${mimeType};charset=utf-8,${encodeURIComponent(content)}`;
+
+const fileDataUrl = (file: ProjectFile): string => isBinaryFile(file)
+    ? `data:${file.mimeType || getMimeType(file.path)};base64,${file.content}`
+    : toDataUrl(file.content, getMimeType(file.path));
+
+const isLocalReference = (reference: string) =>
+    reference !== '' && !reference.startsWith('#') && !/^(?:[a-z][a-z0-9+.-]*:|\/\/)/i.test(reference);
+
+const decodeEntities = (value: string) =>
+    value.replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+// Inlined code must not end the surrounding <script> or <style> element early.
+const escapeClosingTag = (code: string, tagName: 'script' | 'style') =>
+    code.replace(new RegExp(`</${tagName}`, 'gi'), tagName === 'script' ? '<\\/script' : '<\\/style');
+
+const ATTRIBUTE_PATTERN = /([^\s=/>"']+)(?:(\s*=\s*)(?:"([^"]*)"|'([^']*)'|([^\s>"']+)))?/g;
+
+/**
+ * Reads a tag's attributes. Names are lower-cased; values are entity-decoded and
+ * `null` for attributes without a value.
+ */
+const parseAttributes = (attrs: string): Map<string, string | null> => {
+    const result = new Map<string, string | null>();
+    for (const match of attrs.matchAll(ATTRIBUTE_PATTERN)) {
+        const value = match[3] ?? match[4] ?? match[5];
+        result.set(match[1].toLowerCase(), value === undefined ? null : decodeEntities(value));
+    }
+    return result;
+};
+
+/**
+ * Rewrites attribute values in place, leaving the rest of the tag untouched. The callback
+ * returns a new (unescaped) value, `null` to drop the attribute, or `undefined` to keep it.
+ */
+const rewriteAttributes = (attrs: string, rewrite: (name: string, value: string) => string | null | undefined): string =>
+    attrs.replace(ATTRIBUTE_PATTERN, (match, name: string, _eq, doubleQuoted, singleQuoted, unquoted) => {
+        const value = doubleQuoted ?? singleQuoted ?? unquoted;
+        if (value === undefined) return match;
+        const rewritten = rewrite(name.toLowerCase(), decodeEntities(value));
+        if (rewritten === undefined) return match;
+        return rewritten === null ? '' : `${name}="${escapeAttribute(rewritten)}"`;
+    });
+
+const MODULE_SPECIFIER_PATTERN = /(\bimport\s*(?:[\w$*{}\s,]+?\s*from\s*)?|\bexport\s*[\w$*{}\s,]+?\s*from\s*|\bimport\s*\(\s*)(['"])([^'"\n]+)\2/g;
+
+/**
+ * Resolves every local reference in a project against its files and rewrites it to a
+ * data URL, so a page renders without a server:
+ *  - stylesheets and classic scripts are inlined; CSS `@import` is inlined recursively;
+ *  - `url(...)` in CSS and `src`, `srcset`, `poster`, `data` and icon links become data URLs;
+ *  - module scripts get an import map from each module's preview URL to a data URL of its
+ *    source, with relative specifiers rewritten to those preview URLs.
+ * References that match no file are left as they are and recorded in `unresolved`. Every
+ * script gets a `sourceURL` naming its file, recorded in `scripts`, unless `sourceUrls` is off.
+ */
+const createAssetResolver = (files: ProjectFile[], { sourceUrls = true }: { sourceUrls?: boolean } = {}) => {
+    const fileMap = new Map(files.map(f => [f.path, f]));
+    const moduleUrls = new Map<string, string>();
+    const unresolved: UnresolvedReference[] = [];
+    const scripts: PreviewScriptSource[] = [];
+    let inlineScriptCount = 0;
+
+    // Names a script after the file it comes from, so errors in the preview can be traced
+    // back to it. Inline scripts start at `startLine` of their page.
+    const withSourceUrl = (code: string, path: string, startLine?: number): string => {
+        if (!sourceUrls) return code;
+        const url = `${PREVIEW_BASE_ORIGIN}/${encodeURI(path)}${startLine === undefined ? '' : `#inline-${++inlineScriptCount}`}`;
+        scripts.push({ url, path, lineOffset: startLine === undefined ? 0 : startLine - 1 });
+        return `${code}\n//# sourceURL=${url}`;
+    };
+
+    // Finds the file a local reference points at; the query and hash are ignored.
+    const lookup = (fromPath: string, reference: string): ProjectFile | null => {
+        const path = resolveProjectPath(fromPath, reference.replace(/[?#].*$/, '') || '.');
+        const file = path === null ? undefined : fileMap.get(path);
+        if (!file) {
+            if (!unresolved.some(u => u.from === fromPath && u.reference === reference)) {
+                unresolved.push({ from: fromPath, reference });
+            }
+            return null;
+        }
+        return file;
+    };
+
+    // Returns a data URL for a local reference, or undefined to leave it unchanged.
+    const assetUrl = (fromPath: string, reference: string): string | undefined => {
+        if (!isLocalReference(reference)) return undefined;
+        const file = lookup(fromPath, reference);
+        if (!file) return undefined;
+        const hash = reference.includes('#') ? reference.substring(reference.indexOf('#')) : '';
+        return fileDataUrl(file) + hash;
+    };
+
+    const srcsetUrls = (fromPath: string, srcset: string): string =>
+        srcset.split(',').map(candidate => {
+            const [url, ...descriptors] = candidate.trim().split(/\s+/);
+            return [assetUrl(fromPath, url) ?? url, ...descriptors].join(' ');
+        }).join(', ');
+
+    const css = (source: string, cssPath: string, importing: Set<string> = new Set([cssPath])): string => {
+        const withImports = source.replace(
+            /@import\s+(?:url\(\s*(['"]?)([^'")]+)\1\s*\)|(['"])([^'"]+)\3)\s*([^;]*);/g,
+            (match, _q1, urlReference: string | undefined, _q2, stringReference: string | undefined, media: string) => {
+                const reference = (urlReference ?? stringReference ?? '').trim();
+                if (!isLocalReference(reference)) return match;
+                const file = lookup(cssPath, reference);
+                if (!file) return match;
+                if (importing.has(file.path)) return ''; // import cycle
+                const imported = css(file.content, file.path, new Set([...importing, file.path]));
+                return media.trim() ? `@media ${media.trim()} {\n${imported}\n}` : imported;
+            },
+        );
+        return withImports.replace(/url\(\s*(['"]?)([^'")]*?)\1\s*\)/g, (match, _quote, reference: string) => {
+            const url = assetUrl(cssPath, reference.trim());
+            return url === undefined ? match : `url("${url}")`;
+        });
+    };
+
+    const moduleUrl = (file: ProjectFile): string => {
+        const url = `${PREVIEW_BASE_ORIGIN}/${file.path}`;
+        if (!moduleUrls.has(url)) {
+            moduleUrls.set(url, ''); // reserve first, so import cycles terminate
+            const dataUrl = toDataUrl(withSourceUrl(moduleSource(file.content, file.path), file.path), 'text/javascript');
+            moduleUrls.set(url, dataUrl);
+            // Some browsers report the data URL rather than the sourceURL.
+            if (sourceUrls) scripts.push({ url: dataUrl, path: file.path, lineOffset: 0 });
+        }
+        return url;
+    };
+
+    // Rewrites relative import specifiers to preview URLs and registers the imported modules.
+    const moduleSource = (code: string, modulePath: string): string =>
+        code.replace(MODULE_SPECIFIER_PATTERN, (match, prefix: string, quote: string, specifier: string) => {
+            if (!/^(?:\.{1,2}\/|\/)/.test(specifier)) return match; // bare specifiers and URLs are left to the browser
+            const file = lookup(modulePath, specifier);
+            return file ? `${prefix}${quote}${moduleUrl(file)}${quote}` : match;
+        });
+
+    const script = (match: string, attrs: string, body: string, pagePath: string, startLine: number, existingImports: Record<string, string>): string => {
+        const attributes = parseAttributes(attrs);
+        const type = (attributes.get('type') || '').toLowerCase();
+        const src = attributes.get('src');
+
+        if (type === 'importmap') {
+            // Merged into the generated import map, since older browsers only accept one.
+            try {
+                Object.assign(existingImports, JSON.parse(body).imports || {});
+                return '';
+            } catch {
+                return match;
+            }
+        }
+        if (type && type !== 'module' && !/javascript|ecmascript/.test(type)) return match; // templates, JSON data, etc.
+        if (!src) {
+            if (!body.trim()) return match;
+            const code = type === 'module' ? escapeClosingTag(moduleSource(body, pagePath), 'script') : body;
+            return `<script${attrs}>${withSourceUrl(code, pagePath, startLine)}\n</script>`;
+        }
+        if (!isLocalReference(src)) return match;
+
+        const file = lookup(pagePath, src);
+        if (!file) return match;
+        const tagAttrs = rewriteAttributes(attrs, name => name === 'src' ? null : undefined);
+        // A module entry is imported through the import map, so it runs once even if other modules import it too.
+        if (type === 'module') return `<script${tagAttrs}>\nimport ${JSON.stringify(moduleUrl(file))};\n</script>`;
+        return `<script${tagAttrs}>${withSourceUrl(escapeClosingTag(file.content, 'script'), file.path)}\n</script>`;
+    };
+
+    const tag = (match: string, tagName: string, attrs: string, pagePath: string): string => {
+        if (tagName === 'link') {
+            const attributes = parseAttributes(attrs);
+            const href = attributes.get('href');
+            const rel = (attributes.get('rel') || '').toLowerCase().split(/\s+/);
+            if (!href || !isLocalReference(href)) return match;
+            if (rel.includes('stylesheet')) {
+                const file = lookup(pagePath, href);
+                if (!file) return match;
+                const media = attributes.get('media');
+                return `<style${media ? ` media="${escapeAttribute(media)}"` : ''}>\n${escapeClosingTag(css(file.content, file.path), 'style')}\n</style>`;
+            }
+            return `<link${rewriteAttributes(attrs, (name, value) => name === 'href' ? assetUrl(pagePath, value) : undefined)}>`;
+        }
+        // Links, forms and frames point at pages, which the preview navigates between instead.
+        if (tagName === 'a' || tagName === 'form' || tagName === 'iframe' || tagName === 'frame') return match;
+
+        const rewritten = rewriteAttributes(attrs, (name, value) => {
+            switch (name) {
+                case 'src':
+                case 'poster':
+                    return assetUrl(pagePath, value);
+                case 'data':
+                    return tagName === 'object' ? assetUrl(pagePath, value) : undefined;
+                case 'srcset':
+                    return srcsetUrls(pagePath, value);
+                case 'style':
+                    return value.includes('url(') ? css(value, pagePath) : undefined;
+                default:
+                    return undefined;
+            }
+        });
+        return `<${match.substring(1, 1 + tagName.length)}${rewritten}>`;
+    };
+
+    const html = (source: string, pagePath: string): string => {
+        const existingImports: Record<string, string> = {};
+        const body = source.replace(
+            /<script\b((?:[^>"']|"[^"]*"|'[^']*')*)>([\s\S]*?)<\/script\s*>|<style\b((?:[^>"']|"[^"]*"|'[^']*')*)>([\s\S]*?)<\/style\s*>|<!--[\s\S]*?-->|<([a-zA-Z][\w:-]*)\b((?:[^>"']|"[^"]*"|'[^']*')*)>/g,
+            (match, scriptAttrs?: string, scriptBody?: string, styleAttrs?: string, styleBody?: string, tagName?: string, tagAttrs?: string, offset?: number) => {
+                if (scriptAttrs !== undefined) {
+                    const bodyStart = (offset || 0) + '<script'.length + scriptAttrs.length + 1;
+                    const startLine = source.substring(0, bodyStart).split('\n').length;
+                    return script(match, scriptAttrs, scriptBody || '', pagePath, startLine, existingImports);
+                }
+                if (styleAttrs !== undefined) return `<style${styleAttrs}>${css(styleBody || '', pagePath)}</style>`;
+                if (tagName !== undefined) return tag(match, tagName.toLowerCase(), tagAttrs || '', pagePath);
+                return match; // comment
+            },
+        );
+
+        const imports = { ...Object.fromEntries(moduleUrls), ...existingImports };
+        if (Object.keys(imports).length === 0) return body;
+        return injectIntoHead(body, `<script type="importmap">${escapeClosingTag(JSON.stringify({ imports }), 'script')}</script>`);
+    };
+
+    return { html, unresolved, scripts };
+};
+
+/**
+ * Builds a self-contained HTML document for previewing `pagePath` in an iframe's srcdoc,
+ * with every local asset it references inlined or rewritten to a data URL.
+ * @param files The project files.
+ * @param pagePath The page to render; local paths in it are resolved relative to its folder.
+ */
+export const buildPreview = (files: ProjectFile[], pagePath = 'index.html'): PreviewBuild => {
+    const htmlFile = files.find(f => f.path === pagePath);
+    if (!htmlFile) {
+        const html = pagePath === 'index.html'
+            ? '<html><body><h1>No index.html file found.</h1></body></html>'
+            : `<html><body><h1>Page not found: ${pagePath.replace(/</g, '&lt;')}</h1></body></html>`;
+        return { html, unresolved: [], scripts: [] };
+    }
+
+    const resolver = createAssetResolver(files);
+    const html = resolver.html(htmlFile.content, htmlFile.path);
+    return { html, unresolved: resolver.unresolved, scripts: resolver.scripts };
+};
+
+/**
+ * Builds `pagePath` as a standalone HTML file for deployment: the same inlining as the
+ * preview, without the `sourceURL` comments that only the preview console uses.
+ */
+export const buildStandaloneHtml = (files: ProjectFile[], pagePath: string): PreviewBuild => {
+    const htmlFile = files.find(f => f.path === pagePath);
+    if (!htmlFile) return { html: '', unresolved: [], scripts: [] };
+    const resolver = createAssetResolver(files, { sourceUrls: false });
+    return { html: resolver.html(htmlFile.content, htmlFile.path), unresolved: resolver.unresolved, scripts: [] };
+};
+
+/**
+ * Creates a single HTML string for previewing in an iframe's srcdoc.
+ * @returns A single HTML string ready for preview.
+ */
+export const createPreviewHtml = (files: ProjectFile[], pagePath = 'index.html'): string =>
+    buildPreview(files, pagePath).html;
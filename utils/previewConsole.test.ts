@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { toConsoleEntry } from './previewConsole';
+
+const SCRIPTS = [{ url: 'blob:https://preview.invalid/1', path: 'js/app.js', lineOffset: 0 }];
+
+describe('toConsoleEntry', () => {
+    it('maps runtime errors to the project file they come from', () => {
+        expect(toConsoleEntry({ type: 'error', errorKind: 'runtime', message: 'x is not defined', filename: SCRIPTS[0].url, line: 3, column: 5 }, SCRIPTS)).toEqual({
+            kind: 'error', level: 'error', message: 'x is not defined', errorKind: 'runtime', location: { path: 'js/app.js', line: 3, column: 5 },
+        });
+    });
+
+    it('falls back to the stack when the error location is not a project file', () => {
+        const entry = toConsoleEntry({ type: 'console', level: 'warn', message: 'Hati-hati', stack: `Error\n    at ${SCRIPTS[0].url}:7:2` }, SCRIPTS);
+        expect(entry).toEqual({ kind: 'console', level: 'warn', message: 'Hati-hati', location: { path: 'js/app.js', line: 7, column: 2 } });
+    });
+
+    it('shows requests for project files without the preview origin', () => {
+        expect(toConsoleEntry({ type: 'network', method: 'GET', url: 'https://preview.invalid/data.json', status: 0, durationMs: 4 }, SCRIPTS)).toMatchObject({
+            level: 'error', network: { method: 'GET', url: '/data.json', status: 0, durationMs: 4 },
+        });
+    });
+
+    it('ignores fields of the wrong type and messages that are not entries', () => {
+        expect(toConsoleEntry({ type: 'console', level: 'shout', message: 42, stack: {} }, SCRIPTS)).toEqual({ kind: 'console', level: 'log', message: '42', location: undefined });
+        expect(toConsoleEntry({ type: 'error', message: 'Oops', filename: 7, line: '3' }, SCRIPTS)).toMatchObject({ errorKind: 'runtime', location: undefined });
+        expect(toConsoleEntry({ type: 'reset' }, SCRIPTS)).toBeNull();
+        expect(toConsoleEntry('error', SCRIPTS)).toBeNull();
+        expect(toConsoleEntry(null, SCRIPTS)).toBeNull();
+    });
+});
@@ -0,0 +1,240 @@
+import type { PreviewError } from '../types';
+import { PREVIEW_BASE_ORIGIN, injectIntoHead } from './fileUtils';
+import type { PreviewScriptSource } from './previewBuilder';
+
+export const PREVIEW_CONSOLE_SOURCE = 'preview-console';
+
+// Script URLs are cut to this length before they are posted; data URLs can be huge.
+const MAX_URL_LENGTH = 300;
+const MAX_MESSAGE_LENGTH = 5000;
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export interface SourceLocation {
+    path: string;
+    line: number;
+    column?: number;
+}
+
+export interface NetworkRequest {
+    method: string;
+    url: string;
+    /** HTTP status, or 0 if the request failed before a response arrived. */
+    status: number;
+    durationMs: number;
+}
+
+export interface ConsoleEntry {
+    id: number;
+    kind: 'console' | 'error' | 'network';
+    level: ConsoleLevel;
+    message: string;
+    /** Where in the project files the entry comes from, when known. */
+    location?: SourceLocation;
+    /** The PreviewError kind, for entries that are errors. */
+    errorKind?: PreviewError['kind'];
+    network?: NetworkRequest;
+    /** How many times in a row the same entry was reported. */
+    count: number;
+}
+
+/*
+ * Runs inside the preview frame before any page script. Forwards console calls, uncaught
+ * errors, rejected promises, failed resource loads and fetch/XMLHttpRequest activity to
+ * the parent. Script URLs and stacks are sent as reported; the parent maps them to files.
+ */
+const BRIDGE_SCRIPT = `<script>
+(function () {
+    var source = '${PREVIEW_CONSOLE_SOURCE}';
+    var post = function (message) {
+        message.source = source;
+        try { parent.postMessage(message, '*'); } catch (e) {}
+    };
+    var clip = function (text, max) { text = String(text); return text.length > max ? text.substring(0, max) + '…' : text; };
+    var describe = function (value, nested) {
+        if (typeof value === 'string') return nested ? JSON.stringify(value) : value;
+        if (value instanceof Error) return value.name + ': ' + value.message;
+        if (typeof value === 'function') return 'ƒ ' + (value.name || 'anonymous') + '()';
+        if (typeof value === 'symbol' || typeof value === 'bigint') return value.toString();
+        if (value === undefined) return 'undefined';
+        if (typeof Element !== 'undefined' && value instanceof Element) {
+            return '<' + value.tagName.toLowerCase() + (value.id ? '#' + value.id : '') + (typeof value.className === 'string' && value.className ? '.' + value.className.trim().split(/\\s+/).join('.') : '') + '>';
+        }
+        if (value && typeof value === 'object') {
+            var seen = [];
+            try {
+                return JSON.stringify(value, function (key, item) {
+                    if (item && typeof item === 'object') {
+                        if (seen.indexOf(item) !== -1) return '[Circular]';
+                        seen.push(item);
+                    }
+                    if (typeof item === 'function') return 'ƒ';
+                    if (item === undefined) return 'undefined';
+                    return item;
+                });
+            } catch (e) {
+                return Object.prototype.toString.call(value);
+            }
+        }
+        return String(value);
+    };
+    // Applies %s, %d, %i, %f, %o, %O and %c (dropped) like the browser console does.
+    var format = function (args) {
+        var rest = Array.prototype.slice.call(args);
+        var text = '';
+        if (typeof rest[0] === 'string' && rest[0].indexOf('%') !== -1) {
+            text = rest.shift().replace(/%([sdifoOc%])/g, function (token, type) {
+                if (type === '%') return '%';
+                if (rest.length === 0) return token;
+                var value = rest.shift();
+                if (type === 'c') return '';
+                if (type === 'd' || type === 'i') return String(parseInt(value, 10));
+                if (type === 'f') return String(parseFloat(value));
+                return describe(value, type !== 's');
+            });
+        }
+        return [text].concat(rest.map(function (value) { return describe(value, false); })).filter(function (part, i) { return i > 0 || part !== ''; }).join(' ');
+    };
+    var stackOf = function (error) { return error && error.stack ? clip(error.stack, 4000) : ''; };
+
+    ['log', 'info', 'warn', 'error', 'debug'].forEach(function (level) {
+        var original = console[level];
+        console[level] = function () {
+            post({ type: 'console', level: level, message: clip(format(arguments), ${MAX_MESSAGE_LENGTH}), stack: stackOf(new Error()) });
+            return original.apply(console, arguments);
+        };
+    });
+
+    window.addEventListener('error', function (event) {
+        var target = event.target;
+        if (target && target !== window && (target.src || target.href)) {
+            post({ type: 'error', errorKind: 'resource', message: 'Failed to load <' + target.tagName.toLowerCase() + '> ' + clip(target.src || target.href, ${MAX_URL_LENGTH}) });
+            return;
+        }
+        post({
+            type: 'error', errorKind: 'runtime', message: clip(event.message || String(event.error), ${MAX_MESSAGE_LENGTH}),
+            filename: clip(event.filename || '', ${MAX_URL_LENGTH}), line: event.lineno, column: event.colno, stack: stackOf(event.error)
+        });
+    }, true);
+    window.addEventListener('unhandledrejection', function (event) {
+        var reason = event.reason;
+        post({ type: 'error', errorKind: 'promise', message: 'Unhandled promise rejection: ' + clip(reason && reason.message ? reason.message : describe(reason, true), ${MAX_MESSAGE_LENGTH}), stack: stackOf(reason) });
+    });
+
+    var absolute = function (url) { try { return new URL(url, document.baseURI).href; } catch (e) { return String(url); } };
+    var postRequest = function (method, url, status, startedAt) {
+        post({ type: 'network', method: String(method || 'GET').toUpperCase(), url: clip(absolute(url), ${MAX_URL_LENGTH}), status: status, durationMs: Date.now() - startedAt });
+    };
+    if (window.fetch) {
+        var originalFetch = window.fetch;
+        window.fetch = function (input, init) {
+            var startedAt = Date.now();
+            var method = (init && init.method) || (input && input.method) || 'GET';
+            var url = input && input.url ? input.url : String(input);
+            return originalFetch.apply(this, arguments).then(function (response) {
+                postRequest(method, url, response.status, startedAt);
+                return response;
+            }, function (error) {
+                postRequest(method, url, 0, startedAt);
+                throw error;
+            });
+        };
+    }
+    var originalOpen = XMLHttpRequest.prototype.open;
+    var originalSend = XMLHttpRequest.prototype.send;
+    XMLHttpRequest.prototype.open = function (method, url) {
+        this.__previewRequest = { method: method, url: url };
+        return originalOpen.apply(this, arguments);
+    };
+    XMLHttpRequest.prototype.send = function () {
+        var xhr = this;
+        var request = xhr.__previewRequest;
+        if (request) {
+            var startedAt = Date.now();
+            xhr.addEventListener('loadend', function () { postRequest(request.method, request.url, xhr.status, startedAt); });
+        }
+        return originalSend.apply(this, arguments);
+    };
+
+    post({ type: 'reset' });
+})();
+</script>`;
+
+/** Adds the console bridge to preview HTML, ahead of the page's own scripts. */
+export const withConsoleBridge = (html: string): string => injectIntoHead(html, BRIDGE_SCRIPT);
+
+const clipUrl = (url: string) => url.length > MAX_URL_LENGTH ? url.substring(0, MAX_URL_LENGTH) : url;
+
+/** Maps a script URL and line reported by the preview to the project file it belongs to. */
+export const mapScriptLocation = (scripts: PreviewScriptSource[], url: string | undefined, line: number | undefined, column?: number): SourceLocation | undefined => {
+    if (!url || !line) return undefined;
+    const clipped = clipUrl(url.replace(/…$/, ''));
+    const script = scripts.find(s => s.url === url || clipUrl(s.url) === clipped);
+    return script ? { path: script.path, line: script.lineOffset + line, column: column || undefined } : undefined;
+};
+
+/** The first frame of `stack` that lies in a project file. */
+export const findStackLocation = (scripts: PreviewScriptSource[], stack: string | undefined): SourceLocation | undefined => {
+    if (!stack) return undefined;
+    for (const frame of stack.matchAll(/((?:https?|data|blob):[^\s()]*?):(\d+):(\d+)/g)) {
+        const location = mapScriptLocation(scripts, frame[1], Number(frame[2]), Number(frame[3]));
+        if (location) return location;
+    }
+    return undefined;
+};
+
+const CONSOLE_LEVELS: ConsoleLevel[] = ['log', 'info', 'warn', 'error', 'debug'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+const optionalString = (value: unknown) => typeof value === 'string' ? value : undefined;
+const optionalNumber = (value: unknown) => typeof value === 'number' ? value : undefined;
+
+/**
+ * Turns a message posted by the console bridge into a console entry (without id and count).
+ * Anything the page posts can arrive here, so fields of the wrong type are ignored.
+ */
+export const toConsoleEntry = (data: unknown, scripts: PreviewScriptSource[]): Omit<ConsoleEntry, 'id' | 'count'> | null => {
+    if (!isRecord(data)) return null;
+    switch (data.type) {
+        case 'console': {
+            const level = CONSOLE_LEVELS.find(l => l === data.level) || 'log';
+            return { kind: 'console', level, message: String(data.message ?? ''), location: findStackLocation(scripts, optionalString(data.stack)), ...(level === 'error' && { errorKind: 'console' as const }) };
+        }
+        case 'error':
+            return {
+                kind: 'error',
+                level: 'error',
+                message: String(data.message ?? ''),
+                errorKind: data.errorKind === 'promise' || data.errorKind === 'resource' ? data.errorKind : 'runtime',
+                location: mapScriptLocation(scripts, optionalString(data.filename), optionalNumber(data.line), optionalNumber(data.column))
+                    || findStackLocation(scripts, optionalString(data.stack)),
+            };
+        case 'network': {
+            const status = Number(data.status) || 0;
+            const method = String(data.method ?? 'GET');
+            const url = String(data.url ?? '');
+            // Project files are inlined into the page, not served, so requests for them cannot succeed.
+            const isProjectUrl = url.startsWith(`${PREVIEW_BASE_ORIGIN}/`);
+            const shownUrl = isProjectUrl ? url.substring(PREVIEW_BASE_ORIGIN.length) : url;
+            const outcome = status === 0 ? (isProjectUrl ? 'gagal (file proyek tidak bisa diambil lewat jaringan di pratinjau)' : 'gagal') : String(status);
+            return {
+                kind: 'network',
+                level: status === 0 || status >= 400 ? 'error' : 'info',
+                message: `${method} ${shownUrl} → ${outcome}`,
+                network: { method, url: shownUrl, status, durationMs: Number(data.durationMs) || 0 },
+            };
+        }
+        default:
+            return null;
+    }
+};
+
+/** The console entries to hand to the AI as preview errors. */
+export const toPreviewErrors = (entries: Omit<ConsoleEntry, 'id' | 'count'>[]): PreviewError[] =>
+    entries
+        .filter(e => e.level === 'error')
+        .map(e => ({
+            kind: e.errorKind || (e.kind === 'network' ? 'resource' : 'console'),
+            message: e.message,
+            ...(e.location && { path: e.location.path, line: e.location.line, column: e.location.column }),
+        }));
@@ -0,0 +1,76 @@
+import { injectIntoHead } from './fileUtils';
+
+export const PREVIEW_HOT_RELOAD_SOURCE = 'preview-hot-reload';
+
+export interface PreviewScrollPosition {
+    x: number;
+    y: number;
+}
+
+/** A preview document prepared for hot reload, split into its style sheets and everything else. */
+export interface HotReloadPage {
+    html: string;
+    /** The document with the contents of its <style> elements left out. */
+    skeleton: string;
+    styles: string[];
+}
+
+// Scripts and comments are matched only so that <style> inside them is left alone.
+const BLOCK_PATTERN = /<script\b(?:[^>"']|"[^"]*"|'[^']*')*>[\s\S]*?<\/script\s*>|<!--[\s\S]*?-->|<style\b((?:[^>"']|"[^"]*"|'[^']*')*)>([\s\S]*?)<\/style\s*>/gi;
+
+/*
+ * Runs inside the preview frame. Reports the page's scroll position to the parent, and
+ * applies what the parent sends back: new contents for numbered <style> elements (so CSS
+ * changes show without a reload) or a scroll position to restore after a reload.
+ */
+const HOT_RELOAD_SCRIPT = `<script>
+(function () {
+    var source = '${PREVIEW_HOT_RELOAD_SOURCE}';
+    var reportPending = false;
+    window.addEventListener('scroll', function () {
+        if (reportPending) return;
+        reportPending = true;
+        requestAnimationFrame(function () {
+            reportPending = false;
+            parent.postMessage({ source: source, type: 'scroll', x: window.scrollX, y: window.scrollY }, '*');
+        });
+    }, { passive: true });
+    window.addEventListener('message', function (event) {
+        var data = event.data;
+        if (event.source !== parent || !data || data.source !== source) return;
+        if (data.type === 'styles') {
+            Object.keys(data.styles).forEach(function (index) {
+                var style = document.querySelector('style[data-hot-style="' + index + '"]');
+                if (style) style.textContent = data.styles[index];
+            });
+        } else if (data.type === 'scroll') {
+            window.scrollTo(data.x, data.y);
+        }
+    });
+})();
+</script>`;
+
+/** Numbers the page's <style> elements and adds the hot reload script. */
+export const prepareHotReload = (html: string): HotReloadPage => {
+    const styles: string[] = [];
+    const marked = html.replace(BLOCK_PATTERN, (match, attrs?: string, css?: string) => {
+        if (attrs === undefined) return match;
+        const index = styles.push(css || '') - 1;
+        return `<style data-hot-style="${index}"${attrs}>${css || ''}</style>`;
+    });
+    const skeleton = html.replace(BLOCK_PATTERN, (match, attrs?: string) => attrs === undefined ? match : `<style${attrs}></style>`);
+    return { html: injectIntoHead(marked, HOT_RELOAD_SCRIPT), skeleton, styles };
+};
+
+/**
+ * The <style> contents to send to a frame showing `from` so that it matches `to`, by
+ * style index, or null if anything other than CSS changed and the page must reload.
+ */
+export const getStyleUpdates = (from: HotReloadPage, to: HotReloadPage): Record<number, string> | null => {
+    if (from.skeleton !== to.skeleton) return null;
+    const updates: Record<number, string> = {};
+    to.styles.forEach((css, index) => {
+        if (css !== from.styles[index]) updates[index] = css;
+    });
+    return updates;
+};
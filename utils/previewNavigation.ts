@@ -0,0 +1,80 @@
+import { PREVIEW_BASE_ORIGIN, injectIntoHead } from './fileUtils';
+
+export const PREVIEW_NAVIGATION_SOURCE = 'preview-navigation';
+
+/** A page request from inside the preview frame, as a project path plus query and hash. */
+export interface PreviewNavigationRequest {
+    path: string;
+    search: string;
+    hash: string;
+}
+
+const toScriptLiteral = (value: string) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+/*
+ * Runs inside the preview frame. Relative URLs resolve against PREVIEW_BASE_ORIGIN (via
+ * <base>), so any navigation to that origin is a project page: it is cancelled and posted
+ * to the parent, which renders the matching file. Browsers with the Navigation API also
+ * route `location` changes this way; elsewhere only link clicks and GET forms are routed.
+ */
+const buildNavigationScript = (pagePath: string, hash: string): string => `<script>
+(function () {
+    var origin = ${toScriptLiteral(PREVIEW_BASE_ORIGIN)};
+    var currentPath = ${toScriptLiteral(pagePath)};
+    var scrollToHash = function (hash) {
+        var target = hash && document.getElementById(decodeURIComponent(hash.substring(1)));
+        if (target) target.scrollIntoView();
+    };
+    var route = function (href) {
+        var url;
+        try { url = new URL(href, document.baseURI); } catch (e) { return false; }
+        if (url.origin !== origin) return false;
+        var path = decodeURIComponent(url.pathname.substring(1));
+        if (path === currentPath && url.hash && !url.search) {
+            scrollToHash(url.hash);
+        } else {
+            parent.postMessage({ source: ${toScriptLiteral(PREVIEW_NAVIGATION_SOURCE)}, path: path, search: url.search, hash: url.hash }, '*');
+        }
+        return true;
+    };
+
+    if (window.navigation) {
+        window.navigation.addEventListener('navigate', function (event) {
+            if (!event.cancelable || event.navigationType === 'traverse') return;
+            if (event.formData) {
+                event.preventDefault();
+                console.warn('Form POST is not supported in the preview.');
+                return;
+            }
+            if (route(event.destination.url)) event.preventDefault();
+        });
+    } else {
+        window.addEventListener('click', function (event) {
+            if (event.defaultPrevented || event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey) return;
+            var link = event.target.closest && event.target.closest('a[href]');
+            if (!link || (link.target && link.target !== '_self')) return;
+            if (route(link.href)) event.preventDefault();
+        });
+        window.addEventListener('submit', function (event) {
+            var form = event.target;
+            if (event.defaultPrevented || (form.method || 'get').toLowerCase() !== 'get') return;
+            var url = new URL(form.getAttribute('action') || '/' + currentPath, document.baseURI);
+            url.search = new URLSearchParams(new FormData(form)).toString();
+            if (route(url.href)) event.preventDefault();
+        });
+    }
+
+    var initialHash = ${toScriptLiteral(hash)};
+    if (initialHash) window.addEventListener('load', function () { scrollToHash(initialHash); });
+})();
+</script>`;
+
+/**
+ * Prepares preview HTML for `pagePath` so that links, GET forms and `location` changes to
+ * other project pages are reported to the parent window instead of leaving the frame.
+ */
+export const withPreviewNavigation = (html: string, pagePath: string, hash = ''): string => {
+    const directory = pagePath.includes('/') ? pagePath.substring(0, pagePath.lastIndexOf('/') + 1) : '';
+    const base = `<base href="${PREVIEW_BASE_ORIGIN}/${encodeURI(directory)}">`;
+    return injectIntoHead(html, base + buildNavigationScript(pagePath, hash));
+};
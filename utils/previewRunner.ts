@@ -0,0 +1,86 @@
+import type { ProjectFile, PreviewError } from '../types';
+import { injectIntoHead } from './fileUtils';
+import { buildPreview } from './previewBuilder';
+import { PREVIEW_CONSOLE_SOURCE, withConsoleBridge, toConsoleEntry, toPreviewErrors } from './previewConsole';
+
+const SETTLE_SOURCE = 'preview-settled';
+// How long to keep listening after the page's load event, for timers and async work.
+const SETTLE_MS = 1500;
+const TIMEOUT_MS = 8000;
+const MAX_ERRORS = 10;
+
+export interface PreviewRunOptions {
+    settleMs?: number;
+    timeoutMs?: number;
+}
+
+/**
+ * Script that posts a `done` message once the page has loaded and settled. Errors are
+ * reported by the console bridge, which the page gets as well.
+ */
+const buildSettleScript = (token: string, settleMs: number): string => `<script>
+window.addEventListener('load', function () {
+    setTimeout(function () {
+        try { parent.postMessage({ source: '${SETTLE_SOURCE}', token: '${token}' }, '*'); } catch (e) {}
+    }, ${settleMs});
+});
+</script>`;
+
+/**
+ * Renders the project in a hidden, sandboxed iframe and collects the errors it reports
+ * while loading, together with local references that match no project file. Resolves
+ * once the page has settled or the timeout is reached; duplicate errors are reported once.
+ */
+export const collectPreviewErrors = (files: ProjectFile[], options: PreviewRunOptions = {}): Promise<PreviewError[]> => {
+    const { settleMs = SETTLE_MS, timeoutMs = TIMEOUT_MS } = options;
+    const token = Math.random().toString(36).slice(2);
+
+    const preview = buildPreview(files);
+
+    return new Promise(resolve => {
+        // References to missing files are known before the page even runs.
+        const errors: PreviewError[] = preview.unresolved.slice(0, MAX_ERRORS).map(u => ({
+            kind: 'resource',
+            message: `${u.from} references "${u.reference}", which is not a project file`,
+        }));
+        const seen = new Set<string>(errors.map(e => `${e.kind}:${e.message}`));
+        const iframe = document.createElement('iframe');
+
+        const finish = () => {
+            window.clearTimeout(timeoutId);
+            window.removeEventListener('message', handleMessage);
+            iframe.remove();
+            resolve(errors);
+        };
+
+        const handleMessage = (event: MessageEvent) => {
+            if (event.source !== iframe.contentWindow) return;
+            const data = event.data;
+            if (data?.source === SETTLE_SOURCE && data.token === token) {
+                finish();
+                return;
+            }
+            if (data?.source !== PREVIEW_CONSOLE_SOURCE) return;
+            // Runtime errors point at the project file they come from, when it is known.
+            const entry = toConsoleEntry(data, preview.scripts);
+            for (const error of entry ? toPreviewErrors([entry]) : []) {
+                const key = `${error.kind}:${error.message}`;
+                if (!seen.has(key) && errors.length < MAX_ERRORS) {
+                    seen.add(key);
+                    errors.push(error);
+                }
+            }
+        };
+
+        const timeoutId = window.setTimeout(finish, timeoutMs);
+        window.addEventListener('message', handleMessage);
+
+        // Scripts only: no same-origin access, popups, forms or modal dialogs.
+        iframe.setAttribute('sandbox', 'allow-scripts');
+        iframe.setAttribute('aria-hidden', 'true');
+        iframe.tabIndex = -1;
+        iframe.style.cssText = 'position:fixed;left:-10000px;top:0;width:1280px;height:800px;border:0;visibility:hidden;';
+        iframe.srcdoc = injectIntoHead(withConsoleBridge(preview.html), buildSettleScript(token, settleMs));
+        document.body.appendChild(iframe);
+    });
+};
@@ -0,0 +1,203 @@
+import type { ProjectFile } from '../types';
+import { getFileSize, hashContent, isBinaryFile, isHtmlFile } from './fileUtils';
+import { minifyCss, minifyHtml, minifyJs } from './minify';
+import { buildStandaloneHtml } from './previewBuilder';
+import { findReferencedPaths, updateRenamedReferences } from './projectPaths';
+
+export interface BuildOptions {
+    minify: boolean;
+    /** Adds a content hash to asset names (`css/site.3fa9c2d1.css`) and rewrites references to them. */
+    hashAssets: boolean;
+    /** Builds every page as one self-contained HTML file; other files are left out. */
+    singleFile: boolean;
+    /** Adds sitemap.xml and robots.txt, unless the project has its own. */
+    seoFiles: boolean;
+}
+
+export const DEFAULT_BUILD_OPTIONS: BuildOptions = {
+    minify: true,
+    hashAssets: true,
+    singleFile: false,
+    seoFiles: true,
+};
+
+/** How the user wants the project built, remembered between sessions. */
+export interface BuildSettings {
+    options: BuildOptions;
+    /** Publish the built output instead of the source files. */
+    useForPublish: boolean;
+}
+
+export const DEFAULT_BUILD_SETTINGS: BuildSettings = { options: DEFAULT_BUILD_OPTIONS, useForPublish: false };
+
+/** Reads stored settings, falling back to the defaults for anything missing or invalid. */
+export const parseBuildSettings = (stored: string | null): BuildSettings => {
+    if (!stored) return DEFAULT_BUILD_SETTINGS;
+    try {
+        const parsed = JSON.parse(stored);
+        const options = { ...DEFAULT_BUILD_OPTIONS, ...parsed?.options };
+        const flag = (value: unknown, fallback: boolean) => typeof value === 'boolean' ? value : fallback;
+        return {
+            options: {
+                minify: flag(options.minify, DEFAULT_BUILD_OPTIONS.minify),
+                hashAssets: flag(options.hashAssets, DEFAULT_BUILD_OPTIONS.hashAssets),
+                singleFile: flag(options.singleFile, DEFAULT_BUILD_OPTIONS.singleFile),
+                seoFiles: flag(options.seoFiles, DEFAULT_BUILD_OPTIONS.seoFiles),
+            },
+            useForPublish: parsed?.useForPublish === true,
+        };
+    } catch {
+        return DEFAULT_BUILD_SETTINGS;
+    }
+};
+
+export interface BuildReportEntry {
+    path: string;
+    /** The project file the output was built from, or null for generated files. */
+    sourcePath: string | null;
+    sourceSize: number;
+    size: number;
+}
+
+export interface BuildResult {
+    files: ProjectFile[];
+    report: BuildReportEntry[];
+    /** Problems worth telling the user about; the build still succeeded. */
+    warnings: string[];
+}
+
+// Assets that get a hashed name when something references them. Pages, data files and the
+// files browsers or hosts look up by a fixed name keep theirs.
+const HASHABLE_EXTENSIONS = new Set([
+    'css', 'js', 'mjs', 'png', 'jpg', 'jpeg', 'gif', 'webp', 'avif', 'svg', 'bmp',
+    'woff', 'woff2', 'ttf', 'otf', 'mp3', 'wav', 'ogg', 'mp4', 'webm',
+]);
+const FIXED_NAMES = new Set(['favicon.ico', 'sw.js', 'service-worker.js', 'robots.txt', 'sitemap.xml']);
+
+const extensionOf = (path: string) => path.includes('.') ? path.split('.').pop()!.toLowerCase() : '';
+
+const isHashable = (path: string) =>
+    HASHABLE_EXTENSIONS.has(extensionOf(path)) && !FIXED_NAMES.has(path.split('/').pop()!.toLowerCase());
+
+const withHash = (path: string, hash: string): string => {
+    const dot = path.lastIndexOf('.');
+    return dot > path.lastIndexOf('/') ? `${path.substring(0, dot)}.${hash}${path.substring(dot)}` : `${path}.${hash}`;
+};
+
+const minifyFile = (file: ProjectFile): ProjectFile => {
+    if (isBinaryFile(file)) return file;
+    const extension = extensionOf(file.path);
+    if (extension === 'html' || extension === 'htm') return { ...file, content: minifyHtml(file.content) };
+    if (extension === 'css') return { ...file, content: minifyCss(file.content) };
+    if (extension === 'js' || extension === 'mjs') return { ...file, content: minifyJs(file.content) };
+    if (extension === 'json') {
+        try {
+            return { ...file, content: JSON.stringify(JSON.parse(file.content)) };
+        } catch {
+            return file;
+        }
+    }
+    return file;
+};
+
+/**
+ * Renames referenced assets to include a hash of their content. Files are hashed after the
+ * assets they reference, so a changed image also changes the name of the CSS that uses it.
+ * Returns the renamed files and a map from old to new paths.
+ */
+const hashAssetNames = async (files: ProjectFile[]): Promise<{ files: ProjectFile[]; renamed: Map<string, string> }> => {
+    const existingPaths = new Set(files.map(f => f.path));
+    const references = new Map(files.map(f => [f.path, findReferencedPaths(f, existingPaths)]));
+    const referenced = new Set(Array.from(references.values()).flat());
+    const pending = new Set(files.filter(f => referenced.has(f.path) && isHashable(f.path)).map(f => f.path));
+    const current = new Map(files.map(f => [f.path, f]));
+    const renamed = new Map<string, string>();
+
+    while (pending.size > 0) {
+        let ready = Array.from(pending).filter(path => references.get(path)!.every(target => target === path || !pending.has(target)));
+        if (ready.length === 0) ready = Array.from(pending); // a reference cycle; hash what is left as it is
+        for (const path of ready) {
+            const file = updateRenamedReferences(current.get(path)!, renamed, existingPaths);
+            const hash = (await hashContent(file.content)).substring(0, 8);
+            current.set(path, file);
+            renamed.set(path, withHash(path, hash));
+            pending.delete(path);
+        }
+    }
+
+    const result = Array.from(current.values()).map(file => {
+        const updated = renamed.has(file.path) ? file : updateRenamedReferences(file, renamed, existingPaths);
+        return { ...updated, path: renamed.get(file.path) ?? file.path };
+    });
+    return { files: result, renamed };
+};
+
+/** The URL path a page is served at: `blog/index.html` is served at `blog/`. */
+const pageUrlPath = (path: string) => encodeURI(path.replace(/(^|\/)index\.html?$/i, '$1'));
+
+const isIndexable = (page: ProjectFile) =>
+    !/(^|\/)404\.html?$/i.test(page.path) && !/<meta\b[^>]*name\s*=\s*["']?robots["']?[^>]*noindex/i.test(page.content);
+
+const createSitemap = (pages: ProjectFile[], siteUrl: string, lastModified: number): string => {
+    const date = new Date(lastModified).toISOString().substring(0, 10);
+    const urls = pages.map(page => `  <url>\n    <loc>${siteUrl}/${pageUrlPath(page.path)}</loc>\n    <lastmod>${date}</lastmod>\n  </url>`);
+    return `<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n${urls.join('\n')}\n</urlset>\n`;
+};
+
+/**
+ * Builds the deployable version of a project: minified files, hashed asset names or
+ * single-file pages, plus sitemap.xml and robots.txt. References written inside scripts as
+ * plain strings (e.g. `img.src = 'img/a.png'`) are not found, so those files keep their names.
+ * @param siteUrl Where the site is published, e.g. `https://my-site.puter.site`; the sitemap needs it.
+ * @param lastModified Used as the sitemap's `lastmod`.
+ */
+export const buildProject = async (files: ProjectFile[], options: BuildOptions, siteUrl?: string, lastModified = Date.now()): Promise<BuildResult> => {
+    const warnings: string[] = [];
+    const sources = new Map(files.map(f => [f.path, f]));
+    // Output path -> the project file it was built from.
+    let sourceOf = new Map(files.map(f => [f.path, f.path]));
+    let output = options.minify ? files.map(minifyFile) : files;
+
+    if (options.singleFile) {
+        const built = output;
+        const pages = built.filter(f => isHtmlFile(f.path));
+        const unresolved = new Set<string>();
+        output = pages.map(page => {
+            const build = buildStandaloneHtml(built, page.path);
+            build.unresolved.forEach(u => unresolved.add(`${u.from}: ${u.reference}`));
+            return { ...page, content: build.html };
+        });
+        const leftOut = files.length - pages.length - files.filter(f => /\.(css|m?js)$/i.test(f.path)).length;
+        if (unresolved.size > 0) warnings.push(`Referensi yang tidak ditemukan: ${Array.from(unresolved).join(', ')}`);
+        if (leftOut > 0) warnings.push(`${leftOut} file selain halaman, CSS dan JS tidak ikut dalam build satu file. Aset yang dipakai halaman sudah disisipkan; file yang diambil lewat skrip atau diunduh lewat tautan tidak.`);
+    } else if (options.hashAssets) {
+        const { files: hashed, renamed } = await hashAssetNames(output);
+        output = hashed;
+        sourceOf = new Map(files.map(f => [renamed.get(f.path) ?? f.path, f.path]));
+    }
+
+    if (options.seoFiles) {
+        const hasSitemap = sources.has('sitemap.xml');
+        const pages = output.filter(f => isHtmlFile(f.path) && isIndexable(f)).sort((a, b) => a.path.localeCompare(b.path));
+        const cleanSiteUrl = siteUrl?.replace(/\/+$/, '');
+        let sitemapAdded = false;
+        if (!hasSitemap && cleanSiteUrl && pages.length > 0) {
+            output = [...output, { path: 'sitemap.xml', content: createSitemap(pages, cleanSiteUrl, lastModified) }];
+            sitemapAdded = true;
+        } else if (!hasSitemap && !cleanSiteUrl) {
+            warnings.push('sitemap.xml tidak dibuat karena alamat situs belum diketahui. Publikasikan proyek terlebih dulu.');
+        }
+        if (!sources.has('robots.txt')) {
+            const sitemapLine = sitemapAdded || (hasSitemap && cleanSiteUrl) ? `\nSitemap: ${cleanSiteUrl}/sitemap.xml\n` : '';
+            output = [...output, { path: 'robots.txt', content: `User-agent: *\nAllow: /\n${sitemapLine}` }];
+        }
+    }
+
+    const report = output.map(file => {
+        const sourcePath = sourceOf.get(file.path) ?? null;
+        const source = sourcePath ? sources.get(sourcePath) : undefined;
+        return { path: file.path, sourcePath: source ? sourcePath : null, sourceSize: source ? getFileSize(source) : 0, size: getFileSize(file) };
+    }).sort((a, b) => a.path.localeCompare(b.path));
+
+    return { files: output, report, warnings };
+};
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { importProjectFiles, readZipEntries } from './projectImport';
+
+/** A JSZip stand-in whose archive holds `files` (path -> content); `unpacked` records the entries read. */
+const stubJsZip = (files: Record<string, string>, sizes: Record<string, number> = {}) => {
+    const unpacked: string[] = [];
+    vi.stubGlobal('JSZip', {
+        loadAsync: async () => ({
+            forEach: (callback: (path: string, entry: unknown) => void) => {
+                for (const [path, content] of Object.entries(files)) {
+                    callback(path, {
+                        dir: path.endsWith('/'),
+                        _data: { uncompressedSize: sizes[path] ?? content.length },
+                        async: async () => {
+                            unpacked.push(path);
+                            return new Blob([content]);
+                        },
+                    });
+                }
+            },
+        }),
+    });
+    return unpacked;
+};
+
+describe('readZipEntries', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('only unpacks files the import keeps', async () => {
+        const unpacked = stubJsZip({
+            'site/': '',
+            'site/index.html': '<h1>Hi</h1>',
+            'site/node_modules/lib/index.js': 'module.exports = 1;',
+            'site/.DS_Store': 'junk',
+            '../evil.js': 'alert(1)',
+            'site/video.mp4': 'big',
+        }, { 'site/video.mp4': 6 * 1024 * 1024 });
+
+        const entries = await readZipEntries(new Blob());
+        expect(unpacked).toEqual(['site/index.html']);
+
+        const { files, summary } = await importProjectFiles(entries, 'archive');
+        expect(files).toEqual([{ path: 'index.html', content: '<h1>Hi</h1>' }]);
+        expect(summary.skipped).toEqual(['../evil.js (unsafe path)', 'site/.DS_Store', 'site/node_modules/', 'site/video.mp4 (larger than 5 MB)']);
+    });
+
+    it('unpacks files whose size the archive does not give', async () => {
+        vi.stubGlobal('JSZip', {
+            loadAsync: async () => ({
+                forEach: (callback: (path: string, entry: unknown) => void) => callback('app.js', { dir: false, async: async () => new Blob(['go();']) }),
+            }),
+        });
+
+        expect(await readZipEntries(new Blob())).toEqual([{ path: 'app.js', data: expect.any(Blob) }]);
+    });
+});
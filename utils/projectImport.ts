@@ -0,0 +1,210 @@
+import type { ProjectFile, StyleLibrary } from '../types';
+import { isBinaryFile, isHtmlFile, readUploadedFile, MAX_UPLOAD_BYTES } from './fileUtils';
+
+declare const JSZip: any;
+
+/** A file found in a ZIP, a dropped folder or a picked folder, before it is read. */
+export interface ImportEntry {
+    path: string;
+    data: Blob;
+    /** Size in bytes, for ZIP entries left packed because the import skips them; `data` is then empty. */
+    size?: number;
+}
+
+export interface ImportSummary {
+    /** Folder that wrapped every file and was removed from the paths, e.g. `my-site`. */
+    strippedRoot: string | null;
+    fileCount: number;
+    binaryCount: number;
+    /**
+     * Paths that were left out, with junk folders listed once (e.g. `node_modules/`). Unsafe
+     * paths and files over the upload limit are listed with the reason.
+     */
+    skipped: string[];
+    /** The page the style library was detected from, if any. */
+    entryPage: string | null;
+}
+
+export interface ImportResult {
+    /** Suggested project name: the root folder or the ZIP file name. */
+    name: string;
+    files: ProjectFile[];
+    styleLibrary: StyleLibrary;
+    summary: ImportSummary;
+}
+
+// Folders that are never part of a site's source, and files operating systems leave behind.
+const JUNK_FOLDERS = new Set(['node_modules', '.git', '__MACOSX', '.svn', '.idea', '.vscode']);
+const JUNK_FILES = new Set(['.DS_Store', 'Thumbs.db', 'desktop.ini']);
+
+/** The junk folder or file that excludes `path` (`node_modules/`, `.DS_Store`), or null to keep it. */
+const getJunkReason = (path: string): string | null => {
+    const parts = path.split('/');
+    const folderIndex = parts.slice(0, -1).findIndex(part => JUNK_FOLDERS.has(part));
+    if (folderIndex !== -1) return `${parts.slice(0, folderIndex + 1).join('/')}/`;
+    const name = parts[parts.length - 1];
+    // `._name` files are macOS resource forks.
+    return JUNK_FILES.has(name) || name.startsWith('._') ? path : null;
+};
+
+const normalizePath = (path: string) => path.replace(/\\/g, '/').split('/').filter(part => part && part !== '.').join('/');
+
+// Absolute paths and `..` would put a file outside the project once it is written to disk or published.
+const isUnsafePath = (path: string) => {
+    const slashed = path.replace(/\\/g, '/');
+    return slashed.startsWith('/') || /^[a-z]:/i.test(slashed) || slashed.split('/').includes('..');
+};
+
+/** Removes folders that every path starts with, so `my-site/index.html` becomes `index.html`. */
+const stripCommonRoot = (paths: string[]): { root: string | null; paths: string[] } => {
+    let stripped = paths;
+    const removed: string[] = [];
+    while (stripped.length > 0 && stripped.every(p => p.includes('/'))) {
+        const first = stripped[0].substring(0, stripped[0].indexOf('/'));
+        if (!stripped.every(p => p.startsWith(`${first}/`))) break;
+        removed.push(first);
+        stripped = stripped.map(p => p.substring(first.length + 1));
+    }
+    return { root: removed.length > 0 ? removed.join('/') : null, paths: stripped };
+};
+
+/** Detects the CSS library a page loads from a CDN, matching the libraries the templates offer. */
+export const detectStyleLibrary = (html: string): StyleLibrary => {
+    const urls = Array.from(html.matchAll(/<(?:link|script)\b[^>]*?\b(?:href|src)\s*=\s*["']([^"']+)["']/gi), m => m[1].toLowerCase())
+        .filter(url => /^(?:https?:)?\/\//.test(url));
+    if (urls.some(url => url.includes('tailwindcss'))) return 'tailwindcss';
+    if (urls.some(url => url.includes('bootstrap'))) return 'bootstrap';
+    return 'none';
+};
+
+/**
+ * Lists the files in a ZIP archive. Files the import skips anyway (junk, unsafe paths, files
+ * over the upload limit) are listed without being unpacked; archives often carry a whole
+ * node_modules.
+ */
+export const readZipEntries = async (zipFile: Blob): Promise<ImportEntry[]> => {
+    if (typeof JSZip === 'undefined') {
+        throw new Error('JSZip library is not loaded.');
+    }
+    const zip = await JSZip.loadAsync(zipFile);
+    const files: { path: string; entry: any }[] = [];
+    zip.forEach((path: string, entry: any) => {
+        if (!entry.dir) files.push({ path, entry });
+    });
+    return Promise.all(files.map(async ({ path, entry }) => {
+        // JSZip keeps the size from the archive's directory in `_data`; it is not there for every entry.
+        const size: number | undefined = entry._data?.uncompressedSize;
+        if (isUnsafePath(path) || getJunkReason(normalizePath(path)) || (size !== undefined && size > MAX_UPLOAD_BYTES)) {
+            return { path, data: new Blob(), size };
+        }
+        return { path, data: await entry.async('blob') as Blob };
+    }));
+};
+
+/** Lists the files picked through a folder input (`webkitdirectory`). */
+export const readFolderInput = (fileList: FileList): ImportEntry[] =>
+    Array.from(fileList).map(file => ({ path: file.webkitRelativePath || file.name, data: file }));
+
+const readDirectory = (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+    const reader = directory.createReader();
+    const entries: FileSystemEntry[] = [];
+    // readEntries returns the children in batches and an empty batch at the end.
+    return new Promise((resolve, reject) => {
+        const readBatch = () => reader.readEntries(batch => {
+            if (batch.length === 0) return resolve(entries);
+            entries.push(...batch);
+            readBatch();
+        }, reject);
+        readBatch();
+    });
+};
+
+const collectEntry = async (entry: FileSystemEntry, results: ImportEntry[]): Promise<void> => {
+    const path = entry.fullPath.replace(/^\//, '');
+    if (entry.isFile) {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        results.push({ path, data: file });
+    } else if (entry.isDirectory) {
+        // Junk folders are not walked at all; a dropped node_modules can hold tens of thousands of files.
+        if (JUNK_FOLDERS.has(entry.name)) {
+            results.push({ path: `${path}/`, data: new Blob() });
+            return;
+        }
+        for (const child of await readDirectory(entry as FileSystemDirectoryEntry)) {
+            await collectEntry(child, results);
+        }
+    }
+};
+
+/**
+ * Lists the files dropped onto the page. Dropped folders are walked; a single dropped ZIP
+ * is unpacked.
+ */
+export const readDroppedEntries = async (dataTransfer: DataTransfer): Promise<{ name: string | null; entries: ImportEntry[] }> => {
+    // The entries must be taken before the first await; the drop data is gone after the event.
+    const dropped = Array.from(dataTransfer.items)
+        .map(item => item.kind === 'file' ? item.webkitGetAsEntry() : null)
+        .filter((entry): entry is FileSystemEntry => entry !== null);
+    const files = Array.from(dataTransfer.files);
+
+    if (files.length === 1 && /\.zip$/i.test(files[0].name) && !dropped.some(e => e.isDirectory)) {
+        return { name: files[0].name.replace(/\.zip$/i, ''), entries: await readZipEntries(files[0]) };
+    }
+    if (dropped.length === 0) {
+        return { name: null, entries: files.map(file => ({ path: file.name, data: file })) };
+    }
+    const entries: ImportEntry[] = [];
+    for (const entry of dropped) {
+        await collectEntry(entry, entries);
+    }
+    return { name: dropped.length === 1 && dropped[0].isDirectory ? dropped[0].name : null, entries };
+};
+
+/**
+ * Turns listed files into project files: drops junk, strips a common root folder, reads the
+ * contents and detects the style library from the entry page.
+ */
+export const importProjectFiles = async (entries: ImportEntry[], fallbackName: string | null): Promise<ImportResult> => {
+    const skipped = new Set<string>();
+    const kept: ImportEntry[] = [];
+    for (const entry of entries) {
+        const path = normalizePath(entry.path);
+        if (isUnsafePath(entry.path)) {
+            skipped.add(`${entry.path} (unsafe path)`);
+            continue;
+        }
+        const junk = getJunkReason(entry.path.endsWith('/') ? `${path}/` : path);
+        if (junk || entry.path.endsWith('/')) {
+            skipped.add(junk || `${path}/`);
+        } else if ((entry.size ?? entry.data.size) > MAX_UPLOAD_BYTES) {
+            skipped.add(`${path} (larger than 5 MB)`);
+        } else if (path) {
+            kept.push({ path, data: entry.data });
+        }
+    }
+    if (kept.length === 0) {
+        throw new Error('No files to import.');
+    }
+
+    const { root, paths } = stripCommonRoot(kept.map(e => e.path));
+    const files = await Promise.all(kept.map((entry, i) => readUploadedFile(entry.data, paths[i])));
+    files.sort((a, b) => a.path.localeCompare(b.path));
+
+    const entryPage = files.find(f => f.path.toLowerCase() === 'index.html')
+        || files.find(f => /(?:^|\/)index\.html?$/i.test(f.path))
+        || files.find(f => isHtmlFile(f.path));
+    const name = (root ? root.split('/')[0] : fallbackName) || 'Imported Project';
+
+    return {
+        name,
+        files,
+        styleLibrary: entryPage ? detectStyleLibrary(entryPage.content) : 'none',
+        summary: {
+            strippedRoot: root,
+            fileCount: files.length,
+            binaryCount: files.filter(isBinaryFile).length,
+            skipped: Array.from(skipped).sort(),
+            entryPage: entryPage?.path || null,
+        },
+    };
+};
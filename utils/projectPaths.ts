@@ -0,0 +1,159 @@
+import type { ProjectFile } from '../types';
+import { resolveProjectPath, isBinaryFile } from './fileUtils';
+
+/** The file tree of a project: its files plus folders that exist without any file in them. */
+export interface ProjectTree {
+    files: ProjectFile[];
+    folders: string[];
+}
+
+const isInside = (path: string, folder: string) => path === folder || path.startsWith(`${folder}/`);
+
+const replacePrefix = (path: string, from: string, to: string) => isInside(path, from) ? to + path.substring(from.length) : path;
+
+/**
+ * Cleans up a path typed by the user (`./css//site.css` -> `css/site.css`).
+ * Throws an Error with a user-facing message if the path cannot be used.
+ */
+export const normalizeNewPath = (input: string): string => {
+    const path = input.trim().replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '').replace(/\/{2,}/g, '/').replace(/\/$/, '');
+    if (!path) throw new Error('Nama tidak boleh kosong.');
+    const segments = path.split('/');
+    if (segments.some(s => s === '.' || s === '..')) throw new Error('Nama tidak boleh berisi "." atau "..".');
+    if (segments.some(s => /[<>:"|?*\u0000-\u001f]/.test(s))) throw new Error('Nama berisi karakter yang tidak diizinkan.');
+    return path;
+};
+
+/** Whether a file or folder already exists at `path`. */
+export const pathExists = (tree: ProjectTree, path: string): boolean =>
+    tree.files.some(f => f.path === path || f.path.startsWith(`${path}/`)) || tree.folders.some(f => isInside(f, path));
+
+/** Folders whose parent folders are implied by files; only the explicitly empty ones need storing. */
+const pruneFolders = (files: ProjectFile[], folders: string[]): string[] =>
+    [...new Set(folders)].filter(folder => !files.some(f => f.path.startsWith(`${folder}/`)) && !folders.some(other => other.startsWith(`${folder}/`))).sort();
+
+/**
+ * Computes the path from `fromFile` to `toPath` the way it is written in a reference, e.g.
+ * `../img/logo.png` from `blog/post.html`.
+ */
+const relativeReference = (fromFile: string, toPath: string): string => {
+    const fromDirs = fromFile.split('/').slice(0, -1);
+    const toParts = toPath.split('/');
+    let common = 0;
+    while (common < fromDirs.length && common < toParts.length - 1 && fromDirs[common] === toParts[common]) common++;
+    const ups = fromDirs.length - common;
+    const rest = toParts.slice(common).join('/');
+    return ups === 0 ? rest : `${'../'.repeat(ups)}${rest}`;
+};
+
+// Each pattern captures: 1 = text before the reference, 2 = the reference itself.
+const HTML_REFERENCE_PATTERNS = [/(\s(?:href|src|poster|data|action)\s*=\s*["'])([^"']+)(?=["'])/gi];
+const CSS_REFERENCE_PATTERNS = [/(url\(\s*["']?)([^"')]+)(?=["']?\s*\))/gi, /(@import\s+["'])([^"']+)(?=["'])/gi];
+const JS_REFERENCE_PATTERNS = [/(\bimport\s*(?:[\w$*{}\s,]+?\s*from\s*)?["']|\bexport\s*[\w$*{}\s,]+?\s*from\s*["']|\bimport\s*\(\s*["'])(\.{1,2}\/[^"']+|\/[^"']+)(?=["'])/g];
+
+const referencePatterns = (path: string): RegExp[] => {
+    const extension = path.split('.').pop()?.toLowerCase();
+    if (extension === 'html' || extension === 'htm') return [...HTML_REFERENCE_PATTERNS, ...CSS_REFERENCE_PATTERNS, ...JS_REFERENCE_PATTERNS];
+    if (extension === 'css') return CSS_REFERENCE_PATTERNS;
+    if (extension === 'js' || extension === 'mjs') return JS_REFERENCE_PATTERNS;
+    return [];
+};
+
+/**
+ * Rewrites the local references in a file that was at `oldPath` and is now at `newPath`, so
+ * they keep pointing at the same files after `movedPath` maps old paths to new ones.
+ * Root-relative references stay root-relative; references to missing files are left alone.
+ */
+const rewriteReferences = (content: string, oldPath: string, newPath: string, existingPaths: Set<string>, movedPath: (path: string) => string): string => {
+    let result = content;
+    for (const pattern of referencePatterns(newPath)) {
+        result = result.replace(pattern, (match, prefix: string, reference: string) => {
+            const suffixIndex = reference.search(/[?#]/);
+            const bare = suffixIndex === -1 ? reference : reference.substring(0, suffixIndex);
+            const suffix = suffixIndex === -1 ? '' : reference.substring(suffixIndex);
+            const target = bare ? resolveProjectPath(oldPath, bare) : null;
+            if (target === null || !existingPaths.has(target)) return match;
+
+            const newTarget = movedPath(target);
+            if (newTarget === target && newPath === oldPath) return match;
+            const rewritten = bare.startsWith('/') ? `/${newTarget}` : relativeReference(newPath, newTarget);
+            const keepDotSlash = bare.startsWith('./') && !rewritten.startsWith('../');
+            return `${prefix}${keepDotSlash ? './' : ''}${rewritten}${suffix}`;
+        });
+    }
+    return result;
+};
+
+/**
+ * The existing project files that `file` references, found the same way as references are
+ * rewritten on a move.
+ */
+export const findReferencedPaths = (file: ProjectFile, existingPaths: Set<string>): string[] => {
+    if (isBinaryFile(file)) return [];
+    const found = new Set<string>();
+    for (const pattern of referencePatterns(file.path)) {
+        for (const match of file.content.matchAll(pattern)) {
+            const bare = match[2].replace(/[?#].*$/, '');
+            const target = bare ? resolveProjectPath(file.path, bare) : null;
+            if (target !== null && existingPaths.has(target)) found.add(target);
+        }
+    }
+    return Array.from(found);
+};
+
+/**
+ * Rewrites the references in `file` to files that were renamed (`renamed` maps old paths to
+ * new ones). The file itself stays where it is.
+ */
+export const updateRenamedReferences = (file: ProjectFile, renamed: Map<string, string>, existingPaths: Set<string>): ProjectFile => {
+    if (isBinaryFile(file)) return file;
+    const content = rewriteReferences(file.content, file.path, file.path, existingPaths, path => renamed.get(path) ?? path);
+    return content === file.content ? file : { ...file, content };
+};
+
+/**
+ * Moves or renames the file or folder at `from` to `to`. With `updateReferences`, local
+ * references in text files (HTML attributes, CSS `url()`/`@import`, JS imports) are rewritten
+ * to match. Returns the new tree and the paths of files whose references were changed.
+ */
+export const movePath = (tree: ProjectTree, from: string, to: string, updateReferences: boolean): ProjectTree & { updatedFiles: string[] } => {
+    const movedPath = (path: string) => replacePrefix(path, from, to);
+    const existingPaths = new Set(tree.files.map(f => f.path));
+    const updatedFiles: string[] = [];
+
+    const files = tree.files.map(file => {
+        const newPath = movedPath(file.path);
+        if (!updateReferences || isBinaryFile(file)) return newPath === file.path ? file : { ...file, path: newPath };
+
+        const content = rewriteReferences(file.content, file.path, newPath, existingPaths, movedPath);
+        if (content !== file.content) updatedFiles.push(newPath);
+        return newPath === file.path && content === file.content ? file : { ...file, path: newPath, content };
+    });
+
+    const folders = pruneFolders(files, tree.folders.map(movedPath));
+    return { files, folders, updatedFiles };
+};
+
+/**
+ * Counts the files whose references `movePath` would rewrite, without changing anything.
+ */
+export const countReferenceUpdates = (tree: ProjectTree, from: string, to: string): number =>
+    movePath(tree, from, to, true).updatedFiles.length;
+
+export const deletePath = (tree: ProjectTree, path: string): ProjectTree => {
+    const files = tree.files.filter(f => !isInside(f.path, path));
+    const parent = path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+    // Keep the parent folder visible if this was the last thing in it.
+    const folders = tree.folders.filter(f => !isInside(f, path)).concat(parent ? [parent] : []);
+    return { files, folders: pruneFolders(files, folders) };
+};
+
+export const addFolder = (tree: ProjectTree, path: string): ProjectTree => ({
+    files: tree.files,
+    folders: pruneFolders(tree.files, [...tree.folders, path]),
+});
+
+export const addFile = (tree: ProjectTree, path: string, content = ''): ProjectTree => {
+    const files = [...tree.files, { path, content }];
+    return { files, folders: pruneFolders(files, tree.folders) };
+};
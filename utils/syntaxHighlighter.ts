@@ -0,0 +1,193 @@
+export type EditorLanguage = 'html' | 'css' | 'javascript' | 'json' | 'markdown' | 'plain';
+
+type TokenType = 'comment' | 'string' | 'keyword' | 'number' | 'atom' | 'function' | 'property' | 'tag' | 'attribute' | 'heading';
+
+interface Rule {
+    token: TokenType | null;
+    pattern: RegExp; // must be sticky (`y`)
+    next?: string;   // state to switch to after this rule matches
+}
+
+/** A small state machine: each state lists the rules tried, in order, at the current position. */
+type Grammar = { start: Rule[] } & Record<string, Rule[]>;
+
+// One Dark colours, matching the editor background.
+const TOKEN_CLASSES: Record<TokenType, string> = {
+    comment: 'text-[#7f848e]',
+    string: 'text-[#98c379]',
+    keyword: 'text-[#c678dd]',
+    number: 'text-[#d19a66]',
+    atom: 'text-[#d19a66]',
+    function: 'text-[#61afef]',
+    property: 'text-[#56b6c2]',
+    tag: 'text-[#e06c75]',
+    attribute: 'text-[#d19a66]',
+    heading: 'text-[#e06c75]',
+};
+
+const JS_KEYWORDS = 'async|await|break|case|catch|class|const|continue|debugger|default|delete|do|else|export|extends|finally|for|from|function|get|if|import|in|instanceof|let|new|of|return|set|static|super|switch|throw|try|typeof|var|void|while|with|yield|interface|type|enum|implements|as';
+
+const STRING = /"(?:\\.|[^\\"\n])*"?|'(?:\\.|[^\\'\n])*'?/y;
+
+const JS_RULES: Rule[] = [
+    { token: 'comment', pattern: /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y },
+    { token: 'string', pattern: /`(?:\\[\s\S]|[^\\`])*`?/y },
+    { token: 'string', pattern: STRING },
+    { token: 'keyword', pattern: new RegExp(`\\b(?:${JS_KEYWORDS})\\b`, 'y') },
+    { token: 'atom', pattern: /\b(?:true|false|null|undefined|NaN|Infinity|this)\b/y },
+    { token: 'number', pattern: /\b(?:0[xXbBoO][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?n?)\b/y },
+    { token: 'function', pattern: /[A-Za-z_$][\w$]*(?=\s*\()/y },
+    { token: null, pattern: /[A-Za-z_$][\w$]*/y },
+];
+
+const CSS_COMMENT: Rule = { token: 'comment', pattern: /\/\*[\s\S]*?(?:\*\/|$)/y };
+
+const CSS_GRAMMAR: Grammar = {
+    start: [
+        CSS_COMMENT,
+        { token: 'string', pattern: STRING },
+        { token: 'keyword', pattern: /@[\w-]+/y },
+        { token: null, pattern: /\{/y, next: 'block' },
+        { token: 'attribute', pattern: /[.#][\w-]+/y },
+        { token: 'keyword', pattern: /::?[\w-]+/y },
+        { token: 'tag', pattern: /[A-Za-z][\w-]*/y },
+        { token: 'number', pattern: /\d+(?:\.\d+)?(?:px|em|rem|%)?/y },
+    ],
+    block: [
+        CSS_COMMENT,
+        { token: 'string', pattern: STRING },
+        { token: null, pattern: /\}/y, next: 'start' },
+        { token: 'property', pattern: /--?[\w-]+(?=\s*:)|[A-Za-z][\w-]*(?=\s*:(?!:))/y },
+        { token: 'number', pattern: /#[\da-fA-F]{3,8}\b/y },
+        { token: 'number', pattern: /-?(?:\d+\.?\d*|\.\d+)(?:[a-zA-Z]+|%)?/y },
+        { token: 'keyword', pattern: /!important\b/y },
+        { token: 'function', pattern: /[\w-]+(?=\()/y },
+        { token: 'atom', pattern: /[A-Za-z][\w-]*/y },
+    ],
+};
+
+const JSON_GRAMMAR: Grammar = {
+    start: [
+        { token: 'property', pattern: /"(?:\\.|[^\\"\n])*"(?=\s*:)/y },
+        { token: 'string', pattern: /"(?:\\.|[^\\"\n])*"?/y },
+        { token: 'atom', pattern: /\b(?:true|false|null)\b/y },
+        { token: 'number', pattern: /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y },
+    ],
+};
+
+const MARKDOWN_GRAMMAR: Grammar = {
+    start: [
+        { token: 'string', pattern: /(?<=^|\n)(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:\n\1[^\n]*|$)/y },
+        { token: 'heading', pattern: /(?<=^|\n)#{1,6}\s[^\n]*/y },
+        { token: 'comment', pattern: /(?<=^|\n)>[^\n]*/y },
+        { token: 'tag', pattern: /(?<=^|\n)[ \t]*(?:[-*+]|\d+[.)])(?=\s)/y },
+        { token: 'string', pattern: /`[^`\n]+`/y },
+        { token: 'keyword', pattern: /\*\*[^*\n]+\*\*|__[^_\n]+__/y },
+        { token: 'atom', pattern: /\*[^*\s][^*\n]*\*|\b_[^_\s][^_\n]*_\b/y },
+        { token: 'function', pattern: /!?\[[^\]\n]*\]\([^)\n]*\)/y },
+        { token: null, pattern: /\w+/y },
+    ],
+};
+
+/**
+ * Copies `grammar` under prefixed state names for use inside another grammar, with `exit`
+ * tried first in every state (e.g. `</style>` ends embedded CSS).
+ */
+const embed = (grammar: Grammar, prefix: string, exit: Rule): Record<string, Rule[]> =>
+    Object.fromEntries(Object.entries(grammar).map(([state, rules]) => [
+        prefix + state,
+        [exit, ...rules.map(rule => rule.next ? { ...rule, next: prefix + rule.next } : rule)],
+    ]));
+
+const tagRules = (closeState: string): Rule[] => [
+    { token: 'tag', pattern: /\/?>/y, next: closeState },
+    { token: 'string', pattern: /"[^"]*"?|'[^']*'?/y },
+    { token: 'attribute', pattern: /[^\s"'>/=]+/y },
+];
+
+const HTML_GRAMMAR: Grammar = {
+    start: [
+        { token: 'comment', pattern: /<!--[\s\S]*?(?:-->|$)/y },
+        { token: 'keyword', pattern: /<!DOCTYPE[^>]*>?/iy },
+        { token: 'tag', pattern: /<script\b/iy, next: 'scriptTag' },
+        { token: 'tag', pattern: /<style\b/iy, next: 'styleTag' },
+        { token: 'tag', pattern: /<\/?[A-Za-z][\w:-]*/y, next: 'tag' },
+        { token: 'atom', pattern: /&(?:#\d+|#x[\da-fA-F]+|\w+);/y },
+        { token: null, pattern: /[^<&]+/y },
+    ],
+    tag: tagRules('start'),
+    scriptTag: tagRules('js'),
+    styleTag: tagRules('cssstart'),
+    js: [{ token: 'tag', pattern: /<\/script\s*>/iy, next: 'start' }, ...JS_RULES],
+    ...embed(CSS_GRAMMAR, 'css', { token: 'tag', pattern: /<\/style\s*>/iy, next: 'start' }),
+};
+
+const GRAMMARS: Record<Exclude<EditorLanguage, 'plain'>, Grammar> = {
+    html: HTML_GRAMMAR,
+    css: CSS_GRAMMAR,
+    javascript: { start: JS_RULES },
+    json: JSON_GRAMMAR,
+    markdown: MARKDOWN_GRAMMAR,
+};
+
+const LANGUAGES_BY_EXTENSION: Record<string, EditorLanguage> = {
+    html: 'html', htm: 'html', svg: 'html', xml: 'html',
+    css: 'css',
+    js: 'javascript', mjs: 'javascript', cjs: 'javascript', jsx: 'javascript', ts: 'javascript', tsx: 'javascript',
+    json: 'json', webmanifest: 'json',
+    md: 'markdown', markdown: 'markdown',
+};
+
+export const getEditorLanguage = (path: string): EditorLanguage =>
+    LANGUAGES_BY_EXTENSION[path.split('.').pop()?.toLowerCase() || ''] || 'plain';
+
+export const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const tokenize = (code: string, grammar: Grammar): { type: TokenType | null; text: string }[] => {
+    const tokens: { type: TokenType | null; text: string }[] = [];
+    let state = 'start';
+    let pos = 0;
+    let plainStart = 0;
+
+    const flushPlain = () => {
+        if (plainStart < pos) tokens.push({ type: null, text: code.substring(plainStart, pos) });
+    };
+
+    while (pos < code.length) {
+        let matched = false;
+        for (const rule of grammar[state]) {
+            rule.pattern.lastIndex = pos;
+            const match = rule.pattern.exec(code);
+            if (!match || match[0].length === 0) continue;
+            flushPlain();
+            tokens.push({ type: rule.token, text: match[0] });
+            pos += match[0].length;
+            plainStart = pos;
+            if (rule.next) state = rule.next;
+            matched = true;
+            break;
+        }
+        if (!matched) pos++;
+    }
+    flushPlain();
+    return tokens;
+};
+
+/**
+ * Highlights `code` and returns one HTML string per line, so callers can render any subset
+ * of lines (e.g. with folded regions left out). Tokens spanning lines are split per line.
+ */
+export const highlightLines = (code: string, language: EditorLanguage): string[] => {
+    if (language === 'plain') return code.split('\n').map(escapeHtml);
+
+    const lines: string[] = [''];
+    for (const token of tokenize(code, GRAMMARS[language])) {
+        token.text.split('\n').forEach((part, i) => {
+            if (i > 0) lines.push('');
+            if (!part) return;
+            const html = escapeHtml(part);
+            lines[lines.length - 1] += token.type ? `<span class="${TOKEN_CLASSES[token.type]}">${html}</span>` : html;
+        });
+    }
+    return lines;
+};
@@ -0,0 +1,100 @@
+export type DeviceKind = 'phone' | 'tablet' | 'desktop';
+
+export interface ViewportPreset {
+    id: string;
+    name: string;
+    kind: DeviceKind;
+    /** Portrait size in CSS pixels. */
+    width: number;
+    height: number;
+}
+
+export const VIEWPORT_PRESETS: ViewportPreset[] = [
+    { id: 'galaxy-s23', name: 'Galaxy S23', kind: 'phone', width: 360, height: 780 },
+    { id: 'iphone-se', name: 'iPhone SE', kind: 'phone', width: 375, height: 667 },
+    { id: 'iphone-15', name: 'iPhone 15', kind: 'phone', width: 393, height: 852 },
+    { id: 'pixel-8', name: 'Pixel 8', kind: 'phone', width: 412, height: 915 },
+    { id: 'ipad-mini', name: 'iPad Mini', kind: 'tablet', width: 768, height: 1024 },
+    { id: 'ipad-air', name: 'iPad Air', kind: 'tablet', width: 820, height: 1180 },
+    { id: 'laptop', name: 'Laptop', kind: 'desktop', width: 1366, height: 768 },
+    { id: 'desktop', name: 'Desktop', kind: 'desktop', width: 1920, height: 1080 },
+];
+
+/** `responsive` fills the available space; `custom` uses `customWidth` and `customHeight`. */
+export type DeviceId = 'responsive' | 'custom' | string;
+
+export type PreviewZoom = 'fit' | number;
+
+export interface ViewportSettings {
+    deviceId: DeviceId;
+    customWidth: number;
+    customHeight: number;
+    isLandscape: boolean;
+    zoom: PreviewZoom;
+    /** Show the `compareIds` presets side by side instead of a single viewport. */
+    isComparing: boolean;
+    compareIds: string[];
+}
+
+/** A viewport to render, already rotated. */
+export interface Viewport {
+    id: string;
+    name: string;
+    kind: DeviceKind;
+    width: number;
+    height: number;
+}
+
+export const ZOOM_LEVELS = [0.25, 0.5, 0.75, 1, 1.25, 1.5];
+export const MIN_VIEWPORT_SIZE = 200;
+export const MAX_VIEWPORT_SIZE = 3840;
+
+export const DEFAULT_VIEWPORT_SETTINGS: ViewportSettings = {
+    deviceId: 'responsive',
+    customWidth: 400,
+    customHeight: 800,
+    isLandscape: false,
+    zoom: 'fit',
+    isComparing: false,
+    compareIds: ['iphone-se', 'ipad-mini', 'laptop'],
+};
+
+export const clampViewportSize = (size: number): number =>
+    Math.round(Math.min(MAX_VIEWPORT_SIZE, Math.max(MIN_VIEWPORT_SIZE, size || MIN_VIEWPORT_SIZE)));
+
+/** The viewport for `deviceId`, or null for the responsive (fill the space) mode. */
+export const resolveViewport = (settings: ViewportSettings, deviceId: DeviceId): Viewport | null => {
+    const preset = deviceId === 'custom'
+        ? { id: 'custom', name: 'Custom', kind: 'desktop' as DeviceKind, width: settings.customWidth, height: settings.customHeight }
+        : VIEWPORT_PRESETS.find(p => p.id === deviceId);
+    if (!preset) return null;
+    const { width, height } = settings.isLandscape ? { width: preset.height, height: preset.width } : preset;
+    return { id: preset.id, name: preset.name, kind: preset.kind, width, height };
+};
+
+/** The viewports to render; an empty list means a single responsive frame. */
+export const getViewports = (settings: ViewportSettings): Viewport[] => {
+    const ids = settings.isComparing ? settings.compareIds : [settings.deviceId];
+    return ids.map(id => resolveViewport(settings, id)).filter((v): v is Viewport => v !== null);
+};
+
+/** Reads stored settings, falling back to the defaults for anything missing or invalid. */
+export const parseViewportSettings = (stored: string | null): ViewportSettings => {
+    if (!stored) return DEFAULT_VIEWPORT_SETTINGS;
+    try {
+        const parsed = JSON.parse(stored);
+        const settings = { ...DEFAULT_VIEWPORT_SETTINGS, ...parsed };
+        const isKnown = (id: unknown) => typeof id === 'string' && VIEWPORT_PRESETS.some(p => p.id === id);
+        return {
+            deviceId: settings.deviceId === 'responsive' || settings.deviceId === 'custom' || isKnown(settings.deviceId) ? settings.deviceId : 'responsive',
+            customWidth: clampViewportSize(Number(settings.customWidth)),
+            customHeight: clampViewportSize(Number(settings.customHeight)),
+            isLandscape: settings.isLandscape === true,
+            zoom: settings.zoom === 'fit' || ZOOM_LEVELS.includes(settings.zoom) ? settings.zoom : 'fit',
+            isComparing: settings.isComparing === true,
+            compareIds: Array.isArray(settings.compareIds) ? settings.compareIds.filter(isKnown) : DEFAULT_VIEWPORT_SETTINGS.compareIds,
+        };
+    } catch {
+        return DEFAULT_VIEWPORT_SETTINGS;
+    }
+};